@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {ICrossDomainMessenger} from "./lib/ICrossDomainMessenger.sol";
+import {RebaseReceiver} from "./RebaseReceiver.sol";
+import {IYBS} from "./lib/IYBS.sol";
+
+/**
+ * @title RebaseBroadcaster
+ * @dev Sends the rebase multipliers of the token on Ethereum, including the queued ones, to a RebaseReceiver
+ * on another chain, through the cross domain messenger of that chain.
+ * Messages are numbered, so the receiver can reject stale or out of order messages.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+contract RebaseBroadcaster {
+    // The token on Ethereum
+    IYBS public immutable TOKEN;
+    // The messenger to the other chain
+    ICrossDomainMessenger public immutable MESSENGER;
+    // The number of the last message sent
+    uint256 public nonce;
+    // Min gas limit of the call on the other chain, plus GAS_PER_SCHEDULED_MULTIPLIER per queued multiplier
+    uint32 public constant MIN_GAS_LIMIT = 300_000;
+    uint32 public constant GAS_PER_SCHEDULED_MULTIPLIER = 100_000;
+
+    event MultipliersBroadcast(
+        uint256 indexed nonce,
+        address indexed receiver,
+        uint256 beforeIncrMult,
+        uint256 afterIncrMult,
+        uint256 multIncrTime
+    );
+
+    error ZeroAddress();
+    error InsufficientGasLimit(uint32 gasLimit, uint256 minGasLimit);
+
+    constructor(IYBS token_, ICrossDomainMessenger messenger_) {
+        if (address(token_) == address(0) || address(messenger_) == address(0)) revert ZeroAddress();
+
+        TOKEN = token_;
+        MESSENGER = messenger_;
+    }
+
+    /**
+     * @notice Sends the current multipliers of the token to a receiver on the other chain.
+     * @dev Callable by anyone, since the multipliers are read from the token. The gas limit must cover
+     * the queued multipliers, so a message cannot be sent that is bound to run out of gas on the other chain.
+     * @param receiver The RebaseReceiver on the other chain.
+     * @param gasLimit The gas limit of the call on the other chain.
+     */
+    function broadcast(address receiver, uint32 gasLimit) external {
+        if (receiver == address(0)) revert ZeroAddress();
+
+        (
+            uint256 beforeIncrMult,
+            uint256 afterIncrMult,
+            uint256 multIncrTime,
+            IYBS.MultiplierCheckpoint[] memory schedule
+        ) = currentMultipliers();
+
+        uint256 minGasLimit = MIN_GAS_LIMIT + schedule.length * GAS_PER_SCHEDULED_MULTIPLIER;
+        if (gasLimit < minGasLimit) revert InsufficientGasLimit(gasLimit, minGasLimit);
+
+        uint256 nonce_ = ++nonce;
+
+        MESSENGER.sendMessage(
+            receiver,
+            abi.encodeCall(
+                RebaseReceiver.receiveMultipliers,
+                (nonce_, beforeIncrMult, afterIncrMult, multIncrTime, schedule)
+            ),
+            gasLimit
+        );
+        emit MultipliersBroadcast(nonce_, receiver, beforeIncrMult, afterIncrMult, multIncrTime);
+    }
+
+    /**
+     * @notice Returns the pending multipliers of the token.
+     * @dev Rolls forward queued multipliers that already took effect, like the token does on its next multiplier change.
+     * @return beforeIncrMult The multiplier effective before multIncrTime.
+     * @return afterIncrMult The multiplier effective from multIncrTime.
+     * @return multIncrTime The time at which the multiplier increases.
+     * @return schedule The multipliers queued after multIncrTime, ordered by effective time.
+     */
+    function currentMultipliers() public view returns (
+        uint256 beforeIncrMult,
+        uint256 afterIncrMult,
+        uint256 multIncrTime,
+        IYBS.MultiplierCheckpoint[] memory schedule
+    ) {
+        beforeIncrMult = TOKEN.beforeIncrMult();
+        afterIncrMult = TOKEN.afterIncrMult();
+        multIncrTime = TOKEN.multIncrTime();
+
+        IYBS.MultiplierCheckpoint[] memory queued = TOKEN.getMultiplierSchedule();
+        uint256 next = 0;
+        for (; next < queued.length && multIncrTime <= block.timestamp;) {
+            beforeIncrMult = afterIncrMult;
+            afterIncrMult = queued[next].multiplier;
+            multIncrTime = queued[next].effectiveTime;
+            unchecked { ++next; }
+        }
+
+        schedule = new IYBS.MultiplierCheckpoint[](queued.length - next);
+        for (uint256 i = 0; i < schedule.length;) {
+            schedule[i] = queued[next + i];
+            unchecked { ++i; }
+        }
+    }
+}
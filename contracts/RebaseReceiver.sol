@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {ICrossDomainMessenger} from "./lib/ICrossDomainMessenger.sol";
+import {IYBS} from "./lib/IYBS.sol";
+
+/**
+ * @title RebaseReceiver
+ * @dev Sets the rebase multipliers of the token on another chain to those sent by the RebaseBroadcaster on Ethereum,
+ * including the queued ones. Requires the REBASE_RECEIVER_ROLE on the token, which bounds the multipliers it accepts,
+ * see YBSV1_1Rebasing.receiveRebaseMultipliers().
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+contract RebaseReceiver {
+    // The token on this chain
+    IYBS public immutable TOKEN;
+    // The messenger from Ethereum
+    ICrossDomainMessenger public immutable MESSENGER;
+    // The RebaseBroadcaster on Ethereum
+    address public immutable BROADCASTER;
+    // The number of the last message received
+    uint256 public lastNonce;
+
+    event MultipliersReceived(
+        uint256 indexed nonce,
+        uint256 beforeIncrMult,
+        uint256 afterIncrMult,
+        uint256 multIncrTime
+    );
+
+    error ZeroAddress();
+    error UnauthorizedSender(address sender);
+    error StaleMessage(uint256 nonce, uint256 lastNonce);
+
+    constructor(IYBS token_, ICrossDomainMessenger messenger_, address broadcaster_) {
+        if (address(token_) == address(0) || address(messenger_) == address(0) || broadcaster_ == address(0)) {
+            revert ZeroAddress();
+        }
+
+        TOKEN = token_;
+        MESSENGER = messenger_;
+        BROADCASTER = broadcaster_;
+    }
+
+    /**
+     * @notice Sets the multipliers of the token to those sent from Ethereum.
+     * @dev Only callable by the messenger, relaying a message from the broadcaster.
+     * Messages older than the last one received are rejected.
+     * @param nonce The number of the message.
+     * @param beforeIncrMult The multiplier effective before multIncrTime.
+     * @param afterIncrMult The multiplier effective from multIncrTime.
+     * @param multIncrTime The time at which the multiplier increases.
+     * @param schedule The multipliers queued after multIncrTime, ordered by effective time.
+     */
+    function receiveMultipliers(
+        uint256 nonce,
+        uint256 beforeIncrMult,
+        uint256 afterIncrMult,
+        uint256 multIncrTime,
+        IYBS.MultiplierCheckpoint[] calldata schedule
+    ) external {
+        if (msg.sender != address(MESSENGER)) revert UnauthorizedSender(msg.sender);
+        address sender = MESSENGER.xDomainMessageSender();
+        if (sender != BROADCASTER) revert UnauthorizedSender(sender);
+        if (nonce <= lastNonce) revert StaleMessage(nonce, lastNonce);
+
+        lastNonce = nonce;
+        TOKEN.receiveRebaseMultipliers(beforeIncrMult, afterIncrMult, multIncrTime, schedule);
+        emit MultipliersReceived(nonce, beforeIncrMult, afterIncrMult, multIncrTime);
+    }
+}
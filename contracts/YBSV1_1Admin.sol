@@ -0,0 +1,459 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {YBSV1_1Base} from "./YBSV1_1Base.sol";
+
+/**
+ * @title YBS admin module
+ * @dev Implements the yield, blocklist, reserve attestation, upgrade timelock and granular pause functions of YBSV1_1.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+// solhint-disable-next-line contract-name-camelcase
+contract YBSV1_1Admin is YBSV1_1Base {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address nextModule) YBSV1_1Base(nextModule) {}
+
+    /**
+     * @notice Pauses an operation class, independently of pause().
+     * @dev Restricted to PAUSE_ROLE.
+     * @param operation The operation class to pause.
+     */
+    function pauseOperation(PausableOperation operation) external onlyRole(PAUSE_ROLE) {
+        _pausedOperations[operation] = true;
+        emit OperationPaused(operation);
+    }
+
+    /**
+     * @notice Unpauses an operation class. Has no effect on pause().
+     * @dev Restricted to PAUSE_ROLE.
+     * @param operation The operation class to unpause.
+     */
+    function unpauseOperation(PausableOperation operation) external onlyRole(PAUSE_ROLE) {
+        delete _pausedOperations[operation];
+        emit OperationUnpaused(operation);
+    }
+
+    /**
+     * @notice Batch block accounts.
+     * @dev Restricted to ASSET_PROTECTION_ROLE.
+     * This function intentionally does not include the whenNoPendingMultiplier() modifier
+     * since blocking accounts is a critical operation and should not be delayed.
+     * As a result, the overall payout amount would be less than originally expected
+     * for a pending multiplier since the blocked accounts would not receive the payout.
+     * @param addresses list of addresses to block.
+     */
+    function blockAccounts(
+        address[] calldata addresses
+    ) external onlyRole(ASSET_PROTECTION_ROLE) {
+        for (uint256 i = 0; i < addresses.length;) {
+            _blockAccount(addresses[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Blocks multiple accounts at once from receiving funds.
+     * @dev Restricted to ASSET_PROTECTION_ROLE.
+     * @param addresses An array of addresses to be blocked.
+     */
+    function blockAccountsFromReceiving(
+        address[] calldata addresses
+    ) external onlyRole(ASSET_PROTECTION_ROLE) {
+        for (uint256 i = 0; i < addresses.length; ) {
+            _blocklistForReceiving[addresses[i]] = true;
+            emit AccountBlockedFromReceivingToken(addresses[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Batch unblock accounts.
+     * @dev Restricted to ASSET_PROTECTION_ROLE.
+     * @param addresses list of addresses to unblock.
+     */
+    function unblockAccounts(
+        address[] calldata addresses
+    ) external onlyRole(ASSET_PROTECTION_ROLE) whenNoPendingMultiplier() {
+        for (uint256 i = 0; i < addresses.length;) {
+            _unblockAccount(addresses[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Removes multiple accounts from the receiving blocklist at once.
+     * @dev Restricted to ASSET_PROTECTION_ROLE.
+     * @param addresses An array of addresses to be removed from the receiving blocklist.
+     */
+    function unblockAccountsFromReceiving(
+        address[] calldata addresses
+    ) external onlyRole(ASSET_PROTECTION_ROLE) {
+        for (uint256 i = 0; i < addresses.length;) {
+            delete _blocklistForReceiving[addresses[i]];
+            emit AccountUnblockedFromReceivingToken(addresses[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Batch mark accounts as yield-ineligible.
+     * @dev Restricted to ASSET_PROTECTION_ROLE.
+     * The accounts' rebase shares are converted to fixed shares, but unlike blocked accounts they can still transact.
+     * Like blockAccounts(), this function intentionally does not include the whenNoPendingMultiplier() modifier.
+     * @param addresses list of addresses to mark as yield-ineligible.
+     */
+    function setYieldIneligibleAccounts(
+        address[] calldata addresses
+    ) external onlyRole(ASSET_PROTECTION_ROLE) {
+        for (uint256 i = 0; i < addresses.length;) {
+            _stopYieldRedirection(addresses[i]);
+            _convertRebaseSharesToFixedShares(addresses[i]);
+
+            _yieldIneligible[addresses[i]] = true;
+            emit AccountYieldIneligible(addresses[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Batch mark accounts as yield-eligible again.
+     * @dev Restricted to ASSET_PROTECTION_ROLE.
+     * The accounts' fixed shares are converted back to rebase shares, unless they are blocked or opted out of yield.
+     * @param addresses list of addresses to mark as yield-eligible.
+     */
+    function unsetYieldIneligibleAccounts(
+        address[] calldata addresses
+    ) external onlyRole(ASSET_PROTECTION_ROLE) whenNoPendingMultiplier() {
+        for (uint256 i = 0; i < addresses.length;) {
+            delete _yieldIneligible[addresses[i]];
+
+            if (!_holdsFixedShares(addresses[i])) {
+                _convertFixedSharesToRebaseShares(addresses[i]);
+            }
+            emit AccountYieldEligible(addresses[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Opts msg.sender out of yield.
+     * @dev The account's rebase shares are converted to fixed shares, so its balance no longer changes on rebase.
+     */
+    function optOutOfYield() external whenNotPaused {
+        address sender = _msgSender();
+        if (_blocklist[sender]) revert BlockedAccountSender();
+        if (_yieldOptedOut[sender]) revert YieldAlreadyOptedOut();
+
+        _stopYieldRedirection(sender);
+        _convertRebaseSharesToFixedShares(sender);
+
+        _yieldOptedOut[sender] = true;
+        emit YieldOptedOut(sender);
+    }
+
+    /**
+     * @notice Opts msg.sender back in to yield.
+     * @dev The account's fixed shares are converted back to rebase shares, unless it is yield-ineligible.
+     */
+    function optInToYield() external whenNotPaused whenNoPendingMultiplier() {
+        address sender = _msgSender();
+        if (_blocklist[sender]) revert BlockedAccountSender();
+        if (!_yieldOptedOut[sender]) revert YieldNotOptedOut();
+
+        delete _yieldOptedOut[sender];
+
+        if (!_yieldIneligible[sender]) {
+            _convertFixedSharesToRebaseShares(sender);
+        }
+        emit YieldOptedIn(sender);
+    }
+
+    /**
+     * @notice Redirects the yield of msg.sender to a recipient.
+     * @dev The current balance of msg.sender becomes its principal, which no longer changes on rebase.
+     * The yield on the principal accrues to the recipient, and is moved to the recipient's rebase shares
+     * when the recipient sends or burns tokens, or when the redirection stops.
+     * Both accounts must hold rebase shares, and a recipient can only collect the yield of one source.
+     * Blocking either account, or either account holding fixed shares, stops the redirection.
+     * @param recipient The address that collects the yield.
+     */
+    function redirectYield(address recipient) external whenNotPaused {
+        address sender = _msgSender();
+        if (_blocklist[sender]) revert BlockedAccountSender();
+        if (_blocklist[recipient] || _blocklistForReceiving[recipient]) revert BlockedAccountReceiver();
+        if (_holdsFixedShares(sender)) revert NonRebasingAccount(sender);
+        if (_holdsFixedShares(recipient)) revert NonRebasingAccount(recipient);
+        // To prevent inflation attacks on the wYBS contract, do not allow it to collect yield.
+        if (hasRole(WRAPPED_YBS_ROLE, recipient)) revert WYBSTransferNotAllowed();
+        if (
+            recipient == address(0) ||
+            recipient == sender ||
+            _yieldRecipients[sender] != address(0) ||
+            _yieldSources[sender] != address(0) ||
+            _yieldRecipients[recipient] != address(0) ||
+            _yieldSources[recipient] != address(0)
+        ) revert InvalidYieldRecipient(recipient);
+
+        _yieldRecipients[sender] = recipient;
+        _yieldSources[recipient] = sender;
+        _redirectedPrincipal[sender] = _convertRebaseSharesToTokens(_rebaseShares[sender]);
+        emit YieldRedirected(sender, recipient);
+    }
+
+    /**
+     * @notice Stops redirecting the yield of msg.sender.
+     * @dev The yield accrued so far is moved to the recipient, msg.sender earns its own yield from then on.
+     */
+    function stopYieldRedirection() external whenNotPaused {
+        if (_yieldRecipients[_msgSender()] == address(0)) revert YieldNotRedirected();
+        _stopYieldRedirection(_msgSender());
+    }
+
+    /**
+     * @notice Sets the ERC2771 trusted forwarder.
+     * @dev Restricted to DEFAULT_ADMIN_ROLE.
+     * Calls from the trusted forwarder are attributed to the address appended to the calldata,
+     * including calls to role restricted functions. The zero address disables forwarding.
+     * @param forwarder The new trusted forwarder.
+     */
+    function setTrustedForwarder(address forwarder) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        trustedForwarder = forwarder;
+        emit TrustedForwarderSet(forwarder);
+    }
+
+    /**
+     * @notice Proposes an upgrade, which can be activated with upgradeTo() or upgradeToAndCall()
+     * once the upgrade delay has passed.
+     * @dev Restricted to DEFAULT_ADMIN_ROLE. Replaces any pending proposal and restarts the delay.
+     * @param implementation The proposed implementation.
+     */
+    function proposeUpgrade(address implementation) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (implementation == address(0)) revert ZeroAddress();
+
+        pendingImplementation = implementation;
+        upgradeReadyTime = block.timestamp + upgradeDelay();
+        emit UpgradeProposed(implementation, upgradeReadyTime);
+    }
+
+    /**
+     * @notice Cancels the pending upgrade proposal.
+     * @dev Restricted to UPGRADE_GUARDIAN_ROLE.
+     */
+    function cancelUpgrade() external onlyRole(UPGRADE_GUARDIAN_ROLE) {
+        address implementation = pendingImplementation;
+        if (implementation == address(0)) revert NoPendingUpgrade();
+
+        _clearPendingUpgrade();
+        emit UpgradeCanceled(implementation);
+    }
+
+    /**
+     * @notice Sets the delay between proposing and activating an upgrade.
+     * @dev Restricted to DEFAULT_ADMIN_ROLE. An increase takes effect immediately, while a decrease
+     * takes effect once the current delay has passed, so lowering the delay cannot skip it.
+     * A pending proposal keeps its ready time.
+     * @param delay The new upgrade delay in seconds, between MIN_UPGRADE_DELAY and MAX_UPGRADE_DELAY.
+     */
+    function setUpgradeDelay(uint256 delay) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setUpgradeDelay(delay);
+    }
+
+    /**
+     * @notice Sets the max rate by which the total supply can exceed the posted reserves.
+     * @dev Restricted to REBASE_ADMIN_ROLE.
+     * @param reserveTolerance_ The new reserve tolerance.
+     */
+    function setReserveTolerance(
+        uint256 reserveTolerance_
+    ) external onlyRole(REBASE_ADMIN_ROLE) {
+        reserveTolerance = reserveTolerance_;
+        emit ReserveToleranceSet(reserveTolerance_);
+    }
+
+    /**
+     * @notice Sets the max age of the posted reserves that enforceReserveCoverage() accepts.
+     * @dev Restricted to REBASE_ADMIN_ROLE. While zero, reserves are only enforced when they are posted.
+     * @param reserveAttestationMaxAge_ The new max age, in seconds.
+     */
+    function setReserveAttestationMaxAge(
+        uint256 reserveAttestationMaxAge_
+    ) external onlyRole(REBASE_ADMIN_ROLE) {
+        reserveAttestationMaxAge = reserveAttestationMaxAge_;
+        emit ReserveAttestationMaxAgeSet(reserveAttestationMaxAge_);
+    }
+
+    /**
+     * @notice Sets whether a reserve coverage breach pauses transfers.
+     * @dev Restricted to PAUSE_ROLE.
+     * @param enabled Whether a breach pauses the Transfer operation class.
+     */
+    function setReserveAutoPause(bool enabled) external onlyRole(PAUSE_ROLE) {
+        reserveAutoPause = enabled;
+        emit ReserveAutoPauseSet(enabled);
+    }
+
+    /**
+     * @notice Posts a reserve attestation and checks the total supply against it.
+     * @dev Restricted to RESERVE_REPORTER_ROLE.
+     * @param reserves The attested reserves, in token units.
+     * @return covered Whether the total supply is covered by the reserves, see checkReserveCoverage().
+     */
+    function postReserveAttestation(uint256 reserves) external onlyRole(RESERVE_REPORTER_ROLE) returns (bool covered) {
+        reserveAttestation = reserves;
+        reserveAttestationTime = block.timestamp;
+        emit ReserveAttested(reserves, block.timestamp);
+
+        return enforceReserveCoverage();
+    }
+
+    /**
+     * @notice Checks the total supply against the posted reserves, emitting ReserveCoverageBreached
+     * and pausing transfers when reserveAutoPause is set if it exceeds the reserves by more than the reserve tolerance.
+     * @dev Callable by anyone, e.g. once a pending multiplier takes effect, since multipliers
+     * become active without a transaction. Reverts if the reserves were posted more than
+     * reserveAttestationMaxAge ago, since the supply grows with each rebase while the reserves are not updated.
+     * @return covered Whether the total supply is covered by the reserves, see checkReserveCoverage().
+     */
+    function enforceReserveCoverage() public returns (bool covered) {
+        uint256 attestationTime = reserveAttestationTime;
+        if (attestationTime != 0 && block.timestamp > attestationTime + reserveAttestationMaxAge) {
+            revert StaleReserveAttestation(attestationTime);
+        }
+
+        uint256 supply;
+        uint256 reserves;
+        (covered, supply, reserves) = checkReserveCoverage();
+        if (covered) return true;
+
+        emit ReserveCoverageBreached(supply, reserves);
+        if (reserveAutoPause && !_pausedOperations[PausableOperation.Transfer]) {
+            _pausedOperations[PausableOperation.Transfer] = true;
+            emit OperationPaused(PausableOperation.Transfer);
+        }
+    }
+
+    /**
+     * @notice Checks the total supply, at the active multiplier, against the posted reserves.
+     * Always covered until reserves are first posted. Reserves above the total supply are always covered.
+     * @return covered Whether the total supply exceeds the reserves by at most the reserve tolerance.
+     * @return supply The total supply.
+     * @return reserves The posted reserves.
+     */
+    function checkReserveCoverage() public view returns (bool covered, uint256 supply, uint256 reserves) {
+        supply = totalSupply();
+        reserves = reserveAttestation;
+        if (reserveAttestationTime == 0) return (true, supply, reserves);
+
+        covered = supply <= reserves + (reserves * reserveTolerance) / _BASE;
+    }
+
+    /**
+     * @notice Gets the yield accrued by the specified account.
+     * @dev Computed as the balance minus the net principal, which is updated on every mint, burn, transfer and wipe.
+     * Tokens held before net principal tracking was introduced are counted as yield.
+     * The result is negative if the account lost value, e.g. after a rebase multiplier decrease.
+     * @param account account to get the accrued yield for.
+     * @return An int256 representing the yield accrued by the passed account.
+     */
+    function accruedYieldOf(address account) external view returns (int256) {
+        return int256(balanceOf(account)) - _netPrincipal[account];
+    }
+
+    /**
+     * @dev Returns rebase shares of an account.
+     * @param account account to get the shares for.
+     * @return An uint256 representing shares.
+     */
+    function rebaseSharesOf(address account) external view returns (uint256) {
+        return _rebaseShares[account];
+    }
+
+    /**
+     * @dev Returns fixed shares of an account.
+     * @param account account to get the shares for.
+     * @return An uint256 representing shares.
+     */
+    function fixedSharesOf(address account) external view returns (uint256) {
+        return _fixedShares[account];
+    }
+
+    /**
+     * @dev Function to check whether the address opted out of yield.
+     * @param addr The address to check if opted out.
+     * @return A bool representing whether the given address opted out of yield.
+     */
+    function isYieldOptedOut(address addr) public view returns (bool) {
+        return _yieldOptedOut[addr];
+    }
+
+    /**
+     * @dev Function to check whether the address is marked as yield-ineligible.
+     * @param addr The address to check if yield-ineligible.
+     * @return A bool representing whether the given address is yield-ineligible.
+     */
+    function isAddrYieldIneligible(address addr) public view returns (bool) {
+        return _yieldIneligible[addr];
+    }
+
+    /**
+     * @dev Returns the yield recipient of an account, or the zero address if its yield is not redirected.
+     * @param account The source account.
+     * @return The address that collects the yield of the account.
+     */
+    function yieldRecipientOf(address account) external view returns (address) {
+        return _yieldRecipients[account];
+    }
+
+    /**
+     * @dev Returns the source account whose yield a recipient collects, or the zero address if there is none.
+     * @param recipient The yield recipient.
+     * @return The address whose yield is redirected to the recipient.
+     */
+    function yieldSourceOf(address recipient) external view returns (address) {
+        return _yieldSources[recipient];
+    }
+
+    /**
+     * @dev Function to check whether the address holds rebase shares, i.e. earns yield.
+     * Blocked, yield-ineligible and opted out accounts hold fixed shares instead.
+     * Accounts redirecting their yield hold rebase shares, but the yield accrues to their yield recipient.
+     * @param addr The address to check.
+     * @return A bool representing whether the given address earns yield.
+     */
+    function isRebasingAccount(address addr) external view returns (bool) {
+        return !_holdsFixedShares(addr);
+    }
+
+    /**
+     * @dev Function to check whether the address is currently blocked for receiving.
+     * @param addr The address to check if blocked for receiving.
+     * @return A bool representing whether the given address is blocked for receiving.
+     */
+    function isAddrBlockedForReceiving(address addr) public view returns (bool) {
+        return _blocklistForReceiving[addr];
+    }
+
+    /**
+     * @dev Wipes the balance of a blocked address, and burns the tokens.
+     * Restricted to ASSET_PROTECTION_ROLE.
+     * @param addr The blocked address to wipe.
+     */
+    function wipeBlockedAddress(
+        address addr
+    ) public onlyRole(ASSET_PROTECTION_ROLE) {
+        if (!_blocklist[addr]) revert AccountNotBlocked();
+
+        uint256 fixedShares = _fixedShares[addr];
+        delete _fixedShares[addr];
+        unchecked {
+            totalFixedShares -= fixedShares;
+        }
+        _netPrincipal[addr] -= int256(fixedShares);
+
+        emit BlockedAccountWiped(addr);
+        emit SupplyDecreased(addr, fixedShares);
+        emit Transfer(addr, address(0), fixedShares);
+        emit TransferFixedShares(addr, address(0), fixedShares);
+        _checkpointFixedShares(addr, address(0), fixedShares);
+    }
+}
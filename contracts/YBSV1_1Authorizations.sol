@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {ContextUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable.sol";
+import {YBSV1_1Base} from "./YBSV1_1Base.sol";
+import {EIP2612} from "./lib/EIP2612.sol";
+import {EIP3009} from "./lib/EIP3009.sol";
+
+/**
+ * @title YBS authorizations module
+ * @dev Implements the EIP2612 and EIP3009 authorizations, share transfers and batch transfers of YBSV1_1.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+// solhint-disable-next-line contract-name-camelcase
+contract YBSV1_1Authorizations is YBSV1_1Base, EIP2612, EIP3009 {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address nextModule) YBSV1_1Base(nextModule) {}
+
+    /**
+     * @notice Transfer rebase shares to a specified address from msg.sender
+     * @dev Both accounts must hold rebase shares, see isRebasingAccount().
+     * @param to The address to transfer to.
+     * @param shares The number of rebase shares to be transferred.
+     * @return True when the operation was successful.
+     */
+    function transferShares(
+        address to,
+        uint256 shares
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Transfer) returns (bool) {
+        _transferShares(_msgSender(), to, shares);
+        return true;
+    }
+
+    /**
+     * @notice Transfer rebase shares from one address to another
+     * @dev The allowance is spent in tokens, using the token value of the shares rounded up.
+     * @param from The address which you want to send shares from
+     * @param to The address which you want to transfer to
+     * @param shares The number of rebase shares to be transferred.
+     * @return True when the operation was successful.
+     */
+    function transferSharesFrom(
+        address from,
+        address to,
+        uint256 shares
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Transfer) returns (bool) {
+        if (_blocklist[_msgSender()]) revert BlockedAccountSpender();
+        _spendAllowance(from, _convertRebaseSharesToTokensRoundUp(shares));
+        _transferShares(from, to, shares);
+        return true;
+    }
+
+    /**
+     * @dev Transfer tokens from one set of addresses to another set in a single transaction.
+     * @param from The addresses which you want to send tokens from
+     * @param to The addresses which you want to transfer to
+     * @param value The amounts of tokens to be transferred
+     * @return True if successful
+     */
+    function transferFromBatch(
+        address[] calldata from,
+        address[] calldata to,
+        uint256[] calldata value
+    ) public whenNotPaused whenOperationNotPaused(PausableOperation.Transfer) returns (bool)
+    {
+        if (!(to.length == from.length && value.length == from.length)) revert ArgumentLengthMismatch();
+        if (_blocklist[_msgSender()]) revert BlockedAccountSpender();
+        for (uint256 i = 0; i < from.length;) {
+            _transferFromAllowance(from[i], to[i], value[i]);
+            unchecked { ++i; }
+        }
+        return true;
+    }
+
+    /**
+     * @dev Returns the sender of the call, see YBSV1_1Base._msgSender().
+     */
+    function _msgSender() internal view override(ContextUpgradeable, YBSV1_1Base) returns (address) {
+        return super._msgSender();
+    }
+
+    /**
+     * @dev Returns the calldata of the call, see YBSV1_1Base._msgData().
+     */
+    function _msgData() internal view override(ContextUpgradeable, YBSV1_1Base) returns (bytes calldata) {
+        return super._msgData();
+    }
+}
@@ -0,0 +1,1732 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {AccessControlDefaultAdminRulesUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlDefaultAdminRulesUpgradeable.sol"; // solhint-disable-line max-line-length
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {SafeCastUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/math/SafeCastUpgradeable.sol";
+import {EIP2612Storage} from "./lib/EIP2612Storage.sol";
+import {EIP3009Storage} from "./lib/EIP3009Storage.sol";
+import {EIP712} from "./lib/EIP712.sol";
+
+/**
+ * @title YBS base contract
+ * @dev Holds the storage, roles, events, errors and functions shared by YBSV1_1 and its modules.
+ * The modules run on the storage of the proxy through delegatecall, so they all inherit this storage layout.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+// solhint-disable-next-line contract-name-camelcase
+abstract contract YBSV1_1Base is
+    AccessControlDefaultAdminRulesUpgradeable,
+    UUPSUpgradeable,
+    EIP2612Storage,
+    EIP3009Storage
+{
+    // A multiplier and the time at which it becomes active
+    struct MultiplierCheckpoint {
+        uint256 multiplier;
+        uint256 effectiveTime;
+    }
+
+    // A supply rate limit that refills linearly over its window, disabled while window is zero
+    struct RateLimit {
+        uint128 limit;
+        uint128 remaining;
+        uint64 window;
+        uint64 lastUpdated;
+    }
+
+    // The minting and burning limits of a bridge, see ERC-7281
+    struct BridgeLimits {
+        RateLimit mintLimit;
+        RateLimit burnLimit;
+    }
+
+    // A share balance and the time at which it changed, the balance was held until endTime
+    struct ShareCheckpoint {
+        uint48 endTime;
+        uint208 shares;
+    }
+
+    // The rebase and fixed share checkpoints of an account or of the totals
+    struct ShareHistory {
+        ShareCheckpoint[] rebaseShares;
+        ShareCheckpoint[] fixedShares;
+    }
+
+    // ERC20 Info
+    string public name;
+    string public symbol;
+    uint8 public decimals;
+
+    // REBASING
+    // Total rebase shares
+    uint256 public totalRebaseShares;
+    // Total fixed shares
+    uint256 public totalFixedShares;
+    // Base value for rebaseMultiplier
+    uint256 internal constant _BASE = 1e18;
+    // Max number of multipliers that can be queued after multIncrTime
+    uint256 public constant MAX_SCHEDULED_MULTIPLIERS = 7;
+    // Seconds per year used to annualize rebase rates
+    uint256 internal constant _YEAR = 365 days;
+    // Window over which bridge limits refill
+    uint256 internal constant _BRIDGE_LIMIT_WINDOW = 1 days;
+    // Contract rebase multipliers for rebase shares
+    // multiplier effective before the increase time
+    uint256 public beforeIncrMult;
+    // multiplier effective after the increase time
+    uint256 public afterIncrMult;
+    // The time at which the multiplier changes from beforeIncrMult to afterIncrMult
+    uint256 public multIncrTime;
+    // The rebasing period to increment multIncrTime
+    uint256 public rebasePeriod;
+    // The max rate increase between beforeIncrMult -> afterIncrMult
+    uint256 public maxRebaseRate;
+    // Mapping of rebase shares per account
+    mapping(address => uint256) internal _rebaseShares;
+    // Mapping of fixed shares per account
+    mapping(address => uint256) internal _fixedShares;
+
+    // BLOCKLIST / FREEZE & SEIZE
+    // Mapping of block/freeze status per account
+    mapping(address => bool) internal _blocklist;
+    mapping(address => bool) internal _blocklistForReceiving;
+
+    // ERC20 Allowance
+    mapping(address => mapping(address => uint256)) internal _allowances;
+
+    // REBASING SCHEDULE
+    // Multipliers queued to take effect after multIncrTime, ordered by effective time
+    MultiplierCheckpoint[] internal _multiplierSchedule;
+    // The max rate decrease of the active multiplier
+    uint256 public maxRebaseDecreaseRate;
+    // The time of the last multiplier decrease
+    uint256 public lastRebaseDecreaseTime;
+    // Min time between multiplier decreases, applies even if rebasePeriod is shorter
+    uint256 public constant MIN_REBASE_DECREASE_INTERVAL = 1 days;
+
+    // YIELD OPT-OUT
+    // Mapping of accounts that opted out of yield and hold fixed shares
+    mapping(address => bool) internal _yieldOptedOut;
+
+    // YIELD ELIGIBILITY
+    // Mapping of accounts marked as not qualified to earn yield, which hold fixed shares
+    mapping(address => bool) internal _yieldIneligible;
+
+    // YIELD ACCOUNTING
+    // Mapping of net principal per account, the tokens minted and received minus the tokens burned and sent
+    mapping(address => int256) internal _netPrincipal;
+
+    // YIELD REDIRECTION
+    // Mapping of yield recipient per source account
+    mapping(address => address) internal _yieldRecipients;
+    // Mapping of source account per yield recipient
+    mapping(address => address) internal _yieldSources;
+    // Mapping of principal per source account, the source's balance while its yield is redirected
+    mapping(address => uint256) internal _redirectedPrincipal;
+
+    // SUPPLY RATE LIMITS
+    // The max amount that can be minted per window
+    RateLimit public mintRateLimit;
+    // The max amount that can be burned per window
+    RateLimit public burnRateLimit;
+
+    // REBASING GUARDRAIL
+    // The max rebase rate annualized over the time between multiplier increases, disabled while zero
+    uint256 public maxAnnualRebaseRate;
+
+    // META-TRANSACTIONS
+    // The ERC2771 forwarder trusted to append the original sender to the calldata
+    address public trustedForwarder;
+
+    // EIP712 DOMAIN
+    // The EIP712 domain version, "1" while empty
+    string internal _domainVersion;
+
+    // GRANULAR PAUSE
+    // Mapping of pause status per operation class
+    mapping(PausableOperation => bool) internal _pausedOperations;
+
+    // RESERVE ATTESTATION
+    // The reserves last posted by the reserve reporter
+    uint256 public reserveAttestation;
+    // The time at which the reserves were last posted, zero while never posted
+    uint256 public reserveAttestationTime;
+    // The max rate by which the total supply can exceed the posted reserves
+    uint256 public reserveTolerance;
+    // The max age of the posted reserves for enforceReserveCoverage()
+    uint256 public reserveAttestationMaxAge;
+    // Whether transfers are paused when the total supply exceeds the posted reserves
+    bool public reserveAutoPause;
+
+    // UPGRADE TIMELOCK
+    // The implementation proposed for the next upgrade, zero while none is proposed
+    address public pendingImplementation;
+    // The time from which the proposed implementation can be activated
+    uint256 public upgradeReadyTime;
+    // The delay between proposing and activating an upgrade
+    uint64 internal _upgradeDelay;
+    // A lower delay that replaces _upgradeDelay at _upgradeDelayChangeTime
+    uint64 internal _pendingUpgradeDelay;
+    // The time at which _pendingUpgradeDelay takes effect, zero while no decrease is pending
+    uint64 internal _upgradeDelayChangeTime;
+    // Bounds of the upgrade delay, the lower bound is also the initial delay
+    uint256 public constant MIN_UPGRADE_DELAY = 1 days;
+    uint256 public constant MAX_UPGRADE_DELAY = 30 days;
+
+    // BRIDGES
+    // Mapping of minting and burning limits per bridge
+    mapping(address => BridgeLimits) internal _bridges;
+
+    // PROTOCOL FEE
+    // The share of each multiplier increase minted to the treasury
+    uint256 public feeRate;
+    // The account that collects the protocol fee
+    address public treasury;
+    // Mapping of fee shares to mint to the treasury per multiplier effective time
+    mapping(uint256 => uint256) internal _feeShares;
+
+    // HISTORY
+    // Multipliers ordered by effective time, including the pending ones
+    MultiplierCheckpoint[] internal _multiplierHistory;
+    // Mapping of share checkpoints per account
+    mapping(address => ShareHistory) internal _shareHistory;
+    // Checkpoints of totalRebaseShares and totalFixedShares
+    ShareHistory internal _totalShareHistory;
+    // Mapping of the time from which the shares of an account are checkpointed, zero while not enabled
+    mapping(address => uint256) internal _shareHistoryStart;
+
+    // REDEMPTION
+    // The account holding redeemed tokens, which the supply controller can burn from
+    address public redemptionAddress;
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * Expected storage slots used by this contract, 100 including __gap_YBSV1_1.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[1] private __gap_YBS; // solhint-disable-line var-name-mixedcase
+    /**
+     * @dev Reserved space appended after __gap_YBS, since a gap cannot grow in an upgrade.
+     * __gap_YBS still ends at the slot it ended at in YBSV1, and new variables take space from this gap.
+     */
+    uint256[50] private __gap_YBSV1_1; // solhint-disable-line var-name-mixedcase
+
+    // Access control roles
+    /**
+     * @dev The role that controls the supply of the token.
+     * Derived from keccak256("SUPPLY_CONTROLLER_ROLE")
+     */
+    bytes32 public constant SUPPLY_CONTROLLER_ROLE = 0x9c00d6f280439b1dfa4da90321e0a3f3c2e87280f4d07fea9fa43ff2cf02df2b;
+    /**
+     * @dev The role that allows accounts to pause the contract.
+     * Derived from keccak256("PAUSE_ROLE")
+     */
+    bytes32 public constant PAUSE_ROLE = 0x139c2898040ef16910dc9f44dc697df79363da767d8bc92f2e310312b816e46d;
+    /**
+     * @dev The role that can block accounts and seize assets.
+     * Derived from keccak256("ASSET_PROTECTION_ROLE")
+     */
+    bytes32 public constant ASSET_PROTECTION_ROLE = 0xe3e4f9d7569515307c0cdec302af069a93c9e33f325269bac70e6e22465a9796;
+    /**
+     * @dev The role that can set rebase parameters.
+     * Derived from keccak256("REBASE_ADMIN_ROLE")
+     */
+    bytes32 public constant REBASE_ADMIN_ROLE = 0x1def088e742814a6c13355302c4cd95da961f82267b7106f2e38fbc5414a570e;
+    /**
+     * @dev The role that can increase the rebase multiplier.
+     * Derived from keccak256("REBASE_ROLE")
+     */
+    bytes32 public constant REBASE_ROLE = 0x2cb8fee3430f011f8ea5df36a120dd5a293aa25c9ca88cc51159a94f41f768bb;
+    /**
+     * @dev The role that can decrease the rebase multiplier.
+     * Derived from keccak256("REBASE_DECREASE_ROLE")
+     */
+    bytes32 public constant REBASE_DECREASE_ROLE = 0x6f4c380f084e7ebea8bf3a40b2fdacecd5650d636588b4b6073cef9251141315;
+    /**
+     * @dev The role that can cancel a pending multiplier increase.
+     * Derived from keccak256("REBASE_GUARDIAN_ROLE")
+     */
+    bytes32 public constant REBASE_GUARDIAN_ROLE = 0xac30b2f0a2a489396421d654f17198fd5d307881c0fc66e3a9b776648fbc9f5e;
+    /**
+     * @dev The role that posts reserve attestations.
+     * Derived from keccak256("RESERVE_REPORTER_ROLE")
+     */
+    bytes32 public constant RESERVE_REPORTER_ROLE = 0x7cc54383d024fcb645457928df7460573632441c77af53f97acc683888bd4b81;
+    /**
+     * @dev The role that sets the multipliers relayed from Ethereum.
+     * Derived from keccak256("REBASE_RECEIVER_ROLE")
+     */
+    bytes32 public constant REBASE_RECEIVER_ROLE = 0x6d57291ba36e4a6430cc755841cd5fe7a96f8522a9490d06039e78f26e6fedc6;
+    /**
+     * @dev The role that can cancel a proposed upgrade.
+     * Derived from keccak256("UPGRADE_GUARDIAN_ROLE")
+     */
+    bytes32 public constant UPGRADE_GUARDIAN_ROLE = 0x575b83ba8f51a644ba8b48cf3c34e86c07dc7b4f988d57a8ee1babd62db60b51;
+    /**
+     * @dev The wrapped YBS contract
+     * Derived from keccak256("WRAPPED_YBS_ROLE")
+     */
+    bytes32 public constant WRAPPED_YBS_ROLE = 0x0d6cd32288790d7ef9cfeeb647381d8116dbc309cfa95f50cbb9e1956d87eb44;
+
+    // Events
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+    event EIP712DomainChanged();
+    event AccountBlocked(address indexed account);
+    event AccountUnblocked(address indexed account);
+    event AccountBlockedFromReceivingToken(address indexed account);
+    event AccountUnblockedFromReceivingToken(address indexed account);
+    event BlockedAccountWiped(address indexed account);
+    event YieldOptedOut(address indexed account);
+    event YieldOptedIn(address indexed account);
+    event AccountYieldIneligible(address indexed account);
+    event AccountYieldEligible(address indexed account);
+    event YieldRedirected(address indexed source, address indexed recipient);
+    event YieldRedirectionStopped(address indexed source, address indexed recipient);
+    event RebasePeriodSet(uint256 indexed value);
+    event MaxRebaseRateSet(uint256 indexed value);
+    event MaxRebaseDecreaseRateSet(uint256 indexed value);
+    event MaxAnnualRebaseRateSet(uint256 indexed value);
+    event RebaseMultipliersSet(uint256 indexed beforeIncrMult_, uint256 indexed afterIncrMult_, uint256 indexed multIncrTime_);
+    event RebaseMultiplierScheduled(uint256 indexed previousMult, uint256 indexed multiplier, uint256 indexed effectiveTime);
+    event RebaseMultiplierScheduleCleared();
+    event RebaseMultiplierDecreased(uint256 indexed previousMult, uint256 indexed multiplier, uint256 decreaseRate);
+    event PendingMultiplierCanceled(uint256 indexed multiplier, uint256 indexed canceledMult, uint256 indexed multIncrTime);
+    event TransferShares(address indexed from, address indexed to, uint256 shares);
+    event TransferFixedShares(address indexed from, address indexed to, uint256 shares);
+    event ShareHistoryEnabled(address indexed account);
+    event SupplyIncreased(address indexed to, uint256 value);
+    event SupplyDecreased(address indexed from, uint256 value);
+    event MintRateLimitSet(uint256 limit, uint256 window);
+    event BurnRateLimitSet(uint256 limit, uint256 window);
+    event TrustedForwarderSet(address indexed forwarder);
+    event ReserveAttested(uint256 reserves, uint256 indexed timestamp);
+    event ReserveToleranceSet(uint256 indexed value);
+    event ReserveAttestationMaxAgeSet(uint256 indexed value);
+    event ReserveAutoPauseSet(bool enabled);
+    event ReserveCoverageBreached(uint256 totalSupply, uint256 reserves);
+    event UpgradeProposed(address indexed implementation, uint256 readyTime);
+    event UpgradeCanceled(address indexed implementation);
+    event UpgradeDelaySet(uint256 delay, uint256 effectiveTime);
+    event BridgeLimitsSet(uint256 mintingLimit, uint256 burningLimit, address indexed bridge);
+    event FeeRateSet(uint256 indexed value);
+    event TreasurySet(address indexed treasury);
+    event RedemptionAddressSet(address indexed redemptionAddress);
+    event FeeAccrued(address indexed treasury, uint256 value, uint256 shares, uint256 indexed effectiveTime);
+    event FeeRevoked(address indexed treasury, uint256 shares, uint256 indexed effectiveTime);
+
+    // ERC20 Errors from https://eips.ethereum.org/EIPS/eip-6093
+    error ERC20InsufficientBalance(
+        address sender,
+        uint256 shares,
+        uint256 sharesNeeded
+    );
+    error ERC20InvalidSender(address sender);
+    error ERC20InvalidReceiver(address receiver);
+    error ERC20InsufficientAllowance(
+        address spender,
+        uint256 allowance,
+        uint256 needed
+    );
+    error ERC20InvalidApprover(address approver);
+    error ERC20InvalidSpender(address spender);
+
+    // YBS Errors
+    error InsufficientSupply(
+        address sender,
+        uint256 shares,
+        uint256 sharesNeeded
+    );
+    error InvalidRebaseMultiplier(uint256 multiplier);
+    error RetroactiveRebase();
+    error InvalidRebaseRate(uint256 rate);
+    error InvalidMaxRebaseRate(uint256 value);
+    error InvalidAnnualRebaseRate(uint256 annualRate);
+    error InvalidRebaseDecreaseRate(uint256 rate);
+    error InvalidMaxRebaseDecreaseRate(uint256 value);
+    error InvalidFeeRate(uint256 value);
+    error RebaseDecreaseTooSoon();
+    error NextIncreaseAlreadySet();
+    error NoPendingMultiplier();
+    error MultiplierScheduleFull();
+    error InvalidMultiplierSchedule();
+    error UnexpectedTotalSupply();
+    error ZeroSharesFromValue(uint256 value);
+    error ZeroAddress();
+    error WYBSTransferNotAllowed();
+    error CannotChangeRebaseSharesWithPendingMultiplier();
+    error YieldAlreadyOptedOut();
+    error YieldNotOptedOut();
+    error NonRebasingAccount(address account);
+    error InvalidYieldRecipient(address recipient);
+    error YieldNotRedirected();
+    error InvalidRateLimit(uint256 limit, uint256 window);
+    error MintRateLimitExceeded(uint256 available, uint256 value);
+    error BurnRateLimitExceeded(uint256 available, uint256 value);
+    error BridgeMintLimitExceeded(address bridge, uint256 available, uint256 value);
+    error BridgeBurnLimitExceeded(address bridge, uint256 available, uint256 value);
+    error NoPendingUpgrade();
+    error NoRedemptionAddress();
+    error UpgradeNotProposed(address implementation);
+    error UpgradeNotReady(uint256 readyTime);
+    error InvalidUpgradeDelay(uint256 delay);
+    error FutureLookup(uint256 timestamp);
+    error MultiplierHistoryUnavailable(uint256 timestamp);
+    error ShareHistoryAlreadyEnabled();
+    error ShareHistoryUnavailable(address account, uint256 timestamp);
+    error StaleReserveAttestation(uint256 attestationTime);
+
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address private immutable _NEXT_MODULE;
+
+    modifier whenNoPendingMultiplier() {
+        if (_hasPendingMultiplier()) revert CannotChangeRebaseSharesWithPendingMultiplier();
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address nextModule) {
+        _NEXT_MODULE = nextModule;
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Delegates the calls to functions this contract does not implement to the next module.
+     * The modules form a chain set by their constructors, the last module has no next module and reverts.
+     * @custom:oz-upgrades-unsafe-allow delegatecall
+     */
+    // solhint-disable-next-line payable-fallback, no-complex-fallback
+    fallback() external {
+        address module = _NEXT_MODULE;
+
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            if iszero(module) { revert(0, 0) }
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
+        }
+    }
+
+    /**
+     * @notice Returns the rebase multiplier that was active at a past timestamp
+     * @dev The history starts at initialization, or at the first multiplier change after upgrading to a version
+     * that records it. Reverts for timestamps after the current block or before the history starts.
+     * @param timestamp The timestamp to look up
+     * @return An uint256 representing the multiplier
+     */
+    function multiplierAt(uint256 timestamp) public view returns (uint256) {
+        if (timestamp > block.timestamp) revert FutureLookup(timestamp);
+
+        uint256 low = 0;
+        uint256 high = _multiplierHistory.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (_multiplierHistory[mid].effectiveTime > timestamp) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+
+        if (high == 0) revert MultiplierHistoryUnavailable(timestamp);
+        return _multiplierHistory[high - 1].multiplier;
+    }
+
+    /**
+     * @notice Returns the total supply
+     * @dev Converts rebase and fixed shares to tokens.
+     * @return An uint256 representing the total supply
+     */
+    function totalSupply() public view returns (uint256) {
+        return
+            _convertRebaseSharesToTokens(totalRebaseShares) + totalFixedShares;
+    }
+
+    /**
+     * @notice Gets the balance of the specified account.
+     * @dev Converts an account's rebase and fixed shares to tokens.
+     * The balance of an account redirecting its yield is its principal, and the yield is added to the recipient's balance.
+     * @param account account to get the balance for.
+     * @return An uint256 representing the amount owned by the passed account.
+     */
+    function balanceOf(address account) public view returns (uint256) {
+        return _balanceOf(account, _getActiveMultiplier());
+    }
+
+    /**
+     * @dev Function to check whether the address is currently blocked.
+     * @param addr The address to check if blocked.
+     * @return A bool representing whether the given address is blocked.
+     */
+    function isAddrBlocked(address addr) public view override returns (bool) {
+        return _blocklist[addr];
+    }
+
+    /**
+     * @dev Function to check whether an operation class is paused, independently of paused().
+     * @param operation The operation class to check.
+     * @return A bool representing whether the given operation class is paused.
+     */
+    function isOperationPaused(PausableOperation operation) public view override returns (bool) {
+        return _pausedOperations[operation];
+    }
+
+    /**
+     * @dev Function to get the delay between proposing and activating an upgrade.
+     * @return An uint256 representing the upgrade delay in seconds.
+     */
+    function upgradeDelay() public view returns (uint256) {
+        if (_upgradeDelayChangeTime != 0 && block.timestamp >= _upgradeDelayChangeTime) {
+            return _pendingUpgradeDelay;
+        }
+        return _upgradeDelay;
+    }
+
+    /**
+     * @dev Function to check whether the address is the ERC2771 trusted forwarder.
+     * @param forwarder The address to check.
+     * @return A bool representing whether the given address is the trusted forwarder.
+     */
+    function isTrustedForwarder(address forwarder) public view returns (bool) {
+        return forwarder != address(0) && forwarder == trustedForwarder;
+    }
+
+    /**
+     * Get domain Separator.
+     */
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() public view override returns (bytes32) {
+        return EIP712.makeDomainSeparator(name, _eip712Version());
+    }
+
+    /**
+     * @dev Internal function to mint tokens to an account.
+     * Converts to underlying rebase shares, unless the account holds fixed shares,
+     * and checks if results in overflow for total supply. Callers spend the mint rate limit or the bridge capacity.
+     * Minting is allowed while a multiplier is pending. The rebase shares are converted at the active multiplier,
+     * so the balance increases by value, and take part in the pending increase like transferred tokens.
+     * The supply after the increase is then the expectedTotalSupply it was set with,
+     * plus the minted rebase shares valued at the new multiplier, see totalSupplyAfterPendingRebase().
+     * @param to The address to mint to.
+     * @param value The number of tokens to add.
+     */
+    function _increaseSupply(address to, uint256 value) internal {
+        if (_holdsFixedShares(to)) {
+            totalFixedShares += value;
+            unchecked {
+                _fixedShares[to] += value;
+            }
+            emit TransferFixedShares(address(0), to, value);
+            _checkpointFixedShares(address(0), to, value);
+        } else {
+            uint256 shares = _convertToRebaseShares(value);
+            if (shares == 0) revert ZeroSharesFromValue(value);
+
+            totalRebaseShares += shares;
+            unchecked {
+                _rebaseShares[to] += shares;
+            }
+            emit TransferShares(address(0), to, shares);
+            _checkpointRebaseShares(address(0), to, shares);
+        }
+
+        // overflow check - attempt to convert back to total supply,
+        // This should revert if large amount results in overflow of total supply
+        _convertRebaseSharesToTokens(totalRebaseShares) + totalFixedShares;
+
+        _netPrincipal[to] += int256(value);
+        _updateRedirectedPrincipal(address(0), to, value);
+
+        emit SupplyIncreased(to, value);
+        emit Transfer(address(0), to, value);
+    }
+
+    /**
+     * @dev Internal function to burn tokens from an account.
+     * Converts to underlying rebase shares, unless the account holds fixed shares.
+     * Callers spend the burn rate limit or the bridge capacity.
+     * Burning is allowed while a multiplier is pending and converts at the active multiplier,
+     * so the burned tokens forfeit the pending increase and the supply stays within the expectedTotalSupply.
+     * @param from The address to burn from.
+     * @param value The number of tokens to remove.
+     */
+    function _decreaseSupply(address from, uint256 value) internal {
+        _updateRedirectedPrincipal(from, address(0), value);
+
+        if (_holdsFixedShares(from)) {
+            uint256 hasFixedShares = _fixedShares[from];
+            if (value > hasFixedShares)
+                revert InsufficientSupply(from, hasFixedShares, value);
+
+            unchecked {
+                _fixedShares[from] -= value;
+                totalFixedShares -= value;
+            }
+            emit TransferFixedShares(from, address(0), value);
+            _checkpointFixedShares(from, address(0), value);
+        } else {
+            uint256 shares = _convertToRebaseShares(value);
+            if (shares == 0) revert ZeroSharesFromValue(value);
+
+            uint256 hasShares = _rebaseShares[from];
+            if (shares > hasShares)
+                revert InsufficientSupply(from, hasShares, shares);
+
+            unchecked {
+                // Cannot underflow, shares must be less than or equal to hasShares to get here
+                _rebaseShares[from] -= shares;
+                // Cannot underflow, totalRebaseShares is always greater than or equal to account shares 
+                totalRebaseShares -= shares;
+            }
+            emit TransferShares(from, address(0), shares);
+            _checkpointRebaseShares(from, address(0), shares);
+        }
+
+        _netPrincipal[from] -= int256(value);
+
+        emit SupplyDecreased(from, value);
+        emit Transfer(from, address(0), value);
+    }
+
+    /**
+     * @dev Private helper function that checks the recipient of a mint.
+     * @param to The address to mint to.
+     */
+    function _beforeIncreaseSupplyTo(address to) internal view {
+        if (to == address(0)) revert ERC20InvalidReceiver(to);
+        if (_blocklist[to]) revert BlockedAccountReceiver();
+        if (_blocklistForReceiving[to]) revert BlockedAccountReceiver();
+
+        // To prevent inflation attacks on the wYBS contract, do not allow minting to it.
+        if (hasRole(WRAPPED_YBS_ROLE, to)) revert WYBSTransferNotAllowed();
+    }
+
+    /**
+     * @dev Internal function to transfer tokens
+     * @param from The address to transfer from.
+     * @param to The address to transfer to.
+     * @param amount The amount to be transferred.
+     */
+    function _transfer(address from, address to, uint256 amount) internal override {
+        _beforeTransfer(from, to);
+        _updateRedirectedPrincipal(from, to, amount);
+
+        bool fromFixed = _holdsFixedShares(from);
+        bool toFixed = _holdsFixedShares(to);
+        if (fromFixed || toFixed) {
+            _transferWithFixedShares(from, to, amount, fromFixed, toFixed);
+        } else {
+            uint256 shares = _convertToRebaseShares(amount);
+            if (shares == 0) revert ZeroSharesFromValue(amount);
+
+            uint256 fromShares = _rebaseShares[from];
+            if (shares > fromShares)
+                revert ERC20InsufficientBalance(from, fromShares, shares);
+
+            unchecked {
+                _rebaseShares[from] -= shares;
+                _rebaseShares[to] += shares;
+            }
+            emit TransferShares(from, to, shares);
+            _checkpointRebaseShares(from, to, shares);
+        }
+
+        _netPrincipal[from] -= int256(amount);
+        _netPrincipal[to] += int256(amount);
+
+        emit Transfer(from, to, amount);
+    }
+
+    /**
+     * @dev Internal function to transfer rebase shares between two accounts that hold rebase shares.
+     * @param from The address to transfer from.
+     * @param to The address to transfer to.
+     * @param shares The number of rebase shares to be transferred.
+     */
+    function _transferShares(address from, address to, uint256 shares) internal {
+        _beforeTransfer(from, to);
+        if (_holdsFixedShares(from)) revert NonRebasingAccount(from);
+        if (_holdsFixedShares(to)) revert NonRebasingAccount(to);
+
+        uint256 amount = _convertRebaseSharesToTokens(shares);
+        _updateRedirectedPrincipal(from, to, amount);
+
+        uint256 fromShares = _rebaseShares[from];
+        if (shares > fromShares)
+            revert ERC20InsufficientBalance(from, fromShares, shares);
+
+        unchecked {
+            _rebaseShares[from] -= shares;
+            _rebaseShares[to] += shares;
+        }
+
+        _netPrincipal[from] -= int256(amount);
+        _netPrincipal[to] += int256(amount);
+
+        emit Transfer(from, to, amount);
+        emit TransferShares(from, to, shares);
+        _checkpointRebaseShares(from, to, shares);
+    }
+
+    /**
+     * @dev Private helper function that checks the sender and receiver of a transfer.
+     * @param from The address to transfer from.
+     * @param to The address to transfer to.
+     */
+    function _beforeTransfer(address from, address to) internal view {
+        if (from == address(0)) revert ERC20InvalidSender(from);
+        if (to == address(0)) revert ERC20InvalidReceiver(to);
+        if (_blocklist[from]) revert BlockedAccountSender();
+        if (_blocklist[to]) revert BlockedAccountReceiver();
+        if (_blocklistForReceiving[to]) revert BlockedAccountReceiver();
+
+        // To prevent inflation attacks on the wYBS contract, block direct transfers.
+        if (hasRole(WRAPPED_YBS_ROLE, to) && (!hasRole(WRAPPED_YBS_ROLE, _msgSender()) || hasRole(WRAPPED_YBS_ROLE, from))) revert WYBSTransferNotAllowed();
+    }
+
+    /**
+     * @dev Internal function to set the rebase period.
+     * @param rebasePeriod_ The new rebase period.
+     */
+    function _setRebasePeriod(uint256 rebasePeriod_) internal {
+        rebasePeriod = rebasePeriod_;
+
+        emit RebasePeriodSet(rebasePeriod_);
+    }
+
+    /**
+     * @dev Internal function to set the max rebase rate.
+     * @param maxRebaseRate_ The new max rebase rate.
+     */
+    function _setMaxRebaseRate(uint256 maxRebaseRate_) internal {
+        if (maxRebaseRate_ > _BASE) {
+            revert InvalidMaxRebaseRate(maxRebaseRate_);
+        }
+
+        maxRebaseRate = maxRebaseRate_;
+        emit MaxRebaseRateSet(maxRebaseRate_);
+    }
+
+    /**
+     * @dev Internal function to set the rebase multipliers and increase time.
+     * Note: this function assumes after mult is greater than or equal to before mult.
+     * @param beforeIncrMult_ The new rebase multiplier before increase.
+     * @param afterIncrMult_ The new rebase multiplier after increase.
+     * @param multIncrTime_ The rebase multiplier increase time.
+     * @param expectedTotalSupply The expected total supply after the increase based on afterIncrMult_.
+     */
+    function _setRebaseMultipliers(uint256 beforeIncrMult_,
+                                   uint256 afterIncrMult_,
+                                   uint256 multIncrTime_,
+                                   uint256 expectedTotalSupply) internal {
+        beforeIncrMult = beforeIncrMult_;
+        afterIncrMult = afterIncrMult_;
+        multIncrTime = multIncrTime_;
+
+        // Checked once multIncrTime is set, so the fee to mint at multIncrTime_ is included
+        _checkExpectedTotalSupply(afterIncrMult_, expectedTotalSupply);
+
+        emit RebaseMultipliersSet(beforeIncrMult_, afterIncrMult_, multIncrTime_);
+        _recordMultiplierHistory();
+    }
+
+    /**
+     * @dev Internal function to increase the next multiplier, or queue the increase if one is pending.
+     * @param rebaseRate The increase rate for the next multiplier.
+     * @param expectedTotalSupply The expected total supply after the rebaseRate is applied.
+     */
+    function _increaseRebaseMultiplier(uint256 rebaseRate, uint256 expectedTotalSupply) internal {
+        if (rebaseRate > maxRebaseRate) {
+            revert InvalidRebaseRate(rebaseRate);
+        }
+
+        // Queue behind the pending increase, corrective actions should use setNextMultiplier()
+        if (multIncrTime > block.timestamp) {
+            _scheduleMultiplier(rebaseRate, expectedTotalSupply);
+            return;
+        }
+
+        // The multIncrTime_ can be in the past only if the multiplier does not change, i.e. rebaseRate == 0. 
+        // This is needed for Operations to rely on the safer function increaseRebaseMultiplier(),
+        // in case the multiplier was not updated for longer than 'rebasePeriod' time.
+        uint256 multIncrTime_ = multIncrTime + rebasePeriod;
+        if (multIncrTime_ < block.timestamp && rebaseRate != 0) {
+            revert RetroactiveRebase();
+        }
+        _checkAnnualRebaseRate(rebaseRate, rebasePeriod);
+
+        uint256 afterIncrMult_ = _accrueFee(afterIncrMult, rebaseRate, multIncrTime_);
+
+        _setRebaseMultipliers(afterIncrMult, afterIncrMult_, multIncrTime_, expectedTotalSupply);
+    }
+
+    /**
+     * @dev Internal function to queue a multiplier one rebasePeriod after the last scheduled multiplier.
+     * @param rebaseRate The increase rate applied to the last scheduled multiplier.
+     * @param expectedTotalSupply The expected total supply after the rebaseRate is applied.
+     */
+    function _scheduleMultiplier(uint256 rebaseRate, uint256 expectedTotalSupply) internal {
+        if (_multiplierSchedule.length == MAX_SCHEDULED_MULTIPLIERS) revert MultiplierScheduleFull();
+
+        (uint256 lastMult, uint256 lastTime) = _getLastScheduledMultiplier();
+        uint256 effectiveTime = lastTime + rebasePeriod;
+        // Checkpoints must be strictly ordered by effective time
+        if (effectiveTime == lastTime) revert NextIncreaseAlreadySet();
+        _checkAnnualRebaseRate(rebaseRate, rebasePeriod);
+
+        uint256 multiplier = _accrueFee(lastMult, rebaseRate, effectiveTime);
+        _multiplierSchedule.push(MultiplierCheckpoint(multiplier, effectiveTime));
+        _checkExpectedTotalSupply(multiplier, expectedTotalSupply);
+
+        emit RebaseMultiplierScheduled(lastMult, multiplier, effectiveTime);
+        _recordMultiplierHistory();
+    }
+
+    /**
+     * @dev Internal function that applies the protocol fee to a multiplier increase.
+     * The fee share of the yield is recorded as rebase shares, valued at the returned multiplier,
+     * that are minted to the treasury once the multiplier takes effect, see _mintFee().
+     * Rebase share holders get the remaining share of the yield, and the fee cannot be spent before it is earned.
+     * The fee is skipped while the treasury is unset or holds fixed shares.
+     * @param lastMult The multiplier before the increase.
+     * @param rebaseRate The increase rate before the fee.
+     * @param effectiveTime The time at which the increase takes effect.
+     * @return The multiplier after the increase, net of the fee.
+     */
+    function _accrueFee(uint256 lastMult, uint256 rebaseRate, uint256 effectiveTime) internal returns (uint256) {
+        uint256 grossMult = (lastMult * (_BASE + rebaseRate)) / _BASE;
+        address treasury_ = treasury;
+        if (feeRate == 0 || rebaseRate == 0 || treasury_ == address(0) || _holdsFixedShares(treasury_)) {
+            return grossMult;
+        }
+
+        uint256 multiplier = (lastMult * (_BASE + rebaseRate * (_BASE - feeRate) / _BASE)) / _BASE;
+        // The fees of earlier increases are rebase shares by the time this increase takes effect
+        uint256 value = (totalRebaseShares + _unmintedFeeShares()) * (grossMult - multiplier) / _BASE;
+        uint256 shares = value * _BASE / multiplier;
+        if (shares == 0) return multiplier;
+
+        _feeShares[effectiveTime] = shares;
+
+        emit FeeAccrued(treasury_, value, shares, effectiveTime);
+        return multiplier;
+    }
+
+    /**
+     * @dev Internal function that settles the fees of the multipliers set before they are replaced.
+     * The fees of multipliers that took effect are minted, and the fees of pending multipliers are revoked.
+     */
+    function _settleFees() internal {
+        _settleFee(multIncrTime);
+
+        uint256 length = _multiplierSchedule.length;
+        for (uint256 i = 0; i < length;) {
+            _settleFee(_multiplierSchedule[i].effectiveTime);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @dev Internal function that mints the fee of a multiplier that took effect, or revokes the fee of a pending one.
+     * @param effectiveTime The time at which the multiplier takes effect.
+     */
+    function _settleFee(uint256 effectiveTime) internal {
+        if (effectiveTime <= block.timestamp) {
+            _mintFee(effectiveTime);
+            return;
+        }
+
+        uint256 shares = _feeShares[effectiveTime];
+        if (shares == 0) return;
+        delete _feeShares[effectiveTime];
+
+        emit FeeRevoked(treasury, shares, effectiveTime);
+    }
+
+    /**
+     * @dev Internal function that mints the fee shares of a multiplier that took effect to the treasury.
+     * The fee is revoked instead if the treasury holds fixed shares, since the fee shares are valued as rebase shares.
+     * @param effectiveTime The time at which the multiplier took effect.
+     */
+    function _mintFee(uint256 effectiveTime) internal {
+        uint256 shares = _feeShares[effectiveTime];
+        if (shares == 0) return;
+        delete _feeShares[effectiveTime];
+
+        address treasury_ = treasury;
+        if (treasury_ == address(0) || _holdsFixedShares(treasury_)) {
+            emit FeeRevoked(treasury_, shares, effectiveTime);
+            return;
+        }
+
+        totalRebaseShares += shares;
+        unchecked {
+            _rebaseShares[treasury_] += shares;
+        }
+        emit TransferShares(address(0), treasury_, shares);
+        _checkpointRebaseShares(address(0), treasury_, shares);
+    }
+
+    /**
+     * @dev Internal function that records the multipliers in _multiplierHistory after a multiplier change.
+     * Checkpoints that have yet to take effect are replaced by the pending multipliers,
+     * so only the multipliers that took effect remain in the past.
+     */
+    function _recordMultiplierHistory() internal {
+        uint256 length = _multiplierHistory.length;
+        while (length != 0 && _multiplierHistory[length - 1].effectiveTime > block.timestamp) {
+            _multiplierHistory.pop();
+            unchecked { --length; }
+        }
+
+        uint256 activeMult = _getActiveMultiplier();
+        if (length != 0 && _multiplierHistory[length - 1].effectiveTime == block.timestamp) {
+            _multiplierHistory[length - 1].multiplier = activeMult;
+        } else if (length == 0 || _multiplierHistory[length - 1].multiplier != activeMult) {
+            _multiplierHistory.push(MultiplierCheckpoint(activeMult, block.timestamp));
+        }
+
+        if (multIncrTime > block.timestamp) {
+            _pushMultiplierHistory(afterIncrMult, multIncrTime);
+        }
+        uint256 scheduled = _multiplierSchedule.length;
+        for (uint256 i = 0; i < scheduled;) {
+            MultiplierCheckpoint memory checkpoint = _multiplierSchedule[i];
+            if (checkpoint.effectiveTime > block.timestamp) {
+                _pushMultiplierHistory(checkpoint.multiplier, checkpoint.effectiveTime);
+            }
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @dev Internal function that appends a pending multiplier to _multiplierHistory, unless it does not change.
+     * @param multiplier The multiplier.
+     * @param effectiveTime The time at which the multiplier becomes active.
+     */
+    function _pushMultiplierHistory(uint256 multiplier, uint256 effectiveTime) internal {
+        if (_multiplierHistory[_multiplierHistory.length - 1].multiplier == multiplier) return;
+        _multiplierHistory.push(MultiplierCheckpoint(multiplier, effectiveTime));
+    }
+
+    /**
+     * @dev Internal function that starts checkpointing the shares of an account.
+     * @param account The account to enable the share history for.
+     */
+    function _enableShareHistory(address account) internal {
+        _shareHistoryStart[account] = block.timestamp;
+        emit ShareHistoryEnabled(account);
+    }
+
+    /**
+     * @dev Internal function that checkpoints the rebase shares held before a TransferShares event.
+     * Only the accounts that enabled their share history are checkpointed, the totals always are.
+     * @param from The account the shares were moved from, address(0) when minted.
+     * @param to The account the shares were moved to, address(0) when burned.
+     * @param shares The rebase shares moved.
+     */
+    function _checkpointRebaseShares(address from, address to, uint256 shares) internal {
+        if (from == to) return;
+
+        if (from == address(0)) {
+            _checkpointShares(_totalShareHistory.rebaseShares, totalRebaseShares - shares);
+        } else if (_shareHistoryStart[from] != 0) {
+            _checkpointShares(_shareHistory[from].rebaseShares, _rebaseShares[from] + shares);
+        }
+
+        if (to == address(0)) {
+            _checkpointShares(_totalShareHistory.rebaseShares, totalRebaseShares + shares);
+        } else if (_shareHistoryStart[to] != 0) {
+            _checkpointShares(_shareHistory[to].rebaseShares, _rebaseShares[to] - shares);
+        }
+    }
+
+    /**
+     * @dev Internal function that checkpoints the fixed shares held before a TransferFixedShares event.
+     * Only the accounts that enabled their share history are checkpointed, the totals always are.
+     * @param from The account the shares were moved from, address(0) when minted.
+     * @param to The account the shares were moved to, address(0) when burned.
+     * @param shares The fixed shares moved.
+     */
+    function _checkpointFixedShares(address from, address to, uint256 shares) internal {
+        if (from == to) return;
+
+        if (from == address(0)) {
+            _checkpointShares(_totalShareHistory.fixedShares, totalFixedShares - shares);
+        } else if (_shareHistoryStart[from] != 0) {
+            _checkpointShares(_shareHistory[from].fixedShares, _fixedShares[from] + shares);
+        }
+
+        if (to == address(0)) {
+            _checkpointShares(_totalShareHistory.fixedShares, totalFixedShares + shares);
+        } else if (_shareHistoryStart[to] != 0) {
+            _checkpointShares(_shareHistory[to].fixedShares, _fixedShares[to] - shares);
+        }
+    }
+
+    /**
+     * @dev Internal function that records the shares held until the current block, once per timestamp.
+     * Must be called after the shares change, with the shares held before the first change of the timestamp.
+     * @param history The share checkpoints to append to.
+     * @param shares The shares held before the change.
+     */
+    function _checkpointShares(ShareCheckpoint[] storage history, uint256 shares) internal {
+        uint256 length = history.length;
+        if (length != 0 && history[length - 1].endTime == block.timestamp) return;
+
+        history.push(ShareCheckpoint(
+            SafeCastUpgradeable.toUint48(block.timestamp),
+            SafeCastUpgradeable.toUint208(shares)
+        ));
+    }
+
+    /**
+     * @dev Internal function that cancels the pending multiplier increase and the multipliers queued behind it,
+     * and revokes their fees.
+     */
+    function _cancelPendingMultiplier() internal {
+        (uint256 canceledMult, ) = _getLastScheduledMultiplier();
+        _settleFees();
+        _clearMultiplierSchedule();
+
+        afterIncrMult = beforeIncrMult;
+
+        emit PendingMultiplierCanceled(beforeIncrMult, canceledMult, multIncrTime);
+    }
+
+    /**
+     * @dev Internal function that removes all queued multipliers.
+     */
+    function _clearMultiplierSchedule() internal {
+        if (_multiplierSchedule.length == 0) return;
+
+        delete _multiplierSchedule;
+        emit RebaseMultiplierScheduleCleared();
+    }
+
+    /**
+     * @dev Internal function that rolls the multiplier schedule forward while multIncrTime has passed,
+     * so beforeIncrMult, afterIncrMult and multIncrTime reflect the next pending checkpoint.
+     * The fees of the multipliers that took effect are minted to the treasury.
+     */
+    function _syncMultiplierSchedule() internal {
+        uint256 length = _multiplierSchedule.length;
+        uint256 elapsed = 0;
+        while (elapsed < length && multIncrTime <= block.timestamp) {
+            _mintFee(multIncrTime);
+
+            MultiplierCheckpoint memory checkpoint = _multiplierSchedule[elapsed];
+            beforeIncrMult = afterIncrMult;
+            afterIncrMult = checkpoint.multiplier;
+            multIncrTime = checkpoint.effectiveTime;
+            unchecked { ++elapsed; }
+        }
+        if (multIncrTime <= block.timestamp) _mintFee(multIncrTime);
+
+        if (elapsed == 0) return;
+
+        for (uint256 i = elapsed; i < length;) {
+            _multiplierSchedule[i - elapsed] = _multiplierSchedule[i];
+            unchecked { ++i; }
+        }
+        for (uint256 i = 0; i < elapsed;) {
+            _multiplierSchedule.pop();
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @dev required by the OZ UUPS module to authorize an upgrade 
+     * of the contract. Restricted to DEFAULT_ADMIN_ROLE, and to the proposed
+     * implementation once the upgrade delay has passed.
+     */
+    function _authorizeUpgrade(
+        address newImplementation
+    ) internal override onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newImplementation == address(0) || newImplementation != pendingImplementation) {
+            revert UpgradeNotProposed(newImplementation);
+        }
+        if (block.timestamp < upgradeReadyTime) revert UpgradeNotReady(upgradeReadyTime);
+
+        _clearPendingUpgrade();
+    }
+
+    /**
+     * @dev Sets the upgrade delay, see setUpgradeDelay().
+     * @param delay The new upgrade delay in seconds.
+     */
+    function _setUpgradeDelay(uint256 delay) internal {
+        if (delay < MIN_UPGRADE_DELAY || delay > MAX_UPGRADE_DELAY) revert InvalidUpgradeDelay(delay);
+
+        uint256 currentDelay = upgradeDelay();
+        uint256 effectiveTime = block.timestamp;
+
+        if (delay < currentDelay) {
+            effectiveTime += currentDelay;
+            // Cannot overflow, both delays are bounded by MAX_UPGRADE_DELAY
+            _upgradeDelay = uint64(currentDelay);
+            _pendingUpgradeDelay = uint64(delay);
+            _upgradeDelayChangeTime = uint64(effectiveTime);
+        } else {
+            _upgradeDelay = uint64(delay);
+            delete _pendingUpgradeDelay;
+            delete _upgradeDelayChangeTime;
+        }
+
+        emit UpgradeDelaySet(delay, effectiveTime);
+    }
+
+    /**
+     * @dev Clears the pending upgrade proposal.
+     */
+    function _clearPendingUpgrade() internal {
+        delete pendingImplementation;
+        delete upgradeReadyTime;
+    }
+
+    /**
+     * @dev Returns the original sender of calls relayed by the trusted forwarder, as specified by ERC2771.
+     */
+    function _msgSender() internal view virtual override returns (address) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            return address(bytes20(msg.data[msg.data.length - 20:]));
+        }
+        return msg.sender;
+    }
+
+    /**
+     * @dev Returns the calldata of calls relayed by the trusted forwarder without the appended sender.
+     */
+    function _msgData() internal view virtual override returns (bytes calldata) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            return msg.data[:msg.data.length - 20];
+        }
+        return msg.data;
+    }
+
+    /**
+     * @dev Returns the EIP712 domain version, which defaults to "1" until it is set.
+     */
+    function _eip712Version() internal view returns (string memory) {
+        return bytes(_domainVersion).length == 0 ? "1" : _domainVersion;
+    }
+
+    /**
+     * @dev Private helper function used by approve and increase/decreaseApproval
+     * @param spender The address which will spend the funds.
+     */
+    function _beforeApprove(address spender) internal view {
+        address sender = _msgSender();
+        if (sender == address(0)) revert ERC20InvalidApprover(sender);
+        if (spender == address(0)) revert ERC20InvalidSpender(spender);
+        if (_blocklist[spender]) revert BlockedAccountSpender();
+        if (_blocklist[sender]) revert BlockedAccountSender();
+    }
+
+    /**
+     * @dev Internal function to transfer tokens when the sender or the receiver holds fixed shares.
+     * Rebase shares debited from the sender are rounded up and rebase shares credited to the receiver
+     * are rounded down, so rounding never increases the total supply.
+     * Rebase shares credited while a multiplier is pending are converted at the active multiplier,
+     * so the receiver gets the amount sent and takes part in the pending increase like any other receiver.
+     * @param from The address to transfer from.
+     * @param to The address to transfer to.
+     * @param amount The amount to be transferred.
+     * @param fromFixed Whether the sender holds fixed shares.
+     * @param toFixed Whether the receiver holds fixed shares.
+     */
+    function _transferWithFixedShares(
+        address from,
+        address to,
+        uint256 amount,
+        bool fromFixed,
+        bool toFixed
+    ) internal {
+        if (fromFixed) {
+            uint256 fromFixedShares = _fixedShares[from];
+            if (amount > fromFixedShares)
+                revert ERC20InsufficientBalance(from, fromFixedShares, amount);
+
+            unchecked {
+                _fixedShares[from] -= amount;
+                totalFixedShares -= amount;
+            }
+            // A transfer between fixed shares holders is emitted once, when crediting the receiver
+            if (!toFixed) {
+                emit TransferFixedShares(from, address(0), amount);
+                _checkpointFixedShares(from, address(0), amount);
+            }
+        } else {
+            uint256 shares = _convertToRebaseSharesRoundUp(amount);
+            if (shares == 0) revert ZeroSharesFromValue(amount);
+
+            uint256 fromShares = _rebaseShares[from];
+            if (shares > fromShares)
+                revert ERC20InsufficientBalance(from, fromShares, shares);
+
+            unchecked {
+                _rebaseShares[from] -= shares;
+                totalRebaseShares -= shares;
+            }
+            emit TransferShares(from, address(0), shares);
+            _checkpointRebaseShares(from, address(0), shares);
+        }
+
+        if (toFixed) {
+            unchecked {
+                // Cannot overflow, amount was debited from the sender
+                _fixedShares[to] += amount;
+                totalFixedShares += amount;
+            }
+            emit TransferFixedShares(fromFixed ? from : address(0), to, amount);
+            _checkpointFixedShares(fromFixed ? from : address(0), to, amount);
+        } else {
+            uint256 shares = _convertToRebaseShares(amount);
+            if (shares == 0) revert ZeroSharesFromValue(amount);
+
+            unchecked {
+                // Cannot overflow, shares are at most the amount debited from the sender
+                _rebaseShares[to] += shares;
+                totalRebaseShares += shares;
+            }
+            emit TransferShares(address(0), to, shares);
+            _checkpointRebaseShares(address(0), to, shares);
+        }
+    }
+
+    /**
+     * @dev Internal function to set a rate limit.
+     * The current capacity is kept, increased by the increase of the limit and capped by the new limit.
+     * A newly enabled limit starts at full capacity.
+     * @param rateLimit The rate limit to set.
+     * @param limit The max amount per window.
+     * @param window The window in seconds, zero removes the limit.
+     */
+    function _setRateLimit(RateLimit storage rateLimit, uint256 limit, uint256 window) internal {
+        if (limit > type(uint128).max || window > type(uint64).max || (window == 0 && limit != 0)) {
+            revert InvalidRateLimit(limit, window);
+        }
+
+        if (window == 0) {
+            delete rateLimit.limit;
+            delete rateLimit.remaining;
+            delete rateLimit.window;
+            delete rateLimit.lastUpdated;
+            return;
+        }
+
+        uint256 capacity = limit;
+        if (rateLimit.window != 0) {
+            capacity = _currentCapacity(rateLimit);
+            if (limit > rateLimit.limit) capacity += limit - rateLimit.limit;
+            if (capacity > limit) capacity = limit;
+        }
+
+        rateLimit.limit = uint128(limit);
+        rateLimit.window = uint64(window);
+        rateLimit.remaining = uint128(capacity);
+        rateLimit.lastUpdated = uint64(block.timestamp);
+    }
+
+    /**
+     * @dev Internal function that spends the mint rate limit of the supply controller.
+     * @param value The number of tokens minted.
+     */
+    function _spendMintRateLimit(uint256 value) internal {
+        uint256 capacity = _currentCapacity(mintRateLimit);
+        if (value > capacity) revert MintRateLimitExceeded(capacity, value);
+        _spendCapacity(mintRateLimit, capacity, value);
+    }
+
+    /**
+     * @dev Internal function that spends the burn rate limit of the supply controller.
+     * @param value The number of tokens burned.
+     */
+    function _spendBurnRateLimit(uint256 value) internal {
+        uint256 capacity = _currentCapacity(burnRateLimit);
+        if (value > capacity) revert BurnRateLimitExceeded(capacity, value);
+        _spendCapacity(burnRateLimit, capacity, value);
+    }
+
+    /**
+     * @dev Internal function that records spending from a rate limit's current capacity.
+     * @param rateLimit The rate limit to spend from.
+     * @param capacity The current capacity, see _currentCapacity().
+     * @param value The amount spent, at most the capacity.
+     */
+    function _spendCapacity(RateLimit storage rateLimit, uint256 capacity, uint256 value) internal {
+        if (rateLimit.window == 0) return;
+
+        rateLimit.remaining = uint128(capacity - value);
+        rateLimit.lastUpdated = uint64(block.timestamp);
+    }
+
+    /**
+     * @dev Internal function to update the principal of yield sources before tokens are moved.
+     * A yield recipient first collects the accrued yield, so it can be sent or burned.
+     * @param from The address tokens are debited from, or the zero address for a mint.
+     * @param to The address tokens are credited to, or the zero address for a burn.
+     * @param amount The amount of tokens moved.
+     */
+    function _updateRedirectedPrincipal(address from, address to, uint256 amount) internal {
+        if (_yieldSources[from] != address(0)) {
+            _realizeRedirectedYield(_yieldSources[from]);
+        }
+
+        if (_yieldRecipients[from] != address(0)) {
+            uint256 principal = _redirectedPrincipalOf(from, _getActiveMultiplier());
+            if (amount > principal)
+                revert ERC20InsufficientBalance(from, principal, amount);
+
+            unchecked {
+                _redirectedPrincipal[from] = principal - amount;
+            }
+        }
+
+        if (_yieldRecipients[to] != address(0)) {
+            _redirectedPrincipal[to] += amount;
+        }
+    }
+
+    /**
+     * @dev Internal function that moves the yield accrued on the principal of a source to its yield recipient.
+     * The source keeps the rebase shares backing its principal, rounded up.
+     * @param source The account whose yield is redirected.
+     */
+    function _realizeRedirectedYield(address source) internal {
+        address recipient = _yieldRecipients[source];
+        uint256 sourceShares = _rebaseShares[source];
+        uint256 principalShares = _convertToRebaseSharesRoundUp(_redirectedPrincipal[source]);
+        if (sourceShares <= principalShares) return;
+
+        uint256 shares;
+        unchecked {
+            shares = sourceShares - principalShares;
+            _rebaseShares[source] = principalShares;
+            _rebaseShares[recipient] += shares;
+        }
+        emit TransferShares(source, recipient, shares);
+        _checkpointRebaseShares(source, recipient, shares);
+    }
+
+    /**
+     * @dev Internal function that ends the yield redirection an account takes part in, as a source or a recipient.
+     * The accrued yield is moved to the recipient first.
+     * @param account The source or recipient of a yield redirection.
+     */
+    function _stopYieldRedirection(address account) internal {
+        address source = _yieldSources[account] != address(0) ? _yieldSources[account] : account;
+        address recipient = _yieldRecipients[source];
+        if (recipient == address(0)) return;
+
+        _realizeRedirectedYield(source);
+
+        delete _yieldRecipients[source];
+        delete _yieldSources[recipient];
+        delete _redirectedPrincipal[source];
+        emit YieldRedirectionStopped(source, recipient);
+    }
+
+    /**
+     * @dev Internal function to add an account to the _blocklist.
+     * Any yield redirection of the token holder is stopped and its rebase shares are converted to fixed shares.
+     * @param account The account to block.
+     */
+    function _blockAccount(address account) internal {
+        _stopYieldRedirection(account);
+        _convertRebaseSharesToFixedShares(account);
+
+        _blocklist[account] = true;
+        emit AccountBlocked(account);
+    }
+
+    /**
+     * @dev Internal function to remove an account from the _blocklist.
+     * The token holder's fixed shares are converted back to rebase shares,
+     * unless it opted out of yield or is yield-ineligible.
+     * @param account The account to unblock.
+     */
+    function _unblockAccount(address account) internal {
+        delete _blocklist[account];
+
+        if (!_holdsFixedShares(account)) {
+            _convertFixedSharesToRebaseShares(account);
+        }
+        emit AccountUnblocked(account);
+    }
+
+    /**
+     * @dev Internal function that converts rebase shares to fixed shares.
+     * @param account The account whose shares will be converted
+     */
+    function _convertRebaseSharesToFixedShares(address account) internal {
+        if (_rebaseShares[account] == 0) return;
+
+        uint256 shares = _rebaseShares[account];
+        uint256 amount = _convertRebaseSharesToTokens(shares);
+
+        delete _rebaseShares[account];
+        unchecked{
+            totalRebaseShares -= shares;
+        }
+
+        _fixedShares[account] += amount;
+        totalFixedShares += amount;
+
+        emit TransferShares(account, address(0), shares);
+        _checkpointRebaseShares(account, address(0), shares);
+        emit TransferFixedShares(address(0), account, amount);
+        _checkpointFixedShares(address(0), account, amount);
+    }
+
+    /**
+     * @dev Internal function that converts fixed shares to rebase shares.
+     * The value lost to rounding is removed from the net principal, so the conversion does not count as yield.
+     * @param account The account whose shares will be converted
+     */
+    function _convertFixedSharesToRebaseShares(address account) internal {
+        if (_fixedShares[account] == 0) return;
+
+        uint256 amount = _fixedShares[account];
+        uint256 shares = _convertToRebaseShares(amount);
+        if (shares == 0) revert ZeroSharesFromValue(amount);
+
+        delete _fixedShares[account];
+        unchecked {
+            totalFixedShares -= amount;
+        }
+
+        _rebaseShares[account] += shares;
+        totalRebaseShares += shares;
+
+        _netPrincipal[account] -= int256(amount - _convertRebaseSharesToTokens(shares));
+
+        emit TransferFixedShares(account, address(0), amount);
+        _checkpointFixedShares(account, address(0), amount);
+        emit TransferShares(address(0), account, shares);
+        _checkpointRebaseShares(address(0), account, shares);
+    }
+
+    /**
+     * @dev Internal function that returns the active rebase multiplier
+     * @return An uint256 representing the multiplier
+     */
+    function _getActiveMultiplier() internal view returns (uint256) {
+        return _getScheduledMultiplier(block.timestamp);
+    }
+
+    /**
+     * @dev Internal function that returns the multiplier active at a timestamp according to the multipliers set,
+     * which is only accurate for the current and future timestamps.
+     * Walks the multiplier schedule once multIncrTime has passed.
+     * @param timestamp The timestamp of the multiplier.
+     * @return An uint256 representing the multiplier
+     */
+    function _getScheduledMultiplier(uint256 timestamp) internal view returns (uint256) {
+        if (timestamp < multIncrTime) {
+            return beforeIncrMult;
+        }
+
+        uint256 activeMult = afterIncrMult;
+        uint256 length = _multiplierSchedule.length;
+        for (uint256 i = 0; i < length;) {
+            MultiplierCheckpoint memory checkpoint = _multiplierSchedule[i];
+            if (timestamp < checkpoint.effectiveTime) break;
+            activeMult = checkpoint.multiplier;
+            unchecked { ++i; }
+        }
+
+        return activeMult;
+    }
+
+    /**
+     * @dev Internal function that returns the multiplier at a timestamp,
+     * from the multiplier history for a past timestamp and from the multipliers set otherwise.
+     * @param timestamp The timestamp of the multiplier.
+     * @return An uint256 representing the multiplier
+     */
+    function _multiplierAt(uint256 timestamp) internal view returns (uint256) {
+        if (timestamp < block.timestamp) return multiplierAt(timestamp);
+        return _getScheduledMultiplier(timestamp);
+    }
+
+    /**
+     * @dev Internal function that returns the balance of an account valued at a multiplier.
+     * @param account The account to get the balance for.
+     * @param multiplier The multiplier used to value rebase shares.
+     * @return An uint256 representing the balance.
+     */
+    function _balanceOf(address account, uint256 multiplier) internal view returns (uint256) {
+        if (_yieldRecipients[account] != address(0)) {
+            return _redirectedPrincipalOf(account, multiplier);
+        }
+
+        uint256 balance = (_rebaseShares[account] * multiplier) / _BASE + _fixedShares[account];
+        address source = _yieldSources[account];
+        if (source != address(0)) {
+            balance += (_rebaseShares[source] * multiplier) / _BASE - _redirectedPrincipalOf(source, multiplier);
+        }
+        return balance;
+    }
+
+    /**
+     * @dev Internal function that returns the shares held at the end of a past timestamp.
+     * @param history The share checkpoints, ordered by endTime.
+     * @param currentShares The shares currently held.
+     * @param timestamp The timestamp to look up.
+     * @return The shares of the first checkpoint that ends after the timestamp, or currentShares if none.
+     */
+    function _sharesAt(
+        ShareCheckpoint[] storage history,
+        uint256 currentShares,
+        uint256 timestamp
+    ) internal view returns (uint256) {
+        uint256 low = 0;
+        uint256 high = history.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (history[mid].endTime > timestamp) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+
+        return high == history.length ? currentShares : history[high].shares;
+    }
+
+    /**
+     * @dev Internal function that returns the last scheduled multiplier and its effective time
+     * @return The multiplier and effective time of the last checkpoint, or afterIncrMult and multIncrTime
+     */
+    function _getLastScheduledMultiplier() internal view returns (uint256, uint256) {
+        uint256 length = _multiplierSchedule.length;
+        if (length == 0) {
+            return (afterIncrMult, multIncrTime);
+        }
+
+        MultiplierCheckpoint memory checkpoint = _multiplierSchedule[length - 1];
+        return (checkpoint.multiplier, checkpoint.effectiveTime);
+    }
+
+    /**
+     * @dev Internal function that returns the fee shares recorded for the multipliers set, yet to be minted.
+     * @return An uint256 representing the fee shares.
+     */
+    function _unmintedFeeShares() internal view returns (uint256) {
+        uint256 shares = _feeShares[multIncrTime];
+        uint256 length = _multiplierSchedule.length;
+        for (uint256 i = 0; i < length;) {
+            shares += _feeShares[_multiplierSchedule[i].effectiveTime];
+            unchecked { ++i; }
+        }
+        return shares;
+    }
+
+    /**
+     * @dev Internal function to check whether a multiplier change has yet to take effect.
+     * @return A bool representing whether there is a pending multiplier.
+     */
+    function _hasPendingMultiplier() internal view returns (bool) {
+        (uint256 lastMult, ) = _getLastScheduledMultiplier();
+        return _getActiveMultiplier() != lastMult;
+    }
+
+    /**
+     * @dev Internal function that reverts if a rebase rate annualized linearly over the elapsed time
+     * exceeds maxAnnualRebaseRate.
+     * @param rebaseRate The rebase rate of the multiplier increase.
+     * @param elapsed The time since the previous multiplier increase.
+     */
+    function _checkAnnualRebaseRate(uint256 rebaseRate, uint256 elapsed) internal view {
+        if (maxAnnualRebaseRate == 0 || rebaseRate == 0) return;
+        if (elapsed == 0) revert InvalidAnnualRebaseRate(type(uint256).max);
+
+        uint256 annualRate = rebaseRate * _YEAR / elapsed;
+        if (annualRate > maxAnnualRebaseRate) {
+            revert InvalidAnnualRebaseRate(annualRate);
+        }
+    }
+
+    /**
+     * @dev Internal function that reverts if a multiplier relayed from Ethereum is lower than the previous one,
+     * or exceeds it by more than maxRebaseRate.
+     * @param previous The previous multiplier.
+     * @param multiplier The multiplier that follows it.
+     */
+    function _checkReceivedIncrease(uint256 previous, uint256 multiplier) internal view {
+        if (multiplier < previous) revert InvalidMultiplierSchedule();
+
+        uint256 rebaseRate = (multiplier - previous) * _BASE / previous;
+        if (rebaseRate > maxRebaseRate) revert InvalidRebaseRate(rebaseRate);
+    }
+
+    /**
+     * @dev Internal function that reverts if the total supply based on a multiplier exceeds the expected total supply.
+     * The total supply includes the fee shares yet to be minted to the treasury,
+     * and the rebase shares minted while a multiplier is pending, valued at multiplier.
+     * @param multiplier The multiplier to compute the total supply with.
+     * @param expectedTotalSupply The expected total supply.
+     */
+    function _checkExpectedTotalSupply(uint256 multiplier, uint256 expectedTotalSupply) internal view {
+        uint256 rebaseShares = totalRebaseShares + _unmintedFeeShares();
+        if ((rebaseShares * multiplier / _BASE ) + totalFixedShares > expectedTotalSupply) {
+            revert UnexpectedTotalSupply();
+        }
+    }
+
+    /**
+     * @dev Internal function that converts rebase shares to tokens.
+     * @param shares The shares to be converted.
+     * @return An uint256 representing tokens.
+     */
+    function _convertRebaseSharesToTokens(
+        uint256 shares
+    ) internal view returns (uint256) {
+        return (shares * _getActiveMultiplier()) / _BASE;
+    }
+
+    /**
+     * @dev Internal function that converts rebase shares to tokens, rounding up.
+     * @param shares The shares to be converted.
+     * @return An uint256 representing tokens.
+     */
+    function _convertRebaseSharesToTokensRoundUp(
+        uint256 shares
+    ) internal view returns (uint256) {
+        return (shares * _getActiveMultiplier() + _BASE - 1) / _BASE;
+    }
+
+    /**
+     * @dev Internal function that converts tokens to rebase shares.
+     * @param amount The amount to be converted.
+     * @return An uint256 representing shares.
+     */
+    function _convertToRebaseShares(
+        uint256 amount
+    ) internal view returns (uint256) {
+        return (amount * _BASE) / _getActiveMultiplier();
+    }
+
+    /**
+     * @dev Internal function that converts tokens to rebase shares, rounding up.
+     * @param amount The amount to be converted.
+     * @return An uint256 representing shares.
+     */
+    function _convertToRebaseSharesRoundUp(
+        uint256 amount
+    ) internal view returns (uint256) {
+        uint256 activeMult = _getActiveMultiplier();
+        return (amount * _BASE + activeMult - 1) / activeMult;
+    }
+
+    /**
+     * @dev Internal function that returns the current capacity of a rate limit,
+     * refilled linearly since it was last updated.
+     * @param rateLimit The rate limit.
+     * @return An uint256 representing the capacity, the max uint256 if the rate limit is disabled.
+     */
+    function _currentCapacity(RateLimit storage rateLimit) internal view returns (uint256) {
+        if (rateLimit.window == 0) return type(uint256).max;
+
+        uint256 refill = (block.timestamp - rateLimit.lastUpdated) * rateLimit.limit / rateLimit.window;
+        uint256 capacity = rateLimit.remaining + refill;
+        return capacity < rateLimit.limit ? capacity : rateLimit.limit;
+    }
+
+    /**
+     * @dev Internal function that returns the current capacity of a bridge limit.
+     * Unlike the supply rate limits, a bridge without a limit has no capacity.
+     * @param rateLimit The bridge limit.
+     * @return An uint256 representing the capacity.
+     */
+    function _bridgeCapacity(RateLimit storage rateLimit) internal view returns (uint256) {
+        if (rateLimit.window == 0) return 0;
+        return _currentCapacity(rateLimit);
+    }
+
+    /**
+     * @dev Internal function that returns the principal of a source account, capped by the value of its rebase shares
+     * in case a multiplier decrease left the principal partly unbacked.
+     * @param source The account whose yield is redirected.
+     * @param multiplier The multiplier used to value the rebase shares.
+     * @return An uint256 representing the principal in tokens.
+     */
+    function _redirectedPrincipalOf(address source, uint256 multiplier) internal view returns (uint256) {
+        uint256 value = (_rebaseShares[source] * multiplier) / _BASE;
+        uint256 principal = _redirectedPrincipal[source];
+        return principal < value ? principal : value;
+    }
+
+    /**
+     * @dev Internal function to check whether an account holds fixed shares instead of rebase shares.
+     * @param account The account to check.
+     * @return A bool representing whether the account holds fixed shares.
+     */
+    function _holdsFixedShares(address account) internal view returns (bool) {
+        return _blocklist[account] || _yieldOptedOut[account] || _yieldIneligible[account];
+    }
+
+    /**
+     * @dev Set allowance for a given spender, of a given owner.
+     * @param owner The address which owns the funds.
+     * @param spender The address which will spend the funds.
+     * @param value The amount of tokens to be approved.
+     */
+    function _approve(
+        address owner,
+        address spender,
+        uint256 value
+    ) internal override {
+        _beforeApprove(spender);
+        _allowances[owner][spender] = value;
+        emit Approval(owner, spender, value);
+    }
+
+    /**
+     * @dev Internal function to transfer balances from => to.
+     * Internal to the contract - see transferFrom and transferFromBatch.
+     * @param from The address which you want to send tokens from
+     * @param to The address which you want to transfer to
+     * @param value the amount of tokens to be transferred
+     */
+    function _transferFromAllowance(
+        address from,
+        address to,
+        uint256 value
+    )
+    internal
+    {
+        _spendAllowance(from, value);
+        _transfer(from, to, value);
+    }
+
+    /**
+     * @dev Internal function to spend the allowance msg.sender has from the owner.
+     * An unlimited allowance is not decreased.
+     * @param owner The address which owns the funds.
+     * @param value The amount of tokens to be spent.
+     */
+    function _spendAllowance(address owner, uint256 value) internal {
+        address sender = _msgSender();
+        uint256 currentAllowance = _allowances[owner][sender];
+        if (currentAllowance != type(uint256).max) {
+            if (value > currentAllowance)
+                revert ERC20InsufficientAllowance(
+                    sender,
+                    currentAllowance,
+                    value
+                );
+
+            unchecked {
+                _allowances[owner][sender] -= value;
+            }
+        }
+    }
+}
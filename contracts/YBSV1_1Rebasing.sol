@@ -0,0 +1,431 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {YBSV1_1Base} from "./YBSV1_1Base.sol";
+
+/**
+ * @title YBS rebasing module
+ * @dev Implements the rebase multiplier, protocol fee and balance history of YBSV1_1.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+// solhint-disable-next-line contract-name-camelcase
+contract YBSV1_1Rebasing is YBSV1_1Base {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address nextModule) YBSV1_1Base(nextModule) {}
+
+    /**
+     * @notice Checkpoints the shares of msg.sender from now on, so balanceOfAt() can look up its balance.
+     * @dev Share history is opt-in, since every checkpoint adds a storage slot to the transfers of the account.
+     * It cannot be disabled, so lookups from the start time remain available.
+     * Balances from before the start time cannot be looked up.
+     */
+    function enableShareHistory() external {
+        address sender = _msgSender();
+        if (_shareHistoryStart[sender] != 0) revert ShareHistoryAlreadyEnabled();
+
+        _enableShareHistory(sender);
+    }
+
+    /**
+     * @notice Batch checkpoint the shares of accounts from now on, e.g. for an audit or a dispute.
+     * @dev Restricted to ASSET_PROTECTION_ROLE. Accounts that already enabled their share history are skipped,
+     * so their start time is kept. Balances from before the start time cannot be looked up.
+     * @param addresses list of addresses to enable the share history for.
+     */
+    function enableShareHistoryForAccounts(
+        address[] calldata addresses
+    ) external onlyRole(ASSET_PROTECTION_ROLE) {
+        for (uint256 i = 0; i < addresses.length;) {
+            if (_shareHistoryStart[addresses[i]] == 0) {
+                _enableShareHistory(addresses[i]);
+            }
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Sets the rebase period.
+     * @dev Restricted to REBASE_ADMIN_ROLE.
+     * @param rebasePeriod_ the new rebase period.
+     */
+    function setRebasePeriod(
+        uint256 rebasePeriod_
+    ) external onlyRole(REBASE_ADMIN_ROLE) {
+        _setRebasePeriod(rebasePeriod_);
+    }
+
+    /**
+     * @notice Sets the max rebase rate.
+     * @dev Restricted to REBASE_ADMIN_ROLE.
+     * @param maxRebaseRate_ The new max rebase rate.
+     */
+    function setMaxRebaseRate(
+        uint256 maxRebaseRate_
+    ) external onlyRole(REBASE_ADMIN_ROLE) {
+        _setMaxRebaseRate(maxRebaseRate_);
+    }
+
+    /**
+     * @notice Sets the max annual rebase rate.
+     * @dev Restricted to REBASE_ADMIN_ROLE.
+     * Every multiplier increase is annualized linearly over the time since the previous multiplier increase,
+     * and must not exceed this rate. A zero value disables the check.
+     * @param maxAnnualRebaseRate_ The new max annual rebase rate.
+     */
+    function setMaxAnnualRebaseRate(
+        uint256 maxAnnualRebaseRate_
+    ) external onlyRole(REBASE_ADMIN_ROLE) {
+        maxAnnualRebaseRate = maxAnnualRebaseRate_;
+        emit MaxAnnualRebaseRateSet(maxAnnualRebaseRate_);
+    }
+
+    /**
+     * @notice Sets the share of each multiplier increase minted to the treasury.
+     * @dev Restricted to REBASE_ADMIN_ROLE. Applies to increases made after the change.
+     * @param feeRate_ The new fee rate, zero disables the fee.
+     */
+    function setFeeRate(
+        uint256 feeRate_
+    ) external onlyRole(REBASE_ADMIN_ROLE) {
+        if (feeRate_ >= _BASE) revert InvalidFeeRate(feeRate_);
+
+        feeRate = feeRate_;
+        emit FeeRateSet(feeRate_);
+    }
+
+    /**
+     * @notice Sets the account that collects the protocol fee.
+     * @dev Restricted to DEFAULT_ADMIN_ROLE. Not allowed while a multiplier increase is pending,
+     * so the fee of a pending increase is minted to the treasury it was accrued for.
+     * The fees of increases that already took effect are minted to the current treasury first.
+     * @param treasury_ The new treasury, the zero address disables the fee.
+     */
+    function setTreasury(
+        address treasury_
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) whenNoPendingMultiplier() {
+        _syncMultiplierSchedule();
+        treasury = treasury_;
+        emit TreasurySet(treasury_);
+    }
+
+    /**
+     * @notice Sets the max rebase decrease rate.
+     * @dev Restricted to REBASE_ADMIN_ROLE.
+     * @param maxRebaseDecreaseRate_ The new max rebase decrease rate.
+     */
+    function setMaxRebaseDecreaseRate(
+        uint256 maxRebaseDecreaseRate_
+    ) external onlyRole(REBASE_ADMIN_ROLE) {
+        // A rate of _BASE would zero the multiplier
+        if (maxRebaseDecreaseRate_ >= _BASE) {
+            revert InvalidMaxRebaseDecreaseRate(maxRebaseDecreaseRate_);
+        }
+
+        maxRebaseDecreaseRate = maxRebaseDecreaseRate_;
+        emit MaxRebaseDecreaseRateSet(maxRebaseDecreaseRate_);
+    }
+
+    /**
+     * @notice Sets the next rebase multiplier and increase time.
+     * @dev Restricted to REBASE_ADMIN_ROLE.
+     * Used in the following scenarios:
+     * 1. corrective actions when a pending increase is set, i.e. multIncrTime is in future.
+     *     a. The beforeIncrMult should be active in this case and should not change.
+     * 2. explicitly setting the next multiplier & increase time.
+     *     a. The afterIncrMult should be active in this case and roll to beforeIncrMult.
+     * Any multipliers queued through increaseRebaseMultiplier() are cleared.
+     * @param afterIncrMult_ the contract rebase multiplier after increase
+     * @param multIncrTime_ the multiplier increase time
+     * @param expectedTotalSupply the expected total supply after the increase based on afterIncrMult_.
+     */
+    function setNextMultiplier(
+        uint256 afterIncrMult_,
+        uint256 multIncrTime_,
+        uint256 expectedTotalSupply
+    ) external onlyRole(REBASE_ADMIN_ROLE) whenOperationNotPaused(PausableOperation.Rebase) {
+        // Do not allow multIncrTime_ to be in the past.
+        // If desired to only increase the multIncrTime use increaseRebaseMultiplier() with a zero rebaseRate.
+        if (multIncrTime_ < block.timestamp) {
+            revert RetroactiveRebase();
+        }
+
+        uint256 activeMult = _getActiveMultiplier();
+        if (afterIncrMult_ < activeMult) {
+            revert InvalidRebaseMultiplier(afterIncrMult_);
+        }
+
+        uint256 rebaseRate = (afterIncrMult_ - activeMult) * _BASE / activeMult;
+        if (rebaseRate > maxRebaseRate) {
+            revert InvalidRebaseRate(rebaseRate);
+        }
+        // A pending increase that is replaced never took effect, so the active multiplier is at least as old as now
+        uint256 previousIncrTime = multIncrTime < block.timestamp ? multIncrTime : block.timestamp;
+        _checkAnnualRebaseRate(rebaseRate, multIncrTime_ - previousIncrTime);
+
+        _settleFees();
+        _clearMultiplierSchedule();
+
+        _setRebaseMultipliers(activeMult, afterIncrMult_, multIncrTime_, expectedTotalSupply);
+    }
+
+    /**
+     * @notice Sets the multipliers relayed from the token on Ethereum, including the multipliers queued there.
+     * @dev Restricted to REBASE_RECEIVER_ROLE, granted to a RebaseReceiver on other chains.
+     * The supply differs per chain, so the multipliers are not checked against an expected total supply.
+     * Instead, the multiplier that becomes active can change the active multiplier by at most maxRebaseRate,
+     * or maxRebaseDecreaseRate for a decrease, and every later multiplier must be greater than or equal
+     * to the previous one, within maxRebaseRate, and take effect after it. Any multipliers queued on this chain are replaced.
+     * @param beforeIncrMult_ The multiplier effective before multIncrTime_.
+     * @param afterIncrMult_ The multiplier effective from multIncrTime_.
+     * @param multIncrTime_ The time at which the multiplier increases.
+     * @param schedule The multipliers queued after multIncrTime_, ordered by effective time.
+     */
+    function receiveRebaseMultipliers(
+        uint256 beforeIncrMult_,
+        uint256 afterIncrMult_,
+        uint256 multIncrTime_,
+        MultiplierCheckpoint[] calldata schedule
+    ) external onlyRole(REBASE_RECEIVER_ROLE) whenOperationNotPaused(PausableOperation.Rebase) {
+        if (beforeIncrMult_ == 0) revert InvalidRebaseMultiplier(beforeIncrMult_);
+        if (schedule.length > MAX_SCHEDULED_MULTIPLIERS) revert MultiplierScheduleFull();
+
+        uint256 activeMult = _getActiveMultiplier();
+        uint256 receivedMult = multIncrTime_ > block.timestamp ? beforeIncrMult_ : afterIncrMult_;
+        if (receivedMult < activeMult) {
+            uint256 decreaseRate = (activeMult - receivedMult) * _BASE / activeMult;
+            if (decreaseRate > maxRebaseDecreaseRate) revert InvalidRebaseDecreaseRate(decreaseRate);
+        } else {
+            _checkReceivedIncrease(activeMult, receivedMult);
+        }
+        _checkReceivedIncrease(beforeIncrMult_, afterIncrMult_);
+
+        _settleFees();
+        _clearMultiplierSchedule();
+
+        uint256 lastMult = afterIncrMult_;
+        uint256 lastTime = multIncrTime_;
+        for (uint256 i = 0; i < schedule.length;) {
+            MultiplierCheckpoint calldata checkpoint = schedule[i];
+            if (checkpoint.effectiveTime <= lastTime) revert InvalidMultiplierSchedule();
+            _checkReceivedIncrease(lastMult, checkpoint.multiplier);
+
+            _multiplierSchedule.push(checkpoint);
+            emit RebaseMultiplierScheduled(lastMult, checkpoint.multiplier, checkpoint.effectiveTime);
+
+            lastMult = checkpoint.multiplier;
+            lastTime = checkpoint.effectiveTime;
+            unchecked { ++i; }
+        }
+
+        _setRebaseMultipliers(beforeIncrMult_, afterIncrMult_, multIncrTime_, type(uint256).max);
+    }
+
+    /**
+     * @notice Increases the next multiplier and sets the increase time.
+     * @dev Restricted to REBASE_ROLE.
+     * If an increase is already pending, the multiplier is queued one rebasePeriod
+     * after the last scheduled multiplier, see getMultiplierSchedule().
+     * @param rebaseRate the increase rate for the next multiplier
+     * @param expectedTotalSupply the expected total supply after the rebaseRate is applied.
+     */
+    function increaseRebaseMultiplier(
+        uint256 rebaseRate,
+        uint256 expectedTotalSupply
+    ) external onlyRole(REBASE_ROLE) whenOperationNotPaused(PausableOperation.Rebase) {
+        _syncMultiplierSchedule();
+        _increaseRebaseMultiplier(rebaseRate, expectedTotalSupply);
+    }
+
+    /**
+     * @notice Increases the multiplier multiple times, queueing each increase one rebasePeriod apart.
+     * @dev Restricted to REBASE_ROLE.
+     * @param rebaseRates the increase rates for the next multipliers
+     * @param expectedTotalSupplies the expected total supplies after each rebaseRate is applied.
+     */
+    function increaseRebaseMultiplierBatch(
+        uint256[] calldata rebaseRates,
+        uint256[] calldata expectedTotalSupplies
+    ) external onlyRole(REBASE_ROLE) whenOperationNotPaused(PausableOperation.Rebase) {
+        if (rebaseRates.length != expectedTotalSupplies.length) revert ArgumentLengthMismatch();
+
+        _syncMultiplierSchedule();
+        for (uint256 i = 0; i < rebaseRates.length;) {
+            _increaseRebaseMultiplier(rebaseRates[i], expectedTotalSupplies[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Decreases the active multiplier to reflect a loss in the reserve.
+     * @dev Restricted to REBASE_DECREASE_ROLE. Takes effect immediately and can be called at most once per rebasePeriod,
+     * and at most once per MIN_REBASE_DECREASE_INTERVAL if rebasePeriod is shorter.
+     * Cancels a pending increase first, including any multipliers queued behind it, see cancelPendingMultiplier().
+     * Fixed shares are not affected by the decrease.
+     * @param decreaseRate the decrease rate for the active multiplier
+     * @param expectedTotalSupply the minimum expected total supply after the decreaseRate is applied.
+     */
+    function decreaseRebaseMultiplier(
+        uint256 decreaseRate,
+        uint256 expectedTotalSupply
+    ) external onlyRole(REBASE_DECREASE_ROLE) whenOperationNotPaused(PausableOperation.Rebase) {
+        if (decreaseRate == 0 || decreaseRate > maxRebaseDecreaseRate) {
+            revert InvalidRebaseDecreaseRate(decreaseRate);
+        }
+
+        if (lastRebaseDecreaseTime != 0) {
+            uint256 interval = rebasePeriod > MIN_REBASE_DECREASE_INTERVAL ? rebasePeriod : MIN_REBASE_DECREASE_INTERVAL;
+            if (block.timestamp < lastRebaseDecreaseTime + interval) revert RebaseDecreaseTooSoon();
+        }
+
+        _syncMultiplierSchedule();
+        if (_hasPendingMultiplier()) {
+            _cancelPendingMultiplier();
+        }
+        // Only zero rate checkpoints can remain, which would restore the previous multiplier
+        _clearMultiplierSchedule();
+
+        uint256 activeMult = _getActiveMultiplier();
+        uint256 multiplier = (activeMult * (_BASE - decreaseRate)) / _BASE;
+
+        // The expected total supply is a lower bound, guarding against decreasing more than intended
+        if ((totalRebaseShares * multiplier / _BASE) + totalFixedShares < expectedTotalSupply) {
+            revert UnexpectedTotalSupply();
+        }
+
+        beforeIncrMult = multiplier;
+        afterIncrMult = multiplier;
+        lastRebaseDecreaseTime = block.timestamp;
+
+        emit RebaseMultiplierDecreased(activeMult, multiplier, decreaseRate);
+        emit RebaseMultipliersSet(multiplier, multiplier, multIncrTime);
+        _recordMultiplierHistory();
+    }
+
+    /**
+     * @notice Cancels the pending multiplier increase, including any multipliers queued behind it.
+     * @dev Restricted to REBASE_GUARDIAN_ROLE.
+     * The afterIncrMult reverts to beforeIncrMult, so the active multiplier does not change.
+     * The multIncrTime is kept, so later increases keep the rebase period cadence.
+     */
+    function cancelPendingMultiplier() external onlyRole(REBASE_GUARDIAN_ROLE) {
+        _syncMultiplierSchedule();
+        if (!_hasPendingMultiplier()) revert NoPendingMultiplier();
+
+        _cancelPendingMultiplier();
+
+        emit RebaseMultipliersSet(beforeIncrMult, beforeIncrMult, multIncrTime);
+        _recordMultiplierHistory();
+    }
+
+    /**
+     * @notice Returns the active rebase multiplier
+     * @return An uint256 representing the multiplier
+     */
+    function getActiveMultiplier() external view returns (uint256) {
+        return _getActiveMultiplier();
+    }
+
+    /**
+     * @notice Returns the multipliers queued to take effect after multIncrTime
+     * @dev Checkpoints that already took effect are only removed on the next multiplier change,
+     * use getActiveMultiplier() for the multiplier in effect.
+     * @return An array of MultiplierCheckpoint ordered by effective time
+     */
+    function getMultiplierSchedule() external view returns (MultiplierCheckpoint[] memory) {
+        return _multiplierSchedule;
+    }
+
+    /**
+     * @notice Returns the total supply once the pending multipliers take effect
+     * @dev Uses the last scheduled multiplier, see getMultiplierSchedule(), and the current shares
+     * plus the fee shares yet to be minted to the treasury. The current shares include the rebase shares minted
+     * while a multiplier is pending, which take part in the pending increase.
+     * Equals totalSupply() while no multiplier is pending.
+     * @return An uint256 representing the total supply after the pending rebases
+     */
+    function totalSupplyAfterPendingRebase() external view returns (uint256) {
+        (uint256 lastMult, ) = _getLastScheduledMultiplier();
+        return ((totalRebaseShares + _unmintedFeeShares()) * lastMult) / _BASE + totalFixedShares;
+    }
+
+    /**
+     * @notice Converts an amount of tokens to rebase shares at a timestamp
+     * @dev Uses the multiplier scheduled for the current or a future timestamp, and multiplierAt() for a past one.
+     * Later multiplier changes, e.g. through setNextMultiplier(), can change the result for a future timestamp.
+     * @param amount The amount of tokens to convert
+     * @param timestamp The timestamp of the multiplier
+     * @return An uint256 representing the rebase shares, rounded down
+     */
+    function convertToSharesAt(uint256 amount, uint256 timestamp) external view returns (uint256) {
+        return (amount * _BASE) / _multiplierAt(timestamp);
+    }
+
+    /**
+     * @notice Converts rebase shares to an amount of tokens at a timestamp
+     * @dev Uses the same multiplier as convertToSharesAt().
+     * @param shares The rebase shares to convert
+     * @param timestamp The timestamp of the multiplier
+     * @return An uint256 representing the amount of tokens, rounded down
+     */
+    function convertToAmountAt(uint256 shares, uint256 timestamp) external view returns (uint256) {
+        return (shares * _multiplierAt(timestamp)) / _BASE;
+    }
+
+    /**
+     * @notice Returns the total supply at a past timestamp
+     * @dev Converts the total rebase shares at the timestamp with multiplierAt(), and adds the total fixed shares.
+     * @param timestamp The timestamp to look up
+     * @return An uint256 representing the total supply at the end of the timestamp
+     */
+    function totalSupplyAt(uint256 timestamp) external view returns (uint256) {
+        uint256 rebaseShares = _sharesAt(_totalShareHistory.rebaseShares, totalRebaseShares, timestamp);
+        uint256 fixedShares = _sharesAt(_totalShareHistory.fixedShares, totalFixedShares, timestamp);
+        return (rebaseShares * multiplierAt(timestamp)) / _BASE + fixedShares;
+    }
+
+    /**
+     * @notice Gets the balance of the specified account once the pending multipliers take effect.
+     * @dev Uses the last scheduled multiplier, see getMultiplierSchedule(), and the current shares.
+     * The balance of the treasury includes the fee shares yet to be minted.
+     * Equals balanceOf() while no multiplier is pending.
+     * @param account account to get the balance for.
+     * @return An uint256 representing the amount owned by the passed account after the pending rebases.
+     */
+    function balanceOfAfterPendingRebase(address account) external view returns (uint256) {
+        (uint256 lastMult, ) = _getLastScheduledMultiplier();
+        uint256 balance = _balanceOf(account, lastMult);
+        if (account == treasury && !_holdsFixedShares(account)) {
+            balance += (_unmintedFeeShares() * lastMult) / _BASE;
+        }
+        return balance;
+    }
+
+    /**
+     * @notice Gets the balance of the specified account at a past timestamp.
+     * @dev Converts the rebase shares the account held at the timestamp with multiplierAt(), and adds its fixed shares.
+     * The balance is based on the shares held, so yield redirection is not reflected, unlike balanceOf().
+     * Reverts for timestamps before the share history of the account was enabled, see enableShareHistory()
+     * and enableShareHistoryForAccounts(), since the shares held before were not checkpointed.
+     * @param account account to get the balance for.
+     * @param timestamp The timestamp to look up
+     * @return An uint256 representing the amount owned by the passed account at the end of the timestamp.
+     */
+    function balanceOfAt(address account, uint256 timestamp) external view returns (uint256) {
+        uint256 start = _shareHistoryStart[account];
+        if (start == 0 || timestamp < start) revert ShareHistoryUnavailable(account, timestamp);
+
+        ShareHistory storage history = _shareHistory[account];
+        uint256 rebaseShares = _sharesAt(history.rebaseShares, _rebaseShares[account], timestamp);
+        uint256 fixedShares = _sharesAt(history.fixedShares, _fixedShares[account], timestamp);
+        return (rebaseShares * multiplierAt(timestamp)) / _BASE + fixedShares;
+    }
+
+    /**
+     * @notice Returns the time from which the shares of an account are checkpointed, see enableShareHistory().
+     * @param account account to get the start time for.
+     * @return An uint256 representing the start time, zero while the share history is not enabled.
+     */
+    function shareHistoryStartOf(address account) external view returns (uint256) {
+        return _shareHistoryStart[account];
+    }
+}
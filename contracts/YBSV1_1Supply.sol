@@ -0,0 +1,260 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {YBSV1_1Base} from "./YBSV1_1Base.sol";
+
+/**
+ * @title YBS supply module
+ * @dev Implements the supply control, supply rate limits and bridge mints and burns of YBSV1_1.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+// solhint-disable-next-line contract-name-camelcase
+contract YBSV1_1Supply is YBSV1_1Base {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address nextModule) YBSV1_1Base(nextModule) {}
+
+    /**
+     * @notice Sets the max amount that can be minted per window.
+     * @dev Restricted to DEFAULT_ADMIN_ROLE.
+     * The capacity refills linearly over the window. A zero window removes the limit.
+     * @param limit The max amount that can be minted per window.
+     * @param window The window in seconds.
+     */
+    function setMintRateLimit(uint256 limit, uint256 window) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setRateLimit(mintRateLimit, limit, window);
+        emit MintRateLimitSet(limit, window);
+    }
+
+    /**
+     * @notice Sets the max amount that can be burned per window.
+     * @dev Restricted to DEFAULT_ADMIN_ROLE.
+     * The capacity refills linearly over the window. A zero window removes the limit.
+     * @param limit The max amount that can be burned per window.
+     * @param window The window in seconds.
+     */
+    function setBurnRateLimit(uint256 limit, uint256 window) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setRateLimit(burnRateLimit, limit, window);
+        emit BurnRateLimitSet(limit, window);
+    }
+
+    /**
+     * @notice Sets the minting and burning limits of a bridge, see ERC-7281.
+     * @dev Restricted to DEFAULT_ADMIN_ROLE.
+     * The capacity refills linearly over a day. A bridge with zero limits cannot mint or burn.
+     * @param bridge The bridge address.
+     * @param mintingLimit The max amount the bridge can mint per day.
+     * @param burningLimit The max amount the bridge can burn per day.
+     */
+    function setLimits(
+        address bridge,
+        uint256 mintingLimit,
+        uint256 burningLimit
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (bridge == address(0)) revert ZeroAddress();
+
+        BridgeLimits storage limits = _bridges[bridge];
+        _setRateLimit(limits.mintLimit, mintingLimit, mintingLimit == 0 ? 0 : _BRIDGE_LIMIT_WINDOW);
+        _setRateLimit(limits.burnLimit, burningLimit, burningLimit == 0 ? 0 : _BRIDGE_LIMIT_WINDOW);
+        emit BridgeLimitsSet(mintingLimit, burningLimit, bridge);
+    }
+
+    /**
+     * @notice Sets the account holding redeemed tokens, see decreaseSupplyFromRedemption().
+     * @dev Restricted to DEFAULT_ADMIN_ROLE, so the supply controller cannot pick the account it burns from.
+     * @param redemptionAddress_ The new redemption address, the zero address disables burning from it.
+     */
+    function setRedemptionAddress(address redemptionAddress_) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        redemptionAddress = redemptionAddress_;
+        emit RedemptionAddressSet(redemptionAddress_);
+    }
+
+    /**
+     * @dev Returns the amount that can currently be minted.
+     * @return An uint256 representing the remaining mint capacity, the max uint256 if there is no limit.
+     */
+    function mintCapacity() external view returns (uint256) {
+        return _currentCapacity(mintRateLimit);
+    }
+
+    /**
+     * @dev Returns the amount that can currently be burned.
+     * @return An uint256 representing the remaining burn capacity, the max uint256 if there is no limit.
+     */
+    function burnCapacity() external view returns (uint256) {
+        return _currentCapacity(burnRateLimit);
+    }
+
+    /**
+     * @dev Returns the max amount a bridge can mint per day, see ERC-7281.
+     * @param bridge The bridge address.
+     * @return An uint256 representing the minting limit.
+     */
+    function mintingMaxLimitOf(address bridge) external view returns (uint256) {
+        return _bridges[bridge].mintLimit.limit;
+    }
+
+    /**
+     * @dev Returns the max amount a bridge can burn per day, see ERC-7281.
+     * @param bridge The bridge address.
+     * @return An uint256 representing the burning limit.
+     */
+    function burningMaxLimitOf(address bridge) external view returns (uint256) {
+        return _bridges[bridge].burnLimit.limit;
+    }
+
+    /**
+     * @dev Returns the amount a bridge can currently mint, see ERC-7281.
+     * @param bridge The bridge address.
+     * @return An uint256 representing the remaining minting capacity.
+     */
+    function mintingCurrentLimitOf(address bridge) external view returns (uint256) {
+        return _bridgeCapacity(_bridges[bridge].mintLimit);
+    }
+
+    /**
+     * @dev Returns the amount a bridge can currently burn, see ERC-7281.
+     * @param bridge The bridge address.
+     * @return An uint256 representing the remaining burning capacity.
+     */
+    function burningCurrentLimitOf(address bridge) external view returns (uint256) {
+        return _bridgeCapacity(_bridges[bridge].burnLimit);
+    }
+
+    /**
+     * @notice Increases the total supply by minting the specified number of tokens to the supply controller account.
+     * @dev Converts to underlying rebase shares, unless the supply controller holds fixed shares,
+     * and checks if results in overflow for total supply.
+     * Restricted to SUPPLY_CONTROLLER_ROLE.
+     * @param value The number of tokens to add.
+     * @return success A boolean that indicates if the operation was successful.
+     */
+    function increaseSupply(
+        uint256 value
+    ) public onlyRole(SUPPLY_CONTROLLER_ROLE) returns (bool success) {
+        // Do not allow blocked address to get rebaseShares. This check is only necessary for increaseSupply,
+        // as decreaseSupply will revert due to insufficient rebaseShares.
+        if (_blocklist[_msgSender()]) revert BlockedAccountSender();
+
+        _spendMintRateLimit(value);
+        _increaseSupply(_msgSender(), value);
+        return true;
+    }
+
+    /**
+     * @notice Increases the total supply by minting the specified number of tokens to a recipient.
+     * @dev Restricted to SUPPLY_CONTROLLER_ROLE.
+     * @param to The address to mint to.
+     * @param value The number of tokens to add.
+     * @return success A boolean that indicates if the operation was successful.
+     */
+    function increaseSupplyTo(
+        address to,
+        uint256 value
+    ) public onlyRole(SUPPLY_CONTROLLER_ROLE) returns (bool success) {
+        _beforeIncreaseSupplyTo(to);
+        _spendMintRateLimit(value);
+        _increaseSupply(to, value);
+        return true;
+    }
+
+    /**
+     * @notice Increases the total supply by minting tokens to multiple recipients in a single transaction.
+     * @dev Restricted to SUPPLY_CONTROLLER_ROLE.
+     * @param to The addresses to mint to.
+     * @param values The number of tokens to add for each recipient.
+     * @return success A boolean that indicates if the operation was successful.
+     */
+    function increaseSupplyToBatch(
+        address[] calldata to,
+        uint256[] calldata values
+    ) public onlyRole(SUPPLY_CONTROLLER_ROLE) returns (bool success) {
+        if (to.length != values.length) revert ArgumentLengthMismatch();
+        for (uint256 i = 0; i < to.length;) {
+            _beforeIncreaseSupplyTo(to[i]);
+            _spendMintRateLimit(values[i]);
+            _increaseSupply(to[i], values[i]);
+            unchecked { ++i; }
+        }
+        return true;
+    }
+
+    /**
+     * @notice Decreases the total supply by burning the specified number of tokens from the supply controller account.
+     * @dev Converts to underlying rebase shares, unless the supply controller holds fixed shares.
+     * Restricted to SUPPLY_CONTROLLER_ROLE.
+     * @param value The number of tokens to remove.
+     * @return success A boolean that indicates if the operation was successful.
+     */
+    function decreaseSupply(
+        uint256 value
+    ) public onlyRole(SUPPLY_CONTROLLER_ROLE) returns (bool success) {
+        _spendBurnRateLimit(value);
+        _decreaseSupply(_msgSender(), value);
+        return true;
+    }
+
+    /**
+     * @notice Decreases the total supply by burning the specified number of tokens from the redemption address.
+     * @dev Converts to underlying rebase shares, unless the redemption address holds fixed shares.
+     * Restricted to SUPPLY_CONTROLLER_ROLE.
+     * @param value The number of tokens to remove.
+     * @return success A boolean that indicates if the operation was successful.
+     */
+    function decreaseSupplyFromRedemption(
+        uint256 value
+    ) public onlyRole(SUPPLY_CONTROLLER_ROLE) returns (bool success) {
+        address from = redemptionAddress;
+        if (from == address(0)) revert NoRedemptionAddress();
+
+        _spendBurnRateLimit(value);
+        _decreaseSupply(from, value);
+        return true;
+    }
+
+    /**
+     * @notice Mints tokens to a user through a bridge, see ERC-7281.
+     * @dev Spends the minting limit of the caller, but not the mint rate limit of the supply controller.
+     * Bridging moves tokens between chains, so it stops while transfers are paused.
+     * @param user The address to mint to.
+     * @param amount The number of tokens to mint.
+     */
+    function mint(
+        address user,
+        uint256 amount
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Transfer) {
+        address bridge = _msgSender();
+        if (_blocklist[bridge]) revert BlockedAccountSender();
+        _beforeIncreaseSupplyTo(user);
+
+        RateLimit storage mintLimit = _bridges[bridge].mintLimit;
+        uint256 capacity = _bridgeCapacity(mintLimit);
+        if (amount > capacity) revert BridgeMintLimitExceeded(bridge, capacity, amount);
+        _spendCapacity(mintLimit, capacity, amount);
+
+        _increaseSupply(user, amount);
+    }
+
+    /**
+     * @notice Burns tokens from a user through a bridge, see ERC-7281.
+     * @dev Spends the burning limit of the caller, and the caller's allowance unless it burns its own tokens,
+     * but not the burn rate limit of the supply controller. Like mint(), it stops while transfers are paused.
+     * @param user The address to burn from.
+     * @param amount The number of tokens to burn.
+     */
+    function burn(
+        address user,
+        uint256 amount
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Transfer) {
+        address bridge = _msgSender();
+        if (_blocklist[bridge]) revert BlockedAccountSpender();
+        if (_blocklist[user]) revert BlockedAccountSender();
+
+        RateLimit storage burnLimit = _bridges[bridge].burnLimit;
+        uint256 capacity = _bridgeCapacity(burnLimit);
+        if (amount > capacity) revert BridgeBurnLimitExceeded(bridge, capacity, amount);
+        _spendCapacity(burnLimit, capacity, amount);
+
+        if (bridge != user) _spendAllowance(user, amount);
+        _decreaseSupply(user, amount);
+    }
+}
@@ -47,4 +47,28 @@ library ECRecover {
 
         return signer;
     }
+
+    /**
+     * @dev Recover signer's address from a signed message.
+     * @param digest    Keccak-256 hash digest of the signed message
+     * @param signature Signature bytes, packed as r, s, v
+     * @return Signer address
+     */
+    function recover(
+        bytes32 digest,
+        bytes memory signature
+    ) internal pure returns (address) {
+        if (signature.length != 65) revert InvalidSignature();
+
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            r := mload(add(signature, 0x20))
+            s := mload(add(signature, 0x40))
+            v := byte(0, mload(add(signature, 0x60)))
+        }
+        return recover(digest, v, r, s);
+    }
 }
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.17;
 
-import {PaxosBaseAbstract} from "./PaxosBaseAbstract.sol";
+import {EIP2612Storage} from "./EIP2612Storage.sol";
 import {EIP712} from "./EIP712.sol";
 
 /**
@@ -9,15 +9,11 @@ import {EIP712} from "./EIP712.sol";
  * @dev An abstract contract to provide EIP2612 functionality.
  * @custom:security-contact smart-contract-security@paxos.com
  */
-abstract contract EIP2612 is PaxosBaseAbstract {
+abstract contract EIP2612 is EIP2612Storage {
     // keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)")
     bytes32 public constant PERMIT_TYPEHASH =
         0x6e71edae12b1b97f4d1f60370fef10105fa2faae0126114a169c64845d6126c9;
 
-    mapping(address => uint256) internal _nonces;
-    // Storage gap: https://docs.openzeppelin.com/upgrades-plugins/1.x/writing-upgradeable#storage-gaps
-    uint256[10] private __gap_EIP2612; // solhint-disable-line var-name-mixedcase
-
     error BlockedAccountOwner();
     error PermitExpired();
 
@@ -48,7 +44,45 @@ abstract contract EIP2612 is PaxosBaseAbstract {
         uint8 v,
         bytes32 r,
         bytes32 s
-    ) external whenNotPaused {
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Approval) {
+        _permit(owner, spender, value, deadline, abi.encodePacked(r, s, v));
+    }
+
+    /**
+     * @notice update allowance with a signed permit
+     * @dev EOA owners provide a packed (r, s, v) signature, smart contract wallets
+     * are verified with EIP1271
+     * @param owner     Token owner's address (Authorizer)
+     * @param spender   Spender's address
+     * @param value     Amount of allowance
+     * @param deadline  The time at which this expires (unix time)
+     * @param signature Signature bytes signed by an EOA wallet or a contract wallet
+     */
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        bytes memory signature
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Approval) {
+        _permit(owner, spender, value, deadline, signature);
+    }
+
+    /**
+     * @notice Internal function to update allowance with a signed permit
+     * @param owner     Token owner's address (Authorizer)
+     * @param spender   Spender's address
+     * @param value     Amount of allowance
+     * @param deadline  The time at which this expires (unix time)
+     * @param signature Signature bytes signed by an EOA wallet or a contract wallet
+     */
+    function _permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        bytes memory signature
+    ) internal {
         if (deadline < block.timestamp) revert PermitExpired();
         if (isAddrBlocked(owner)) revert BlockedAccountOwner();
         if (isAddrBlocked(spender)) revert BlockedAccountSpender();
@@ -61,7 +95,7 @@ abstract contract EIP2612 is PaxosBaseAbstract {
             _nonces[owner]++,
             deadline
         );
-        if (EIP712.recover(DOMAIN_SEPARATOR(), v, r, s, data) != owner)
+        if (!EIP712.isValidSignatureNow(DOMAIN_SEPARATOR(), owner, signature, data))
             revert InvalidSignature();
 
         _approve(owner, spender, value);
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {PaxosBaseAbstract} from "./PaxosBaseAbstract.sol";
+
+/**
+ * @title EIP2612 storage contract
+ * @dev An abstract contract that holds the EIP2612 storage, for contracts that keep the
+ * storage layout of EIP2612 without its functions.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+abstract contract EIP2612Storage is PaxosBaseAbstract {
+    mapping(address => uint256) internal _nonces;
+    // Storage gap: https://docs.openzeppelin.com/upgrades-plugins/1.x/writing-upgradeable#storage-gaps
+    uint256[10] private __gap_EIP2612; // solhint-disable-line var-name-mixedcase
+}
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.17;
 
-import {PaxosBaseAbstract} from "./PaxosBaseAbstract.sol";
+import {EIP3009Storage} from "./EIP3009Storage.sol";
 import {EIP712} from "./EIP712.sol";
 
 /**
@@ -13,7 +13,7 @@ import {EIP712} from "./EIP712.sol";
  * failed transaction to execute it later.
  * @custom:security-contact smart-contract-security@paxos.com
  */
-abstract contract EIP3009 is PaxosBaseAbstract {
+abstract contract EIP3009 is EIP3009Storage {
     // keccak256("TransferWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce)")
     bytes32 public constant TRANSFER_WITH_AUTHORIZATION_TYPEHASH =
         0x7c7c6cdb67a18743f49ec6fa9b35f50d52ed05cbed4cc592e13b44501c1a2267;
@@ -26,13 +26,6 @@ abstract contract EIP3009 is PaxosBaseAbstract {
     bytes32 public constant CANCEL_AUTHORIZATION_TYPEHASH =
         0x158b0a9edf7a828aad02f63cd515c68ef2f50ba807396f6d12842833a1597429;
 
-    /**
-     * @dev authorizer address => nonce => state (true = used / false = unused)
-     */
-    mapping(address => mapping(bytes32 => bool)) internal _authorizationStates;
-    // Storage gap: https://docs.openzeppelin.com/upgrades-plugins/1.x/writing-upgradeable#storage-gaps
-    uint256[10] private __gap_EIP3009; // solhint-disable-line var-name-mixedcase
-
     event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce);
     event AuthorizationCanceled(
         address indexed authorizer,
@@ -82,7 +75,7 @@ abstract contract EIP3009 is PaxosBaseAbstract {
         uint8 v,
         bytes32 r,
         bytes32 s
-    ) external whenNotPaused {
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Authorization) {
         _transferWithAuthorization(
             TRANSFER_WITH_AUTHORIZATION_TYPEHASH,
             from,
@@ -91,9 +84,40 @@ abstract contract EIP3009 is PaxosBaseAbstract {
             validAfter,
             validBefore,
             nonce,
-            v,
-            r,
-            s
+            abi.encodePacked(r, s, v)
+        );
+    }
+
+    /**
+     * @notice Execute a transfer with a signed authorization
+     * @dev EOA authorizers provide a packed (r, s, v) signature, smart contract wallets
+     * are verified with EIP1271
+     * @param from          Payer's address (Authorizer)
+     * @param to            Payee's address
+     * @param value         Amount to be transferred
+     * @param validAfter    The time after which this is valid (unix time)
+     * @param validBefore   The time before which this is valid (unix time)
+     * @param nonce         Unique nonce
+     * @param signature     Signature bytes signed by an EOA wallet or a contract wallet
+     */
+    function transferWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        bytes memory signature
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Authorization) {
+        _transferWithAuthorization(
+            TRANSFER_WITH_AUTHORIZATION_TYPEHASH,
+            from,
+            to,
+            value,
+            validAfter,
+            validBefore,
+            nonce,
+            signature
         );
     }
 
@@ -119,7 +143,7 @@ abstract contract EIP3009 is PaxosBaseAbstract {
         uint8[] memory v,
         bytes32[] memory r,
         bytes32[] memory s
-    ) external whenNotPaused {
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Authorization) {
         if (
             !(to.length == from.length &&
                 value.length == from.length &&
@@ -142,9 +166,7 @@ abstract contract EIP3009 is PaxosBaseAbstract {
                 validAfter[i],
                 validBefore[i],
                 nonce[i],
-                v[i],
-                r[i],
-                s[i]
+                abi.encodePacked(r[i], s[i], v[i])
             );
             unchecked { ++i; }
         }
@@ -175,8 +197,8 @@ abstract contract EIP3009 is PaxosBaseAbstract {
         uint8 v,
         bytes32 r,
         bytes32 s
-    ) external whenNotPaused {
-        if (to != msg.sender) revert CallerMustBePayee();
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Authorization) {
+        if (to != _msgSender()) revert CallerMustBePayee();
 
         _transferWithAuthorization(
             RECEIVE_WITH_AUTHORIZATION_TYPEHASH,
@@ -186,12 +208,103 @@ abstract contract EIP3009 is PaxosBaseAbstract {
             validAfter,
             validBefore,
             nonce,
-            v,
-            r,
-            s
+            abi.encodePacked(r, s, v)
         );
     }
 
+    /**
+     * @notice Receive a transfer with a signed authorization from the payer
+     * @dev This has an additional check to ensure that the payee's address matches
+     * the caller of this function to prevent front-running attacks. (See security
+     * considerations)
+     * EOA authorizers provide a packed (r, s, v) signature, smart contract wallets
+     * are verified with EIP1271
+     * @param from          Payer's address (Authorizer)
+     * @param to            Payee's address
+     * @param value         Amount to be transferred
+     * @param validAfter    The time after which this is valid (unix time)
+     * @param validBefore   The time before which this is valid (unix time)
+     * @param nonce         Unique nonce
+     * @param signature     Signature bytes signed by an EOA wallet or a contract wallet
+     */
+    function receiveWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        bytes memory signature
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Authorization) {
+        if (to != _msgSender()) revert CallerMustBePayee();
+
+        _transferWithAuthorization(
+            RECEIVE_WITH_AUTHORIZATION_TYPEHASH,
+            from,
+            to,
+            value,
+            validAfter,
+            validBefore,
+            nonce,
+            signature
+        );
+    }
+
+    /**
+     * @notice Receive a batch of transfers with signed authorizations from the payers
+     * @dev Every payee address must match the caller of this function. Authorizations
+     * that have already been used are skipped instead of reverting the batch.
+     * @param from          Array of payer addresses
+     * @param to            Array of payee addresses
+     * @param value         Array of amounts to be transferred
+     * @param validAfter    Array of times after which the transfer is valid (unix time)
+     * @param validBefore   Array of times before which the transfer is valid (unix time)
+     * @param nonce         Array of unique nonces
+     * @param v             Array of v part of the signatures
+     * @param r             Array of r part of the signatures
+     * @param s             Array of s part of the signatures
+     */
+    function receiveWithAuthorizationBatch(
+        address[] memory from,
+        address[] memory to,
+        uint256[] memory value,
+        uint256[] memory validAfter,
+        uint256[] memory validBefore,
+        bytes32[] memory nonce,
+        uint8[] memory v,
+        bytes32[] memory r,
+        bytes32[] memory s
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Authorization) {
+        if (
+            !(to.length == from.length &&
+                value.length == from.length &&
+                validAfter.length == from.length &&
+                validBefore.length == from.length &&
+                nonce.length == from.length &&
+                v.length == from.length &&
+                r.length == from.length &&
+                s.length == from.length)
+        ) {
+            revert ArgumentLengthMismatch();
+        }
+
+        for (uint256 i = 0; i < from.length;) {
+            if (to[i] != _msgSender()) revert CallerMustBePayee();
+
+            _transferWithAuthorization(
+                RECEIVE_WITH_AUTHORIZATION_TYPEHASH,
+                from[i],
+                to[i],
+                value[i],
+                validAfter[i],
+                validBefore[i],
+                nonce[i],
+                abi.encodePacked(r[i], s[i], v[i])
+            );
+            unchecked { ++i; }
+        }
+    }
+
     /**
      * @notice Attempt to cancel an authorization
      * @param authorizer    Authorizer's address
@@ -206,7 +319,73 @@ abstract contract EIP3009 is PaxosBaseAbstract {
         uint8 v,
         bytes32 r,
         bytes32 s
-    ) external whenNotPaused {
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Authorization) {
+        _cancelAuthorization(authorizer, nonce, abi.encodePacked(r, s, v));
+    }
+
+    /**
+     * @notice Attempt to cancel an authorization
+     * @dev EOA authorizers provide a packed (r, s, v) signature, smart contract wallets
+     * are verified with EIP1271
+     * @param authorizer    Authorizer's address
+     * @param nonce         Nonce of the authorization
+     * @param signature     Signature bytes signed by an EOA wallet or a contract wallet
+     */
+    function cancelAuthorization(
+        address authorizer,
+        bytes32 nonce,
+        bytes memory signature
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Authorization) {
+        _cancelAuthorization(authorizer, nonce, signature);
+    }
+
+    /**
+     * @notice Attempt to cancel a batch of authorizations
+     * @dev Authorizations that have already been used or canceled are skipped instead
+     * of reverting the batch.
+     * @param authorizer    Array of authorizer addresses
+     * @param nonce         Array of authorization nonces
+     * @param v             Array of v part of the signatures
+     * @param r             Array of r part of the signatures
+     * @param s             Array of s part of the signatures
+     */
+    function cancelAuthorizationBatch(
+        address[] memory authorizer,
+        bytes32[] memory nonce,
+        uint8[] memory v,
+        bytes32[] memory r,
+        bytes32[] memory s
+    ) external whenNotPaused whenOperationNotPaused(PausableOperation.Authorization) {
+        if (
+            !(nonce.length == authorizer.length &&
+                v.length == authorizer.length &&
+                r.length == authorizer.length &&
+                s.length == authorizer.length)
+        ) {
+            revert ArgumentLengthMismatch();
+        }
+
+        for (uint256 i = 0; i < authorizer.length;) {
+            _cancelAuthorization(
+                authorizer[i],
+                nonce[i],
+                abi.encodePacked(r[i], s[i], v[i])
+            );
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Internal function to cancel an authorization
+     * @param authorizer    Authorizer's address
+     * @param nonce         Nonce of the authorization
+     * @param signature     Signature bytes signed by an EOA wallet or a contract wallet
+     */
+    function _cancelAuthorization(
+        address authorizer,
+        bytes32 nonce,
+        bytes memory signature
+    ) internal {
         if (isAddrBlocked(authorizer)) revert BlockedAccountAuthorizer();
 
         if (_authorizationStates[authorizer][nonce]) {
@@ -220,7 +399,7 @@ abstract contract EIP3009 is PaxosBaseAbstract {
             nonce
         );
 
-        if (EIP712.recover(DOMAIN_SEPARATOR(), v, r, s, data) != authorizer)
+        if (!EIP712.isValidSignatureNow(DOMAIN_SEPARATOR(), authorizer, signature, data))
             revert InvalidSignature();
 
         _authorizationStates[authorizer][nonce] = true;
@@ -236,9 +415,7 @@ abstract contract EIP3009 is PaxosBaseAbstract {
      * @param validAfter    The time after which this is valid (unix time)
      * @param validBefore   The time before which this is valid (unix time)
      * @param nonce         Unique nonce
-     * @param v             v of the signature
-     * @param r             r of the signature
-     * @param s             s of the signature
+     * @param signature     Signature bytes signed by an EOA wallet or a contract wallet
      */
     function _transferWithAuthorization(
         bytes32 typeHash,
@@ -248,9 +425,7 @@ abstract contract EIP3009 is PaxosBaseAbstract {
         uint256 validAfter,
         uint256 validBefore,
         bytes32 nonce,
-        uint8 v,
-        bytes32 r,
-        bytes32 s
+        bytes memory signature
     ) internal {
         if (block.timestamp <= validAfter) revert AuthorizationInvalid();
         if (block.timestamp >= validBefore) revert AuthorizationExpired();
@@ -269,7 +444,7 @@ abstract contract EIP3009 is PaxosBaseAbstract {
             validBefore,
             nonce
         );
-        if (EIP712.recover(DOMAIN_SEPARATOR(), v, r, s, data) != from)
+        if (!EIP712.isValidSignatureNow(DOMAIN_SEPARATOR(), from, signature, data))
             revert InvalidSignature();
 
         _authorizationStates[from][nonce] = true;
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {PaxosBaseAbstract} from "./PaxosBaseAbstract.sol";
+
+/**
+ * @title EIP3009 storage contract
+ * @dev An abstract contract that holds the EIP3009 storage, for contracts that keep the
+ * storage layout of EIP3009 without its functions.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+abstract contract EIP3009Storage is PaxosBaseAbstract {
+    /**
+     * @dev authorizer address => nonce => state (true = used / false = unused)
+     */
+    mapping(address => mapping(bytes32 => bool)) internal _authorizationStates;
+    // Storage gap: https://docs.openzeppelin.com/upgrades-plugins/1.x/writing-upgradeable#storage-gaps
+    uint256[10] private __gap_EIP3009; // solhint-disable-line var-name-mixedcase
+}
@@ -2,6 +2,7 @@
 pragma solidity 0.8.17;
 
 import {ECRecover} from "./ECRecover.sol";
+import {SignatureChecker} from "./SignatureChecker.sol";
 
 /**
  * @title EIP712
@@ -51,13 +52,49 @@ library EIP712 {
         bytes32 s,
         bytes memory typeHashAndData
     ) internal pure returns (address) {
-        bytes32 digest = keccak256(
-            abi.encodePacked(
-                "\x19\x01",
-                domainSeparator,
-                keccak256(typeHashAndData)
-            )
-        );
-        return ECRecover.recover(digest, v, r, s);
+        return ECRecover.recover(hashTypedData(domainSeparator, typeHashAndData), v, r, s);
+    }
+
+    /**
+     * @notice Check a EIP712 signature against the expected signer
+     * @dev Signers with code are verified with EIP1271, EOAs with ECDSA recovery
+     * @param domainSeparator   Domain separator
+     * @param signer            Expected signer's address
+     * @param signature         Signature bytes
+     * @param typeHashAndData   Type hash concatenated with data
+     * @return True if the signature is valid
+     */
+    function isValidSignatureNow(
+        bytes32 domainSeparator,
+        address signer,
+        bytes memory signature,
+        bytes memory typeHashAndData
+    ) internal view returns (bool) {
+        return
+            SignatureChecker.isValidSignatureNow(
+                signer,
+                hashTypedData(domainSeparator, typeHashAndData),
+                signature
+            );
+    }
+
+    /**
+     * @notice Make EIP712 typed data digest
+     * @param domainSeparator   Domain separator
+     * @param typeHashAndData   Type hash concatenated with data
+     * @return Digest to be signed
+     */
+    function hashTypedData(
+        bytes32 domainSeparator,
+        bytes memory typeHashAndData
+    ) internal pure returns (bytes32) {
+        return
+            keccak256(
+                abi.encodePacked(
+                    "\x19\x01",
+                    domainSeparator,
+                    keccak256(typeHashAndData)
+                )
+            );
     }
 }
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+/**
+ * @dev ICrossDomainMessenger
+ * The messenger that relays calls between Ethereum and another chain, following the Optimism
+ * CrossDomainMessenger. Chains with a different messaging API are supported through an adapter.
+ */
+interface ICrossDomainMessenger {
+    /**
+     * @dev Sends a message to be relayed as a call to the target on the other chain.
+     * @param target The address called on the other chain.
+     * @param message The calldata of the call.
+     * @param gasLimit The gas limit of the call on the other chain.
+     */
+    function sendMessage(address target, bytes calldata message, uint32 gasLimit) external;
+
+    /**
+     * @dev Returns the sender of the message being relayed, on the chain the message was sent from.
+     */
+    function xDomainMessageSender() external view returns (address);
+}
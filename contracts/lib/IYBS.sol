@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+/**
+ * @dev IYBS
+ * The functions of the YBS token called by other contracts. YBS implements some of them in its
+ * modules, so callers use this interface instead of the YBSV1_1 contract type.
+ */
+interface IYBS {
+    // A multiplier and the time at which it becomes active
+    struct MultiplierCheckpoint {
+        uint256 multiplier;
+        uint256 effectiveTime;
+    }
+
+    /**
+     * @dev Returns the multiplier effective before multIncrTime.
+     */
+    function beforeIncrMult() external view returns (uint256);
+
+    /**
+     * @dev Returns the multiplier effective from multIncrTime.
+     */
+    function afterIncrMult() external view returns (uint256);
+
+    /**
+     * @dev Returns the time at which the multiplier changes from beforeIncrMult to afterIncrMult.
+     */
+    function multIncrTime() external view returns (uint256);
+
+    /**
+     * @dev Returns the multipliers queued after multIncrTime, ordered by effective time.
+     */
+    function getMultiplierSchedule() external view returns (MultiplierCheckpoint[] memory);
+
+    /**
+     * @dev Sets the multipliers relayed from Ethereum.
+     * @param beforeIncrMult The multiplier effective before multIncrTime.
+     * @param afterIncrMult The multiplier effective from multIncrTime.
+     * @param multIncrTime The time at which the multiplier increases.
+     * @param schedule The multipliers queued after multIncrTime, ordered by effective time.
+     */
+    function receiveRebaseMultipliers(
+        uint256 beforeIncrMult,
+        uint256 afterIncrMult,
+        uint256 multIncrTime,
+        MultiplierCheckpoint[] calldata schedule
+    ) external;
+
+    /**
+     * @dev Mints tokens to an account within the minting limit of the calling bridge.
+     * @param user The account to mint to.
+     * @param amount The amount to mint.
+     */
+    function mint(address user, uint256 amount) external;
+
+    /**
+     * @dev Burns tokens from an account within the burning limit of the calling bridge.
+     * @param user The account to burn from.
+     * @param amount The amount to burn.
+     */
+    function burn(address user, uint256 amount) external;
+
+    /**
+     * @dev Returns the rebase shares of an account.
+     */
+    function rebaseSharesOf(address account) external view returns (uint256);
+
+    /**
+     * @dev Returns the fixed shares of an account.
+     */
+    function fixedSharesOf(address account) external view returns (uint256);
+
+    /**
+     * @dev Converts rebase shares to tokens at the multiplier effective at a timestamp.
+     * @param shares The rebase shares to convert.
+     * @param timestamp The timestamp of the multiplier.
+     */
+    function convertToAmountAt(uint256 shares, uint256 timestamp) external view returns (uint256);
+}
@@ -9,6 +9,28 @@ import {PausableUpgradeable} from "@openzeppelin/contracts-upgradeable/security/
  * @custom:security-contact smart-contract-security@paxos.com
  */
 abstract contract PaxosBaseAbstract is PausableUpgradeable {
+    // Operation classes that can be paused independently, in addition to pausing the whole contract
+    enum PausableOperation {
+        Transfer,
+        Approval,
+        Authorization,
+        Wrap,
+        Rebase
+    }
+
+    event OperationPaused(PausableOperation indexed operation);
+    event OperationUnpaused(PausableOperation indexed operation);
+
+    error PausedOperation(PausableOperation operation);
+
+    /**
+     * @dev Modifier to make a function callable only when the operation class is not paused.
+     */
+    modifier whenOperationNotPaused(PausableOperation operation) {
+        if (isOperationPaused(operation)) revert PausedOperation(operation);
+        _;
+    }
+
     function _approve(
         address owner,
         address spender,
@@ -22,6 +44,7 @@ abstract contract PaxosBaseAbstract is PausableUpgradeable {
     ) internal virtual;
 
     function isAddrBlocked(address _addr) public view virtual returns (bool);
+    function isOperationPaused(PausableOperation operation) public view virtual returns (bool);
     function DOMAIN_SEPARATOR() public view virtual returns (bytes32);
 
     error ArgumentLengthMismatch();
@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {IERC1271Upgradeable} from "@openzeppelin/contracts-upgradeable/interfaces/IERC1271Upgradeable.sol";
+import {ECRecover} from "./ECRecover.sol";
+
+/**
+ * @title SignatureChecker
+ * @notice A library that verifies signatures from both EOAs and EIP1271 smart contract wallets
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+library SignatureChecker {
+    /**
+     * @dev Checks if a signature is valid for a given signer and digest. If the signer has code,
+     * the signature is validated with the signer's EIP1271 `isValidSignature` function, otherwise
+     * the signer is recovered from the ECDSA signature.
+     * Adapted from: https://github.com/OpenZeppelin/openzeppelin-contracts/blob/v4.9.0/contracts/utils/cryptography/SignatureChecker.sol
+     * Modifications: Only fall back to EIP1271 when the signer has code, use ECRecover for EOAs
+     * @param signer    Address of the expected signer
+     * @param digest    Keccak-256 hash digest of the signed message
+     * @param signature Signature bytes, packed as r, s, v for EOAs
+     * @return True if the signature is valid
+     */
+    function isValidSignatureNow(
+        address signer,
+        bytes32 digest,
+        bytes memory signature
+    ) internal view returns (bool) {
+        if (signer.code.length > 0) {
+            return isValidERC1271SignatureNow(signer, digest, signature);
+        }
+        return ECRecover.recover(digest, signature) == signer;
+    }
+
+    /**
+     * @dev Checks if a signature is valid for a given signer and digest using EIP1271.
+     * Returns false instead of reverting if the call fails or returns an unexpected value.
+     * @param signer    Address of the EIP1271 smart contract wallet
+     * @param digest    Keccak-256 hash digest of the signed message
+     * @param signature Signature bytes, in the format expected by the wallet
+     * @return True if the wallet returned the EIP1271 magic value
+     */
+    function isValidERC1271SignatureNow(
+        address signer,
+        bytes32 digest,
+        bytes memory signature
+    ) internal view returns (bool) {
+        // solhint-disable-next-line avoid-low-level-calls
+        (bool success, bytes memory result) = signer.staticcall(
+            abi.encodeWithSelector(IERC1271Upgradeable.isValidSignature.selector, digest, signature)
+        );
+        return (success &&
+            result.length >= 32 &&
+            abi.decode(result, (bytes32)) == bytes32(IERC1271Upgradeable.isValidSignature.selector));
+    }
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {IYBS} from "../lib/IYBS.sol";
+
+/**
+ * @title MockBridge
+ * @dev A minimal ERC7281 bridge adapter for testing. Mints tokens arriving from another chain
+ * and burns tokens leaving for another chain, within the limits the token sets for this bridge.
+ */
+contract MockBridge {
+    IYBS public token;
+
+    event BridgedIn(address indexed to, uint256 amount);
+    event BridgedOut(address indexed from, uint256 amount);
+
+    constructor(IYBS token_) {
+        token = token_;
+    }
+
+    function bridgeIn(address to, uint256 amount) external {
+        token.mint(to, amount);
+        emit BridgedIn(to, amount);
+    }
+
+    function bridgeOut(uint256 amount) external {
+        token.burn(msg.sender, amount);
+        emit BridgedOut(msg.sender, amount);
+    }
+}
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {ICrossDomainMessenger} from "../lib/ICrossDomainMessenger.sol";
+
+/**
+ * @title MockCrossDomainMessenger
+ * @dev A cross domain messenger for testing on a single chain. Sent messages are queued,
+ * and can be relayed in any order to simulate delayed or reordered delivery.
+ */
+contract MockCrossDomainMessenger is ICrossDomainMessenger {
+    struct Message {
+        address sender;
+        address target;
+        bytes message;
+    }
+
+    Message[] public messages;
+    address public xDomainMessageSender;
+
+    event SentMessage(address indexed target, address sender, bytes message, uint256 messageNonce, uint256 gasLimit);
+
+    function sendMessage(address target, bytes calldata message, uint32 gasLimit) external {
+        messages.push(Message(msg.sender, target, message));
+        emit SentMessage(target, msg.sender, message, messages.length - 1, gasLimit);
+    }
+
+    function relayMessage(uint256 messageNonce) external {
+        Message memory message = messages[messageNonce];
+
+        xDomainMessageSender = message.sender;
+        Address.functionCall(message.target, message.message);
+        delete xDomainMessageSender;
+    }
+}
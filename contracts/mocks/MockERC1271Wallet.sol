@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {IERC1271Upgradeable} from "@openzeppelin/contracts-upgradeable/interfaces/IERC1271Upgradeable.sol";
+import {ECRecover} from "../lib/ECRecover.sol";
+
+/**
+ * @title MockERC1271Wallet
+ * @dev A minimal EIP1271 smart contract wallet for testing. Signatures are valid when
+ * signed by the wallet owner.
+ */
+contract MockERC1271Wallet is IERC1271Upgradeable {
+    address public owner;
+
+    constructor(address owner_) {
+        owner = owner_;
+    }
+
+    function isValidSignature(
+        bytes32 hash,
+        bytes memory signature
+    ) external view returns (bytes4) {
+        if (signature.length == 65 && ECRecover.recover(hash, signature) == owner) {
+            return IERC1271Upgradeable.isValidSignature.selector;
+        }
+        return 0xffffffff;
+    }
+}
@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {MinimalForwarder} from "@openzeppelin/contracts/metatx/MinimalForwarder.sol";
+
+/**
+ * @title MockForwarder
+ * @dev A minimal ERC2771 forwarder for testing. Verifies EIP712 signed requests and
+ * appends the signer to the calldata of the forwarded call.
+ */
+contract MockForwarder is MinimalForwarder {}
@@ -0,0 +1,165 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {SafeERC20Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
+import {IERC20Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import {MathUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/math/MathUpgradeable.sol";
+import {wYBSV1Base} from "./wYBSV1Base.sol";
+
+/**
+ * @title wYBS admin module
+ * @dev Implements the blocklist, asset seizure, upgrade timelock, granular pause and balance history functions of wYBSV1.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+// solhint-disable-next-line contract-name-camelcase
+contract wYBSV1Admin is wYBSV1Base {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address nextModule) wYBSV1Base(nextModule) {}
+
+    /**
+     * @notice Pauses an operation class, independently of pause().
+     * @dev Restricted to PAUSE_ROLE.
+     * @param operation The operation class to pause.
+     */
+    function pauseOperation(PausableOperation operation) external onlyRole(PAUSE_ROLE) {
+        _pausedOperations[operation] = true;
+        emit OperationPaused(operation);
+    }
+
+    /**
+     * @notice Unpauses an operation class. Has no effect on pause().
+     * @dev Restricted to PAUSE_ROLE.
+     * @param operation The operation class to unpause.
+     */
+    function unpauseOperation(PausableOperation operation) external onlyRole(PAUSE_ROLE) {
+        delete _pausedOperations[operation];
+        emit OperationUnpaused(operation);
+    }
+
+    /**
+     * @notice Batch block accounts.
+     * @dev Restricted to ASSET_PROTECTION_ROLE.
+     * @param addresses list of addresses to block.
+     */
+    function blockAccounts(
+        address[] calldata addresses
+    ) external onlyRole(ASSET_PROTECTION_ROLE) {
+        for (uint256 i = 0; i < addresses.length;) {
+            _blockAccount(addresses[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Batch unblock accounts.
+     * @dev Restricted to ASSET_PROTECTION_ROLE.
+     * @param addresses list of addresses to unblock.
+     */
+    function unblockAccounts(
+        address[] calldata addresses
+    ) external onlyRole(ASSET_PROTECTION_ROLE) {
+        for (uint256 i = 0; i < addresses.length;) {
+            _unblockAccount(addresses[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Sets the ERC2771 trusted forwarder.
+     * @dev Restricted to DEFAULT_ADMIN_ROLE.
+     * Calls from the trusted forwarder are attributed to the address appended to the calldata,
+     * including calls to role restricted functions. The zero address disables forwarding.
+     * @param forwarder The new trusted forwarder.
+     */
+    function setTrustedForwarder(address forwarder) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        trustedForwarder = forwarder;
+        emit TrustedForwarderSet(forwarder);
+    }
+
+    /**
+     * @notice Proposes an upgrade, which can be activated with upgradeTo() or upgradeToAndCall()
+     * once the upgrade delay has passed.
+     * @dev Restricted to DEFAULT_ADMIN_ROLE. Replaces any pending proposal and restarts the delay.
+     * @param implementation The proposed implementation.
+     */
+    function proposeUpgrade(address implementation) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (implementation == address(0)) revert ZeroAddress();
+
+        pendingImplementation = implementation;
+        upgradeReadyTime = block.timestamp + upgradeDelay();
+        emit UpgradeProposed(implementation, upgradeReadyTime);
+    }
+
+    /**
+     * @notice Cancels the pending upgrade proposal.
+     * @dev Restricted to UPGRADE_GUARDIAN_ROLE.
+     */
+    function cancelUpgrade() external onlyRole(UPGRADE_GUARDIAN_ROLE) {
+        address implementation = pendingImplementation;
+        if (implementation == address(0)) revert NoPendingUpgrade();
+
+        _clearPendingUpgrade();
+        emit UpgradeCanceled(implementation);
+    }
+
+    /**
+     * @notice Sets the delay between proposing and activating an upgrade.
+     * @dev Restricted to DEFAULT_ADMIN_ROLE. An increase takes effect immediately, while a decrease
+     * takes effect once the current delay has passed, so lowering the delay cannot skip it.
+     * A pending proposal keeps its ready time.
+     * @param delay The new upgrade delay in seconds, between MIN_UPGRADE_DELAY and MAX_UPGRADE_DELAY.
+     */
+    function setUpgradeDelay(uint256 delay) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setUpgradeDelay(delay);
+    }
+
+    /**
+     * @dev Wipes the shares of a blocked address, and transfers assets to a receiver address.
+     * Restricted to ASSET_PROTECTION_ROLE.
+     * @param blockedAddr The blocked address to wipe.
+     * @param receiverAddr The address to send assets to.
+     */
+    function seizeAssets(
+        address blockedAddr, address receiverAddr
+    ) external onlyRole(ASSET_PROTECTION_ROLE) {
+        if (!_blocklist[blockedAddr]) revert AccountNotBlocked();
+        if (_blocklist[receiverAddr]) revert BlockedAccountReceiver();
+
+        uint256 shares = balanceOf(blockedAddr);
+        uint256 assets = previewRedeem(shares);
+        
+        _burn(blockedAddr, shares);
+        SafeERC20Upgradeable.safeTransfer(IERC20Upgradeable(asset()), receiverAddr, assets);
+
+        emit Withdraw(_msgSender(), receiverAddr, blockedAddr, assets, shares);
+        emit BlockedAccountWiped(blockedAddr);
+    }
+
+    /**
+     * @notice Returns the assets exchanged for an amount of shares at a timestamp.
+     * @dev Values the YBS held by this contract at the YBS multiplier for the timestamp, see YBSV1_1.convertToAmountAt().
+     * The current shares and holdings are used, so the result only reflects the rebases up to the timestamp.
+     * @param shares The amount of shares to convert.
+     * @param timestamp The timestamp of the YBS multiplier.
+     * @return An uint256 representing the assets, rounded down.
+     */
+    function convertToAssetsAt(uint256 shares, uint256 timestamp) public view returns (uint256) {
+        return MathUpgradeable.mulDiv(
+            shares,
+            _totalAssetsAt(timestamp) + 1,
+            totalSupply() + 10 ** _decimalsOffset(),
+            MathUpgradeable.Rounding.Down
+        );
+    }
+
+    /**
+     * @notice Simulates a redemption at a timestamp, e.g. once a pending YBS multiplier takes effect.
+     * @dev Like previewRedeem(), rounds down and equals convertToAssetsAt().
+     * @param shares The amount of shares to redeem.
+     * @param timestamp The timestamp of the redemption.
+     * @return An uint256 representing the assets that would be redeemed.
+     */
+    function previewRedeemAt(uint256 shares, uint256 timestamp) external view returns (uint256) {
+        return convertToAssetsAt(shares, timestamp);
+    }
+}
@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {ContextUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable.sol";
+import {PaxosBaseAbstract} from "./lib/PaxosBaseAbstract.sol";
+import {wYBSV1Base} from "./wYBSV1Base.sol";
+import {EIP2612} from "./lib/EIP2612.sol";
+import {EIP3009} from "./lib/EIP3009.sol";
+
+/**
+ * @title wYBS authorizations module
+ * @dev Implements the EIP2612 and EIP3009 authorizations and batch transfers of wYBSV1.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+// solhint-disable-next-line contract-name-camelcase
+contract wYBSV1Authorizations is wYBSV1Base, EIP2612, EIP3009 {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address nextModule) wYBSV1Base(nextModule) {}
+
+    /**
+     * @dev Transfer tokens from one set of addresses to another set in a single transaction.
+     * @param from The addresses which you want to send tokens from
+     * @param to The addresses which you want to transfer to
+     * @param amount The amounts of tokens to be transferred
+     * @return True if successful
+     */
+    function transferFromBatch(
+        address[] calldata from,
+        address[] calldata to,
+        uint256[] calldata amount
+    ) external returns (bool)
+    {
+        if (!(to.length == from.length && amount.length == from.length)) revert ArgumentLengthMismatch();
+        for (uint256 i = 0; i < from.length;) {
+            transferFrom(from[i], to[i], amount[i]);
+            unchecked { ++i; }
+        }
+        return true;
+    }
+
+    /**
+     * @dev Transfers tokens, see wYBSV1Base._transfer().
+     */
+    function _transfer(
+        address from,
+        address to,
+        uint256 amount
+    ) internal override(PaxosBaseAbstract, wYBSV1Base) {
+        super._transfer(from, to, amount);
+    }
+
+    /**
+     * @dev Sets an allowance, see wYBSV1Base._approve().
+     */
+    function _approve(
+        address owner,
+        address spender,
+        uint256 amount
+    ) internal override(PaxosBaseAbstract, wYBSV1Base) {
+        super._approve(owner, spender, amount);
+    }
+
+    /**
+     * @dev Returns the sender of the call, see wYBSV1Base._msgSender().
+     */
+    function _msgSender() internal view override(ContextUpgradeable, wYBSV1Base) returns (address) {
+        return super._msgSender();
+    }
+
+    /**
+     * @dev Returns the calldata of the call, see wYBSV1Base._msgData().
+     */
+    function _msgData() internal view override(ContextUpgradeable, wYBSV1Base) returns (bytes calldata) {
+        return super._msgData();
+    }
+}
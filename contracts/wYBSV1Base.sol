@@ -0,0 +1,450 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {ERC4626Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC4626Upgradeable.sol";
+import {ERC20Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
+import {IERC20Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import {AccessControlDefaultAdminRulesUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlDefaultAdminRulesUpgradeable.sol"; // solhint-disable-line max-line-length
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {PaxosBaseAbstract} from "./lib/PaxosBaseAbstract.sol";
+import {EIP2612Storage} from "./lib/EIP2612Storage.sol";
+import {EIP3009Storage} from "./lib/EIP3009Storage.sol";
+import {EIP712} from "./lib/EIP712.sol";
+import {IYBS} from "./lib/IYBS.sol";
+
+/**
+ * @title wYBS base contract
+ * @dev Holds the storage, roles, events, errors and functions shared by wYBSV1 and its modules.
+ * The modules run on the storage of the proxy through delegatecall, so they all inherit this storage layout.
+ * @custom:security-contact smart-contract-security@paxos.com
+ */
+// solhint-disable-next-line contract-name-camelcase
+abstract contract wYBSV1Base is
+    ERC4626Upgradeable,
+    AccessControlDefaultAdminRulesUpgradeable,
+    UUPSUpgradeable,
+    EIP2612Storage,
+    EIP3009Storage
+{
+    // BLOCKLIST / FREEZE & SEIZE
+    // Mapping of block/freeze status per account
+    mapping(address => bool) internal _blocklist;
+
+    // META-TRANSACTIONS
+    // The ERC2771 forwarder trusted to append the original sender to the calldata
+    address public trustedForwarder;
+
+    // EIP712 DOMAIN
+    // The EIP712 domain version, "1" while empty
+    string internal _domainVersion;
+
+    // GRANULAR PAUSE
+    // Mapping of pause status per operation class
+    mapping(PausableOperation => bool) internal _pausedOperations;
+
+    // UPGRADE TIMELOCK
+    // The implementation proposed for the next upgrade, zero while none is proposed
+    address public pendingImplementation;
+    // The time from which the proposed implementation can be activated
+    uint256 public upgradeReadyTime;
+    // The delay between proposing and activating an upgrade
+    uint256 internal _upgradeDelay;
+    // A lower delay that replaces _upgradeDelay at _upgradeDelayChangeTime
+    uint256 internal _pendingUpgradeDelay;
+    // The time at which _pendingUpgradeDelay takes effect, zero while no decrease is pending
+    uint256 internal _upgradeDelayChangeTime;
+    // Bounds of the upgrade delay, the lower bound is also the initial delay
+    uint256 public constant MIN_UPGRADE_DELAY = 1 days;
+    uint256 public constant MAX_UPGRADE_DELAY = 30 days;
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * Expected storage slots used by this contract, 50.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[41] private __gap_wYBS; // solhint-disable-line var-name-mixedcase
+
+    // Access control roles
+    /**
+     * @dev The role that allows accounts to pause the contract.
+     * Derived from keccak256("PAUSE_ROLE")
+     */
+    bytes32 public constant PAUSE_ROLE = 0x139c2898040ef16910dc9f44dc697df79363da767d8bc92f2e310312b816e46d;
+    /**
+     * @dev The role that can block accounts and seize assets.
+     * Derived from keccak256("ASSET_PROTECTION_ROLE")
+     */
+    bytes32 public constant ASSET_PROTECTION_ROLE = 0xe3e4f9d7569515307c0cdec302af069a93c9e33f325269bac70e6e22465a9796;
+    /**
+     * @dev The role that can cancel a proposed upgrade.
+     * Derived from keccak256("UPGRADE_GUARDIAN_ROLE")
+     */
+    bytes32 public constant UPGRADE_GUARDIAN_ROLE = 0x575b83ba8f51a644ba8b48cf3c34e86c07dc7b4f988d57a8ee1babd62db60b51;
+
+    // Events
+    event EIP712DomainChanged();
+    event AccountBlocked(address indexed account);
+    event AccountUnblocked(address indexed account);
+    event BlockedAccountWiped(address indexed account);
+    event TrustedForwarderSet(address indexed forwarder);
+    event UpgradeProposed(address indexed implementation, uint256 readyTime);
+    event UpgradeCanceled(address indexed implementation);
+    event UpgradeDelaySet(uint256 delay, uint256 effectiveTime);
+
+    // Errors
+    error ZeroAddress();
+    error InvalidOperation();
+    error NoPendingUpgrade();
+    error UpgradeNotProposed(address implementation);
+    error UpgradeNotReady(uint256 readyTime);
+    error InvalidUpgradeDelay(uint256 delay);
+
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address private immutable _NEXT_MODULE;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address nextModule) {
+        _NEXT_MODULE = nextModule;
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Delegates the calls to functions this contract does not implement to the next module.
+     * The modules form a chain set by their constructors, the last module has no next module and reverts.
+     * @custom:oz-upgrades-unsafe-allow delegatecall
+     */
+    // solhint-disable-next-line payable-fallback, no-complex-fallback
+    fallback() external {
+        address module = _NEXT_MODULE;
+
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            if iszero(module) { revert(0, 0) }
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
+        }
+    }
+
+    /**
+     * @dev Function to check whether the address is currently blocked.
+     * @param addr The address to check if blocked.
+     * @return A bool representing whether the given address is blocked.
+     */
+    function isAddrBlocked(address addr) public view override returns (bool) {
+        return _blocklist[addr];
+    }
+
+    /**
+     * @dev Function to check whether an operation class is paused, independently of paused().
+     * @param operation The operation class to check.
+     * @return A bool representing whether the given operation class is paused.
+     */
+    function isOperationPaused(PausableOperation operation) public view override returns (bool) {
+        return _pausedOperations[operation];
+    }
+
+    /**
+     * @dev Function to get the delay between proposing and activating an upgrade.
+     * @return An uint256 representing the upgrade delay in seconds.
+     */
+    function upgradeDelay() public view returns (uint256) {
+        if (_upgradeDelayChangeTime != 0 && block.timestamp >= _upgradeDelayChangeTime) {
+            return _pendingUpgradeDelay;
+        }
+        return _upgradeDelay;
+    }
+
+    /**
+     * @dev Function to check whether the address is the ERC2771 trusted forwarder.
+     * @param forwarder The address to check.
+     * @return A bool representing whether the given address is the trusted forwarder.
+     */
+    function isTrustedForwarder(address forwarder) public view returns (bool) {
+        return forwarder != address(0) && forwarder == trustedForwarder;
+    }
+
+    /**
+     * Get domain Separator.
+     */
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() public view override returns (bytes32) {
+        return EIP712.makeDomainSeparator(name(), _eip712Version());
+    }
+
+    /**
+     * @dev Transfer tokens to a specified address
+     * @param to The address to transfer to
+     * @param amount The amount to be transferred
+     * @return True when the operation was successful.
+     */
+    function transfer(
+        address to,
+        uint256 amount
+    ) public override(ERC20Upgradeable, IERC20Upgradeable) whenOperationNotPaused(PausableOperation.Transfer) returns (bool) {
+        return super.transfer(to, amount);
+    }
+
+    /**
+     * @dev Transfer tokens from one address to another
+     * @param from The address which you want to send tokens from
+     * @param to The address which you want to transfer to
+     * @param amount the amount of tokens to be transferred
+     * @return True when the operation was successful.
+     */
+    function transferFrom(
+        address from,
+        address to,
+        uint256 amount
+    ) public override(ERC20Upgradeable, IERC20Upgradeable) whenOperationNotPaused(PausableOperation.Transfer) returns (bool) {
+        if (_blocklist[_msgSender()]) revert BlockedAccountSpender();
+
+        return super.transferFrom(from, to, amount);
+    }
+
+    /**
+     * @dev Override the approve function to add blocklist checks.
+     * @param spender The address which will spend the funds.
+     * @param amount The amount of tokens to be spent.
+     * @return True when the operation was successful.
+     */
+    function approve(address spender, uint256 amount) public override(ERC20Upgradeable, IERC20Upgradeable)  returns (bool) {
+        _beforeApprove(_msgSender(), spender);
+
+        return super.approve(spender, amount);
+    }
+
+    /**
+     * @dev Override the increaseAllowance function to add blocklist checks.
+     * @param spender The address which will spend the funds.
+     * @param addedValue The amount of tokens to be spent.
+     * @return True when the operation was successful.
+     */
+    function increaseAllowance(address spender, uint256 addedValue) public override returns (bool) {
+        _beforeApprove(_msgSender(), spender);
+
+        return super.increaseAllowance(spender, addedValue);
+    }
+
+    /**
+     * @dev Override the decreaseAllowance function to add blocklist checks.
+     * _beforeApprove not used to allow decreasing an allowance for a blocklisted spender.
+     * @param spender The address which will spend the funds.
+     * @param subtractedValue The amount of tokens to be spent.
+     * @return True when the operation was successful.
+     */
+    function decreaseAllowance(
+        address spender,
+        uint256 subtractedValue
+    ) public override whenNotPaused whenOperationNotPaused(PausableOperation.Approval) returns (bool) {
+        if (_blocklist[_msgSender()]) revert BlockedAccountSender();
+
+        return super.decreaseAllowance(spender, subtractedValue);
+    }
+
+    /**
+     * @notice Override the _transfer function to implement PaxosBaseAbstract.
+     * @param from The address to transfer from.
+     * @param to The address to transfer to.
+     * @param amount The amount to be transferred.
+     */
+    function _transfer(address from, address to, uint256 amount) internal virtual override(ERC20Upgradeable, PaxosBaseAbstract) {
+        super._transfer(from, to, amount);
+    }
+
+    /**
+     * @dev Override the _approve function to implement PaxosBaseAbstract.
+     * @param owner The address which owns the funds.
+     * @param spender The address which will spend the funds.
+     * @param amount The amount of tokens to be approved.
+     */
+    function _approve(
+        address owner,
+        address spender,
+        uint256 amount
+    ) internal virtual override(ERC20Upgradeable, PaxosBaseAbstract) {
+        super._approve(owner, spender, amount);
+    }
+
+    /**
+     * @dev Override the _deposit function to add blocklist checks.
+     * @param caller The address which initiated the deposit.
+     * @param receiver The address which will receive the funds.
+     * @param assets The amount of assets to be deposited.
+     * @param shares The amount of shares to be minted.
+     */
+    function _deposit(
+        address caller,
+        address receiver,
+        uint256 assets,
+        uint256 shares
+    ) internal override whenOperationNotPaused(PausableOperation.Wrap) {
+        if (_blocklist[caller]) revert BlockedAccountSender();
+
+        super._deposit(caller, receiver, assets, shares);
+    }
+
+    /**
+     * @dev Override the _withdraw function to add blocklist checks.
+     * @param caller The address which initiated the withdrawal.
+     * @param receiver The address which will receive the funds.
+     * @param owner The address which owns the funds.
+     * @param assets The amount of assets to be withdrawn.
+     * @param shares The amount of shares to be burned.
+     */
+    function _withdraw(
+        address caller,
+        address receiver,
+        address owner,
+        uint256 assets,
+        uint256 shares
+    ) internal override whenOperationNotPaused(PausableOperation.Wrap) {
+        if (_blocklist[receiver]) revert BlockedAccountReceiver();
+        if (_blocklist[caller]) revert BlockedAccountSpender();
+
+        // ASSET_PROTECTION_ROLE should only be able to use seizeAssets() to withdraw from a blocked account.
+        if (hasRole(ASSET_PROTECTION_ROLE, caller) && _blocklist[owner]) revert InvalidOperation();
+
+        super._withdraw(caller, receiver, owner, assets, shares);
+    }
+
+    /**
+     * @dev Override the _beforeTokenTransfer function to add blocklist & pause checks.
+     * @param from The address to transfer from.
+     * @param to The address to transfer to.
+     * @param amount The amount to be transferred.
+     */
+    function _beforeTokenTransfer(address from, address to, uint256 amount) internal override {
+        // Bypass blocklist checks if transferring from blocked account when seizing assets via ASSET_PROTECTION_ROLE.
+        // Only for seizeAssets() which calls _burn() since _withdrawal() reverts for ASSET_PROTECTION_ROLE.
+        if (hasRole(ASSET_PROTECTION_ROLE, _msgSender()) && _blocklist[from] && to == address(0)) {
+            return;
+        }
+
+        if (_blocklist[from]) revert BlockedAccountSender();
+        if (_blocklist[to]) revert BlockedAccountReceiver();
+        _requireNotPaused();
+
+        super._beforeTokenTransfer(from, to, amount);
+    }
+
+    /**
+     * @dev required by the OZ UUPS module to authorize an upgrade 
+     * of the contract. Restricted to DEFAULT_ADMIN_ROLE, and to the proposed
+     * implementation once the upgrade delay has passed.
+     */
+    function _authorizeUpgrade(
+        address newImplementation
+    ) internal override onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newImplementation == address(0) || newImplementation != pendingImplementation) {
+            revert UpgradeNotProposed(newImplementation);
+        }
+        if (block.timestamp < upgradeReadyTime) revert UpgradeNotReady(upgradeReadyTime);
+
+        _clearPendingUpgrade();
+    }
+
+    /**
+     * @dev Sets the upgrade delay, see setUpgradeDelay().
+     * @param delay The new upgrade delay in seconds.
+     */
+    function _setUpgradeDelay(uint256 delay) internal {
+        if (delay < MIN_UPGRADE_DELAY || delay > MAX_UPGRADE_DELAY) revert InvalidUpgradeDelay(delay);
+
+        uint256 currentDelay = upgradeDelay();
+        uint256 effectiveTime = block.timestamp;
+
+        if (delay < currentDelay) {
+            effectiveTime += currentDelay;
+            _upgradeDelay = currentDelay;
+            _pendingUpgradeDelay = delay;
+            _upgradeDelayChangeTime = effectiveTime;
+        } else {
+            _upgradeDelay = delay;
+            delete _pendingUpgradeDelay;
+            delete _upgradeDelayChangeTime;
+        }
+
+        emit UpgradeDelaySet(delay, effectiveTime);
+    }
+
+    /**
+     * @dev Clears the pending upgrade proposal.
+     */
+    function _clearPendingUpgrade() internal {
+        delete pendingImplementation;
+        delete upgradeReadyTime;
+    }
+
+    /**
+     * @dev Returns the original sender of calls relayed by the trusted forwarder, as specified by ERC2771.
+     */
+    function _msgSender() internal view virtual override returns (address) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            return address(bytes20(msg.data[msg.data.length - 20:]));
+        }
+        return msg.sender;
+    }
+
+    /**
+     * @dev Returns the calldata of calls relayed by the trusted forwarder without the appended sender.
+     */
+    function _msgData() internal view virtual override returns (bytes calldata) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            return msg.data[:msg.data.length - 20];
+        }
+        return msg.data;
+    }
+
+    /**
+     * @dev Returns the EIP712 domain version, which defaults to "1" until it is set.
+     */
+    function _eip712Version() internal view returns (string memory) {
+        return bytes(_domainVersion).length == 0 ? "1" : _domainVersion;
+    }
+
+    /**
+     * @dev Internal function that returns the YBS held by this contract at a timestamp.
+     * @param timestamp The timestamp of the YBS multiplier.
+     * @return An uint256 representing the total assets.
+     */
+    function _totalAssetsAt(uint256 timestamp) internal view returns (uint256) {
+        IYBS ybs = IYBS(asset());
+        return ybs.convertToAmountAt(ybs.rebaseSharesOf(address(this)), timestamp) + ybs.fixedSharesOf(address(this));
+    }
+
+    /**
+     * @dev Internal function to add an account to the _blocklist.
+     * @param account The account to block.
+     */
+    function _blockAccount(address account) internal {
+        _blocklist[account] = true;
+        emit AccountBlocked(account);
+    }
+
+    /**
+     * @dev Internal function to remove an account from the _blocklist.
+     * @param account The account to unblock.
+     */
+    function _unblockAccount(address account) internal {
+        delete _blocklist[account];
+        emit AccountUnblocked(account);
+    }
+
+    /**
+     * @dev Internal function to check if the sender and spender are not blocked.
+     * @param sender The address to check if blocked.
+     * @param spender The address to check if blocked.
+     */
+    function _beforeApprove(
+        address sender,
+        address spender
+    ) internal view whenNotPaused whenOperationNotPaused(PausableOperation.Approval) {
+        if (_blocklist[sender]) revert BlockedAccountSender();
+        if (_blocklist[spender]) revert BlockedAccountSpender();
+    }
+}
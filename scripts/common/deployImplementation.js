@@ -1,15 +1,18 @@
 const { ethers } = require("hardhat");
 const { TOKEN_CONTRACT_NAME} = process.env;
 
-const { printDeployerDetails, printContractDetails, validateEnvironmentVariables } = require('../utils/helpers');
+const { deployModules, printDeployerDetails, printContractDetails, validateEnvironmentVariables } = require('../utils/helpers');
 
 async function main() {
   validateEnvironmentVariables([TOKEN_CONTRACT_NAME])
   printDeployerDetails();
 
+  console.log("\nDeploying the modules...")
+  const constructorArgs = await deployModules(TOKEN_CONTRACT_NAME);
+
   console.log("\nDeploying Implementation contract...")
   const contractFactoryImplementation = await ethers.getContractFactory(TOKEN_CONTRACT_NAME);
-  const contract = await contractFactoryImplementation.deploy();
+  const contract = await contractFactoryImplementation.deploy(...constructorArgs);
   await contract.waitForDeployment();
   await printContractDetails(contract, TOKEN_CONTRACT_NAME + " implementation ")
 }
@@ -20,6 +20,27 @@ async function printProxyAndImplementation(contract, contractName) {
   console.log("%s contract deploy tx: %s", contractName, contract.deploymentTransaction().hash)
 }
 
+// The modules of each token, in the order in which calls fall through them.
+const MODULES = {
+  YBSV1_1: ['YBSV1_1Authorizations', 'YBSV1_1Supply', 'YBSV1_1Rebasing', 'YBSV1_1Admin'],
+  wYBSV1: ['wYBSV1Authorizations', 'wYBSV1Admin'],
+};
+
+// Deploys the modules of a token from the last one, each forwarding to the next, and returns the
+// constructor arguments of the token implementation.
+async function deployModules(contractName) {
+  if (!MODULES[contractName]) return [];
+
+  let next = ethers.ZeroAddress;
+  for (const moduleName of [...MODULES[contractName]].reverse()) {
+    const contract = await ethers.deployContract(moduleName, [next]);
+    await contract.waitForDeployment();
+    await printContractDetails(contract, moduleName);
+    next = await contract.getAddress();
+  }
+  return [next];
+}
+
 // Throws an error if any of the arguments are falsy or undefined.
 function validateEnvironmentVariables(args) {
   args.forEach((arg, index) => {
@@ -30,6 +51,7 @@ function validateEnvironmentVariables(args) {
 }
 
 module.exports = {
+  deployModules,
   printDeployerDetails,
   printContractDetails,
   printProxyAndImplementation,
@@ -1,6 +1,6 @@
 const { ethers, upgrades } = require("hardhat");
 const { getImplementationAddress } = require('@openzeppelin/upgrades-core');
-const { validateEnvironmentVariables } = require('../utils/helpers');
+const { deployModules, validateEnvironmentVariables } = require('../utils/helpers');
 
 require("dotenv").config();
 
@@ -25,12 +25,16 @@ const main = async () => {
   const balance = await ethers.provider.getBalance(deployer.address);
   console.log('Account balance: %s', ethers.formatEther(balance));
 
+  console.log("\nDeploying the modules...")
+  const constructorArgs = await deployModules('wYBSV1');
+
   console.log("\nDeploying the contract...")
 
   const contractFactory = await ethers.getContractFactory('wYBSV1');
   const contract = await upgrades.deployProxy(contractFactory, initializerArgs, {
     initializer: 'initialize',
     kind: 'uups',
+    constructorArgs,
   });
 
   console.log("Deploy tx: %s", contract.deploymentTransaction().hash)
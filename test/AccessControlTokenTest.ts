@@ -1,10 +1,10 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, ZeroAddress, parseUnits, MaxUint256 } from "ethers";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 
 import { roles } from "./helpers/constants";
-import { deployYBSFixture } from "./helpers/fixtures";
+import { deployYBSFixture, deployImplementation } from "./helpers/fixtures";
 
 describe("YBS Access Controlled Token", function () {
   describe("supply controller role", function () {
@@ -389,11 +389,59 @@ describe("YBS Access Controlled Token", function () {
     });
   });
 
+  describe("rebase decrease role", function () {
+    it("decreases the rebase multiplier with rebase decrease role", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.grantRole(roles.REBASE_DECREASE_ROLE, addr1.address);
+
+      await expect(
+        (contract.connect(addr1) as Contract).decreaseRebaseMultiplier(1, 0)
+      ).to.not.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${
+          roles.REBASE_DECREASE_ROLE
+        }`
+      );
+    });
+
+    it("does not decrease the rebase multiplier without rebase decrease role", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect(
+        (contract.connect(addr1) as Contract).decreaseRebaseMultiplier(1, 0)
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${
+          roles.REBASE_DECREASE_ROLE
+        }`
+      );
+    });
+
+    it("grants the rebase decrease role to the rebaser admin on initialization", async () => {
+      const { contract, admin } = await loadFixture(deployYBSFixture);
+
+      expect(await contract.hasRole(roles.REBASE_DECREASE_ROLE, admin.address)).to.be.true;
+    });
+
+    it("cannot set the max rebase decrease rate without rebase-admin role", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect(
+        (contract.connect(addr1) as Contract).setMaxRebaseDecreaseRate(1)
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${
+          roles.REBASE_ADMIN_ROLE
+        }`
+      );
+    });
+  });
+
   describe("default admin role", function () {
     it("can upgrade with admin role", async () => {
       const { contract } = await loadFixture(deployYBSFixture);
-      const newContract = await ethers.deployContract("YBSV1_1");
+      const newContract = await deployImplementation();
 
+      await contract.proposeUpgrade(newContract);
+      await time.increase(await contract.upgradeDelay());
       await expect(contract.upgradeTo(newContract)).to.not.be.reverted;
     });
 
@@ -1,8 +1,10 @@
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
+import { ethers } from "hardhat";
 import { Contract, ZeroAddress } from "ethers";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 import { NAME, SYMBOL, DECIMALS, CONTRACT_NAME, roles } from "./helpers/constants";
+import { getBlockTimestamp } from "./helpers/commonutil";
+import { deployTokenProxy } from "./helpers/fixtures";
 
 describe("YBS Asset Protection", function () {
   const amount = 10;
@@ -22,10 +24,7 @@ describe("YBS Asset Protection", function () {
       admin.address,
     ];
 
-    const YBS = await ethers.getContractFactory(CONTRACT_NAME);
-    const contract = await upgrades.deployProxy(YBS, initializerArgs, {
-      initializer: "initialize",
-    });
+    const contract = await deployTokenProxy(CONTRACT_NAME, initializerArgs);
 
     await contract.increaseSupply(100);
 
@@ -404,4 +403,201 @@ describe("YBS Asset Protection", function () {
 
   });
 
+  describe("Yield ineligible test suite", () => {
+    const base = 10n ** 18n;
+
+    // Doubles the multiplier so that yield-eligible balances double.
+    async function rebase(contract: Contract) {
+      const multiplier = 2n * base;
+      const expectedTotalSupply =
+        (await contract.totalRebaseShares()) * multiplier / base + (await contract.totalFixedShares());
+
+      await contract.setMaxRebaseRate(base);
+      await contract.setNextMultiplier(multiplier, await getBlockTimestamp() + 1, expectedTotalSupply);
+      await time.increase(1);
+    }
+
+    it("marks single account as yield-ineligible", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.transfer(addr1, amount);
+
+      await expect(contract.setYieldIneligibleAccounts([addr1.address]))
+        .to.emit(contract, "AccountYieldIneligible")
+        .withArgs(addr1.address);
+
+      expect(await contract.isAddrYieldIneligible(addr1.address)).to.be.true;
+      expect(await contract.isAddrBlocked(addr1.address)).to.be.false;
+      expect(await contract.isRebasingAccount(addr1.address)).to.be.false;
+      expect(await contract.rebaseSharesOf(addr1.address)).to.be.equal(0);
+      expect(await contract.fixedSharesOf(addr1.address)).to.be.equal(amount);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+    });
+
+    it("marks multiple accounts as yield-ineligible", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.setYieldIneligibleAccounts([addr1.address, addr2.address]))
+        .to.emit(contract, "AccountYieldIneligible")
+        .withArgs(addr1.address).to.emit(contract, "AccountYieldIneligible")
+        .withArgs(addr2.address);
+
+      expect(await contract.isAddrYieldIneligible(addr1.address)).to.be.true;
+      expect(await contract.isAddrYieldIneligible(addr2.address)).to.be.true;
+    });
+
+    it("marks single account as yield-eligible again", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.transfer(addr1, amount);
+      await contract.setYieldIneligibleAccounts([addr1.address]);
+
+      await expect(contract.unsetYieldIneligibleAccounts([addr1.address]))
+        .to.emit(contract, "AccountYieldEligible")
+        .withArgs(addr1.address);
+
+      expect(await contract.isAddrYieldIneligible(addr1.address)).to.be.false;
+      expect(await contract.isRebasingAccount(addr1.address)).to.be.true;
+      expect(await contract.rebaseSharesOf(addr1.address)).to.be.equal(amount);
+      expect(await contract.fixedSharesOf(addr1.address)).to.be.equal(0);
+    });
+
+    it("marks multiple accounts as yield-eligible again", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+      await contract.setYieldIneligibleAccounts([addr1.address, addr2.address]);
+
+      await expect(contract.unsetYieldIneligibleAccounts([addr1.address, addr2.address]))
+        .to.emit(contract, "AccountYieldEligible")
+        .withArgs(addr1.address).to.emit(contract, "AccountYieldEligible")
+        .withArgs(addr2.address);
+
+      expect(await contract.isAddrYieldIneligible(addr1.address)).to.be.false;
+      expect(await contract.isAddrYieldIneligible(addr2.address)).to.be.false;
+    });
+
+    it("keeps blocked accounts on fixed shares when marked yield-eligible", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.transfer(addr1, amount);
+      await contract.setYieldIneligibleAccounts([addr1.address]);
+      await contract.blockAccounts([addr1.address]);
+
+      await contract.unsetYieldIneligibleAccounts([addr1.address]);
+      expect(await contract.fixedSharesOf(addr1.address)).to.be.equal(amount);
+
+      await contract.unblockAccounts([addr1.address]);
+      expect(await contract.rebaseSharesOf(addr1.address)).to.be.equal(amount);
+      expect(await contract.fixedSharesOf(addr1.address)).to.be.equal(0);
+    });
+
+    it("keeps yield-ineligible accounts on fixed shares when unblocked", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.transfer(addr1, amount);
+      await contract.blockAccounts([addr1.address]);
+      await contract.setYieldIneligibleAccounts([addr1.address]);
+
+      await contract.unblockAccounts([addr1.address]);
+      expect(await contract.isAddrBlocked(addr1.address)).to.be.false;
+      expect(await contract.fixedSharesOf(addr1.address)).to.be.equal(amount);
+    });
+
+    it("keeps yield-ineligible accounts on fixed shares when opting in to yield", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.transfer(addr1, amount);
+      await (contract.connect(addr1) as Contract).optOutOfYield();
+      await contract.setYieldIneligibleAccounts([addr1.address]);
+
+      await (contract.connect(addr1) as Contract).optInToYield();
+      expect(await contract.isYieldOptedOut(addr1.address)).to.be.false;
+      expect(await contract.fixedSharesOf(addr1.address)).to.be.equal(amount);
+    });
+
+    it("yield-ineligible accounts do not earn yield", async () => {
+      const { contract, admin, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.transfer(addr1, amount);
+      await contract.setYieldIneligibleAccounts([addr1.address]);
+
+      await rebase(contract);
+
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+      expect(await contract.balanceOf(admin.address)).to.be.equal((100 - amount) * 2);
+    });
+
+    it("yield-ineligible accounts can transfer to yield-eligible accounts", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+      await contract.transfer(addr1, amount);
+      await contract.setYieldIneligibleAccounts([addr1.address]);
+
+      await expect((contract.connect(addr1) as Contract).transfer(addr2, amount))
+        .to.emit(contract, "Transfer")
+        .withArgs(addr1.address, addr2.address, amount);
+
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(0);
+      expect(await contract.balanceOf(addr2.address)).to.be.equal(amount);
+      expect(await contract.rebaseSharesOf(addr2.address)).to.be.equal(amount);
+      expect(await contract.totalFixedShares()).to.be.equal(0);
+    });
+
+    it("yield-ineligible accounts can receive from yield-eligible accounts", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.setYieldIneligibleAccounts([addr1.address]);
+
+      await expect(contract.transfer(addr1, amount)).to.not.reverted;
+
+      expect(await contract.fixedSharesOf(addr1.address)).to.be.equal(amount);
+      expect(await contract.totalFixedShares()).to.be.equal(amount);
+      expect(await contract.totalSupply()).to.be.equal(100);
+    });
+
+    it("yield-ineligible accounts can transferFrom and approve", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployYBSFixture);
+      await contract.transfer(addr1, amount);
+      await contract.setYieldIneligibleAccounts([addr1.address, addr2.address]);
+
+      await expect(contract.transferFrom(addr1.address, addr2.address, amount)).to.not.reverted;
+      expect(await contract.fixedSharesOf(addr2.address)).to.be.equal(amount);
+
+      await expect((contract.connect(addr2) as Contract).approve(admin.address, amount)).to.not.reverted;
+    });
+
+    it("increaseSupply from a yield-ineligible supply controller mints fixed shares", async () => {
+      const { contract, admin } = await loadFixture(deployYBSFixture);
+      await contract.setYieldIneligibleAccounts([admin.address]);
+
+      await contract.increaseSupply(amount);
+      expect(await contract.fixedSharesOf(admin.address)).to.be.equal(100 + amount);
+
+      await contract.decreaseSupply(amount);
+      expect(await contract.fixedSharesOf(admin.address)).to.be.equal(100);
+    });
+
+    it("reverts when unsetting yield-ineligible accounts with a pending multiplier", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.setYieldIneligibleAccounts([addr1.address]);
+      await contract.setMaxRebaseRate(base);
+      await contract.setNextMultiplier(2n * base, await getBlockTimestamp() + 100, 200);
+
+      await expect(
+        contract.unsetYieldIneligibleAccounts([addr1.address])
+      ).to.be.revertedWithCustomError(contract, "CannotChangeRebaseSharesWithPendingMultiplier");
+    });
+
+    it("reverts when setting yield-ineligible accounts without asset protection role", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect(
+        (contract.connect(addr1) as Contract).setYieldIneligibleAccounts([addr1.address])
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.ASSET_PROTECTION_ROLE}`
+      );
+    });
+
+    it("reverts when unsetting yield-ineligible accounts without asset protection role", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect(
+        (contract.connect(addr1) as Contract).unsetYieldIneligibleAccounts([addr1.address])
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.ASSET_PROTECTION_ROLE}`
+      );
+    });
+  });
+
 });
@@ -0,0 +1,266 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, parseUnits } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { roles, operations } from "./helpers/constants";
+import { deployYBS } from "./helpers/fixtures";
+import { getBlockTimestamp } from "./helpers/commonutil";
+
+describe("YBS Bridge", function () {
+  const base = parseUnits("1");
+  const totalSupply = parseUnits("100");
+  const mintingLimit = parseUnits("1000");
+  const burningLimit = parseUnits("500");
+  const amount = parseUnits("100");
+  const day = 24 * 60 * 60;
+  const rebasePeriod = 10;
+
+  async function deployBridgeFixture() {
+    const [admin, addr1, addr2] = await ethers.getSigners();
+
+    const contract = await deployYBS();
+    await contract.increaseSupply(totalSupply);
+    await contract.setRebasePeriod(rebasePeriod);
+    await contract.setMaxRebaseRate(base);
+
+    const bridge = await ethers.deployContract("MockBridge", [await contract.getAddress()]);
+    await contract.setLimits(bridge, mintingLimit, burningLimit);
+
+    return { contract, bridge, admin, addr1, addr2 };
+  }
+
+  describe("Limits", () => {
+    it("sets the limits of a bridge", async () => {
+      const { contract, bridge } = await loadFixture(deployBridgeFixture);
+      const bridgeAddress = await bridge.getAddress();
+
+      expect(await contract.mintingMaxLimitOf(bridgeAddress)).to.equal(mintingLimit);
+      expect(await contract.burningMaxLimitOf(bridgeAddress)).to.equal(burningLimit);
+      expect(await contract.mintingCurrentLimitOf(bridgeAddress)).to.equal(mintingLimit);
+      expect(await contract.burningCurrentLimitOf(bridgeAddress)).to.equal(burningLimit);
+
+      const newMintingLimit = parseUnits("2000");
+      await expect(contract.setLimits(bridgeAddress, newMintingLimit, 0))
+        .to.emit(contract, "BridgeLimitsSet")
+        .withArgs(newMintingLimit, 0, bridgeAddress);
+
+      expect(await contract.mintingMaxLimitOf(bridgeAddress)).to.equal(newMintingLimit);
+      expect(await contract.burningMaxLimitOf(bridgeAddress)).to.equal(0);
+      expect(await contract.burningCurrentLimitOf(bridgeAddress)).to.equal(0);
+    });
+
+    it("refills the limits over a day", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployBridgeFixture);
+      const bridgeAddress = await bridge.getAddress();
+
+      await bridge.bridgeIn(addr1.address, mintingLimit);
+      expect(await contract.mintingCurrentLimitOf(bridgeAddress)).to.equal(0);
+      const mintTime = await getBlockTimestamp();
+
+      await time.increaseTo(mintTime + day / 2);
+      expect(await contract.mintingCurrentLimitOf(bridgeAddress)).to.equal(mintingLimit / 2n);
+
+      await time.increaseTo(mintTime + 2 * day);
+      expect(await contract.mintingCurrentLimitOf(bridgeAddress)).to.equal(mintingLimit);
+    });
+
+    it("reverts when setting limits without the admin role", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployBridgeFixture);
+
+      await expect((contract.connect(addr1) as Contract).setLimits(bridge, mintingLimit, burningLimit))
+        .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.DEFAULT_ADMIN_ROLE}`);
+    });
+
+    it("reverts when setting limits for the zero address", async () => {
+      const { contract } = await loadFixture(deployBridgeFixture);
+
+      await expect(contract.setLimits(ethers.ZeroAddress, mintingLimit, burningLimit))
+        .to.be.revertedWithCustomError(contract, "ZeroAddress");
+    });
+  });
+
+  describe("Mint", () => {
+    it("mints through a bridge", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployBridgeFixture);
+
+      await expect(bridge.bridgeIn(addr1.address, amount))
+        .to.emit(contract, "Transfer")
+        .withArgs(ethers.ZeroAddress, addr1.address, amount)
+        .to.emit(contract, "SupplyIncreased")
+        .withArgs(addr1.address, amount);
+
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount);
+      expect(await contract.totalSupply()).to.equal(totalSupply + amount);
+      expect(await contract.mintingCurrentLimitOf(bridge)).to.equal(mintingLimit - amount);
+    });
+
+    it("reverts when minting above the bridge limit", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployBridgeFixture);
+
+      await bridge.bridgeIn(addr1.address, mintingLimit - amount);
+
+      // the limit refills for a second before the next mint
+      const capacity = amount + mintingLimit / BigInt(day);
+      await expect(bridge.bridgeIn(addr1.address, capacity + 1n))
+        .to.be.revertedWithCustomError(contract, "BridgeMintLimitExceeded")
+        .withArgs(await bridge.getAddress(), capacity, capacity + 1n);
+    });
+
+    it("reverts when minting without limits", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployBridgeFixture);
+
+      await expect((contract.connect(addr1) as Contract).mint(addr2.address, 1))
+        .to.be.revertedWithCustomError(contract, "BridgeMintLimitExceeded")
+        .withArgs(addr1.address, 0, 1);
+    });
+
+    it("reverts when minting to a blocked account", async () => {
+      const { contract, bridge, addr1, addr2 } = await loadFixture(deployBridgeFixture);
+
+      await contract.blockAccounts([addr1.address]);
+      await contract.blockAccountsFromReceiving([addr2.address]);
+
+      await expect(bridge.bridgeIn(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "BlockedAccountReceiver");
+      await expect(bridge.bridgeIn(addr2.address, amount))
+        .to.be.revertedWithCustomError(contract, "BlockedAccountReceiver");
+    });
+
+    it("reverts when minting from a blocked bridge", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployBridgeFixture);
+
+      await contract.blockAccounts([await bridge.getAddress()]);
+
+      await expect(bridge.bridgeIn(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "BlockedAccountSender");
+    });
+  });
+
+  describe("Burn", () => {
+    async function deployFundedBridgeFixture() {
+      const { contract, bridge, admin, addr1, addr2 } = await loadFixture(deployBridgeFixture);
+
+      await bridge.bridgeIn(addr1.address, amount);
+      await (contract.connect(addr1) as Contract).approve(bridge, amount);
+
+      return { contract, bridge, admin, addr1, addr2 };
+    }
+
+    it("burns through a bridge", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployFundedBridgeFixture);
+
+      await expect(bridge.connect(addr1).bridgeOut(amount))
+        .to.emit(contract, "Transfer")
+        .withArgs(addr1.address, ethers.ZeroAddress, amount)
+        .to.emit(contract, "SupplyDecreased")
+        .withArgs(addr1.address, amount);
+
+      expect(await contract.balanceOf(addr1.address)).to.equal(0);
+      expect(await contract.totalSupply()).to.equal(totalSupply);
+      expect(await contract.allowance(addr1.address, bridge)).to.equal(0);
+      expect(await contract.burningCurrentLimitOf(bridge)).to.equal(burningLimit - amount);
+    });
+
+    it("reverts when burning without an allowance", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployFundedBridgeFixture);
+
+      await (contract.connect(addr1) as Contract).approve(bridge, amount - 1n);
+
+      await expect(bridge.connect(addr1).bridgeOut(amount))
+        .to.be.revertedWithCustomError(contract, "ERC20InsufficientAllowance")
+        .withArgs(await bridge.getAddress(), amount - 1n, amount);
+    });
+
+    it("reverts when burning above the bridge limit", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployFundedBridgeFixture);
+
+      await contract.setLimits(bridge, mintingLimit, amount - 1n);
+
+      await expect(bridge.connect(addr1).bridgeOut(amount))
+        .to.be.revertedWithCustomError(contract, "BridgeBurnLimitExceeded")
+        .withArgs(await bridge.getAddress(), amount - 1n, amount);
+    });
+
+    it("reverts when burning from a blocked account", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployFundedBridgeFixture);
+
+      await contract.blockAccounts([addr1.address]);
+
+      await expect(bridge.connect(addr1).bridgeOut(amount))
+        .to.be.revertedWithCustomError(contract, "BlockedAccountSender");
+    });
+  });
+
+  describe("Supply rate limits", () => {
+    it("does not spend the supply controller's rate limits", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployBridgeFixture);
+
+      await contract.setMintRateLimit(amount, day);
+      await contract.setBurnRateLimit(amount, day);
+
+      await bridge.bridgeIn(addr1.address, amount * 2n);
+      await (contract.connect(addr1) as Contract).approve(bridge, amount * 2n);
+      await bridge.connect(addr1).bridgeOut(amount * 2n);
+
+      expect(await contract.mintCapacity()).to.equal(amount);
+      expect(await contract.burnCapacity()).to.equal(amount);
+      await expect(contract.increaseSupply(amount)).not.to.be.reverted;
+      await expect(contract.decreaseSupply(amount)).not.to.be.reverted;
+    });
+  });
+
+  describe("Pause", () => {
+    it("reverts when the contract is paused", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployBridgeFixture);
+
+      await bridge.bridgeIn(addr1.address, amount);
+      await (contract.connect(addr1) as Contract).approve(bridge, amount);
+      await contract.pause();
+
+      await expect(bridge.bridgeIn(addr1.address, amount)).to.be.revertedWith("Pausable: paused");
+      await expect(bridge.connect(addr1).bridgeOut(amount)).to.be.revertedWith("Pausable: paused");
+    });
+
+    it("reverts when transfers are paused", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployBridgeFixture);
+
+      await bridge.bridgeIn(addr1.address, amount);
+      await (contract.connect(addr1) as Contract).approve(bridge, amount);
+      await contract.pauseOperation(operations.TRANSFER);
+
+      await expect(bridge.bridgeIn(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.TRANSFER);
+      await expect(bridge.connect(addr1).bridgeOut(amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.TRANSFER);
+
+      // the supply controller can still mint
+      await expect(contract.increaseSupply(amount)).not.to.be.reverted;
+
+      await contract.unpauseOperation(operations.TRANSFER);
+      await bridge.connect(addr1).bridgeOut(amount);
+      expect(await contract.balanceOf(addr1.address)).to.equal(0);
+    });
+  });
+
+  describe("Pending multiplier", () => {
+    it("mints and burns with a pending multiplier", async () => {
+      const { contract, bridge, addr1 } = await loadFixture(deployBridgeFixture);
+
+      await bridge.bridgeIn(addr1.address, amount);
+      await (contract.connect(addr1) as Contract).approve(bridge, amount);
+
+      const afterIncrMult = parseUnits("1.0002");
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await contract.setNextMultiplier(afterIncrMult, effectTime, (totalSupply + amount) * afterIncrMult / base);
+
+      await bridge.bridgeIn(addr1.address, amount);
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount * 2n);
+      await bridge.connect(addr1).bridgeOut(amount);
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount);
+
+      await time.increaseTo(effectTime);
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount * afterIncrMult / base);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, MaxUint256, parseUnits } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { roles } from "./helpers/constants";
+import { deployYBS } from "./helpers/fixtures";
+import { getBlockTimestamp } from "./helpers/commonutil";
+
+describe("YBS Cross-Chain Rebase", function () {
+  const base = parseUnits("1");
+  const totalSupply = parseUnits("100");
+  const afterIncrMult = parseUnits("1.0002");
+  const rebasePeriod = 10;
+  const gasLimit = 1000000;
+
+  async function deployRebasingYBS() {
+    const contract = await deployYBS();
+    await contract.increaseSupply(totalSupply);
+    await contract.setRebasePeriod(rebasePeriod);
+    await contract.setMaxRebaseRate(base);
+
+    return contract;
+  }
+
+  async function deployCrossChainFixture() {
+    const [admin, addr1] = await ethers.getSigners();
+
+    const l1Contract = await deployRebasingYBS();
+    const l2Contract = await deployRebasingYBS();
+
+    const messenger = await ethers.deployContract("MockCrossDomainMessenger");
+    const broadcaster = await ethers.deployContract("RebaseBroadcaster", [l1Contract, messenger]);
+    const receiver = await ethers.deployContract("RebaseReceiver", [l2Contract, messenger, broadcaster]);
+    await l2Contract.grantRole(roles.REBASE_RECEIVER_ROLE, receiver);
+
+    return { l1Contract, l2Contract, messenger, broadcaster, receiver, admin, addr1 };
+  }
+
+  async function expectSameMultipliers(l1Contract: Contract, l2Contract: Contract) {
+    expect(await l2Contract.beforeIncrMult()).to.equal(await l1Contract.beforeIncrMult());
+    expect(await l2Contract.afterIncrMult()).to.equal(await l1Contract.afterIncrMult());
+    expect(await l2Contract.multIncrTime()).to.equal(await l1Contract.multIncrTime());
+  }
+
+  it("propagates the multipliers from Ethereum", async () => {
+    const { l1Contract, l2Contract, messenger, broadcaster, receiver } = await loadFixture(deployCrossChainFixture);
+
+    const effectTime = await getBlockTimestamp() + rebasePeriod;
+    await l1Contract.setNextMultiplier(afterIncrMult, effectTime, totalSupply * afterIncrMult / base);
+
+    await expect(broadcaster.broadcast(receiver, gasLimit))
+      .to.emit(broadcaster, "MultipliersBroadcast")
+      .withArgs(1, await receiver.getAddress(), base, afterIncrMult, effectTime);
+
+    await expect(messenger.relayMessage(0))
+      .to.emit(receiver, "MultipliersReceived")
+      .withArgs(1, base, afterIncrMult, effectTime)
+      .to.emit(l2Contract, "RebaseMultipliersSet")
+      .withArgs(base, afterIncrMult, effectTime);
+
+    await expectSameMultipliers(l1Contract, l2Contract);
+    expect(await receiver.lastNonce()).to.equal(1);
+
+    await time.increaseTo(effectTime);
+    expect(await l2Contract.totalSupply()).to.equal(await l1Contract.totalSupply());
+  });
+
+  it("rejects stale and out of order messages", async () => {
+    const { l1Contract, l2Contract, messenger, broadcaster, receiver } = await loadFixture(deployCrossChainFixture);
+
+    const effectTime = await getBlockTimestamp() + rebasePeriod;
+    await l1Contract.setNextMultiplier(afterIncrMult, effectTime, totalSupply * afterIncrMult / base);
+    await broadcaster.broadcast(receiver, gasLimit);
+
+    const nextMult = parseUnits("1.0004");
+    await l1Contract.setNextMultiplier(nextMult, effectTime + rebasePeriod, totalSupply * nextMult / base);
+    await broadcaster.broadcast(receiver, gasLimit);
+
+    // the second message arrives first
+    await messenger.relayMessage(1);
+    await expectSameMultipliers(l1Contract, l2Contract);
+
+    await expect(messenger.relayMessage(0))
+      .to.be.revertedWithCustomError(receiver, "StaleMessage")
+      .withArgs(1, 2);
+
+    await expect(messenger.relayMessage(1))
+      .to.be.revertedWithCustomError(receiver, "StaleMessage")
+      .withArgs(2, 2);
+
+    await expectSameMultipliers(l1Contract, l2Contract);
+  });
+
+  it("rolls forward queued multipliers that took effect", async () => {
+    const { l1Contract, l2Contract, messenger, broadcaster, receiver } = await loadFixture(deployCrossChainFixture);
+
+    const rebaseRate = parseUnits("0.0002");
+    const firstMult = base * (base + rebaseRate) / base;
+    const secondMult = firstMult * (base + rebaseRate) / base;
+
+    const effectTime = await getBlockTimestamp() + rebasePeriod;
+    await l1Contract.setRebasePeriod(effectTime);
+    await l1Contract.increaseRebaseMultiplier(rebaseRate, totalSupply * firstMult / base);
+    await l1Contract.setRebasePeriod(rebasePeriod);
+    await l1Contract.increaseRebaseMultiplier(rebaseRate, totalSupply * secondMult / base);
+
+    await time.increaseTo(effectTime);
+    expect(await broadcaster.currentMultipliers()).to.deep.equal([firstMult, secondMult, effectTime + rebasePeriod, []]);
+
+    await broadcaster.broadcast(receiver, gasLimit);
+    await messenger.relayMessage(0);
+
+    expect(await l2Contract.beforeIncrMult()).to.equal(firstMult);
+    expect(await l2Contract.afterIncrMult()).to.equal(secondMult);
+    expect(await l2Contract.multIncrTime()).to.equal(effectTime + rebasePeriod);
+    expect(await l2Contract.getActiveMultiplier()).to.equal(await l1Contract.getActiveMultiplier());
+  });
+
+  it("relays the multipliers queued on Ethereum", async () => {
+    const { l1Contract, l2Contract, messenger, broadcaster, receiver } = await loadFixture(deployCrossChainFixture);
+
+    const rebaseRate = parseUnits("0.0002");
+    const effectTime = await getBlockTimestamp() + rebasePeriod;
+    await l1Contract.setRebasePeriod(effectTime);
+    await l1Contract.increaseRebaseMultiplier(rebaseRate, MaxUint256);
+    await l1Contract.setRebasePeriod(rebasePeriod);
+    await l1Contract.increaseRebaseMultiplierBatch([rebaseRate, rebaseRate], [MaxUint256, MaxUint256]);
+
+    const schedule = await l1Contract.getMultiplierSchedule();
+    await broadcaster.broadcast(receiver, gasLimit);
+    await expect(messenger.relayMessage(0))
+      .to.emit(l2Contract, "RebaseMultiplierScheduled")
+      .withArgs(await l1Contract.afterIncrMult(), schedule[0].multiplier, schedule[0].effectiveTime);
+
+    await expectSameMultipliers(l1Contract, l2Contract);
+    expect(await l2Contract.getMultiplierSchedule()).to.deep.equal(schedule);
+    expect(await l2Contract.totalSupplyAfterPendingRebase()).to.equal(await l1Contract.totalSupplyAfterPendingRebase());
+
+    await time.increaseTo(schedule[1].effectiveTime);
+    expect(await l2Contract.getActiveMultiplier()).to.equal(await l1Contract.getActiveMultiplier());
+  });
+
+  it("covers a full schedule with the min gas limit", async () => {
+    const { l1Contract, messenger, broadcaster, receiver } = await loadFixture(deployCrossChainFixture);
+
+    const rebaseRate = parseUnits("0.0002");
+    const maxScheduled = Number(await l1Contract.MAX_SCHEDULED_MULTIPLIERS());
+    await l1Contract.setRebasePeriod(await getBlockTimestamp() + rebasePeriod);
+    await l1Contract.increaseRebaseMultiplier(rebaseRate, MaxUint256);
+    await l1Contract.setRebasePeriod(rebasePeriod);
+    await l1Contract.increaseRebaseMultiplierBatch(
+      Array(maxScheduled).fill(rebaseRate),
+      Array(maxScheduled).fill(MaxUint256)
+    );
+
+    const minGasLimit = await broadcaster.MIN_GAS_LIMIT() + BigInt(maxScheduled) * await broadcaster.GAS_PER_SCHEDULED_MULTIPLIER();
+    await broadcaster.broadcast(receiver, minGasLimit);
+    const receipt = await (await messenger.relayMessage(0)).wait();
+    expect(receipt!.gasUsed).to.be.below(minGasLimit);
+  });
+
+  it("reverts when broadcasting with a gas limit below the min gas limit", async () => {
+    const { l1Contract, broadcaster, receiver } = await loadFixture(deployCrossChainFixture);
+
+    const effectTime = await getBlockTimestamp() + rebasePeriod;
+    await l1Contract.setRebasePeriod(effectTime);
+    await l1Contract.increaseRebaseMultiplier(parseUnits("0.0002"), MaxUint256);
+    await l1Contract.setRebasePeriod(rebasePeriod);
+    await l1Contract.increaseRebaseMultiplier(parseUnits("0.0002"), MaxUint256);
+
+    const minGasLimit = await broadcaster.MIN_GAS_LIMIT() + await broadcaster.GAS_PER_SCHEDULED_MULTIPLIER();
+    await expect(broadcaster.broadcast(receiver, minGasLimit - 1n))
+      .to.be.revertedWithCustomError(broadcaster, "InsufficientGasLimit")
+      .withArgs(minGasLimit - 1n, minGasLimit);
+    await expect(broadcaster.broadcast(receiver, minGasLimit)).not.to.be.reverted;
+  });
+
+  describe("bounds on received multipliers", () => {
+    const maxRebaseRate = parseUnits("0.001");
+
+    async function deployReceivingFixture() {
+      const { l2Contract, admin } = await loadFixture(deployCrossChainFixture);
+
+      await l2Contract.grantRole(roles.REBASE_RECEIVER_ROLE, admin.address);
+      await l2Contract.setMaxRebaseRate(maxRebaseRate);
+      await l2Contract.setMaxRebaseDecreaseRate(maxRebaseRate);
+
+      return { l2Contract };
+    }
+
+    it("reverts when the active multiplier increases more than maxRebaseRate", async () => {
+      const { l2Contract } = await loadFixture(deployReceivingFixture);
+
+      const multiplier = base * (base + maxRebaseRate) / base;
+      await expect(l2Contract.receiveRebaseMultipliers(multiplier + 1n, multiplier + 1n, 0, []))
+        .to.be.revertedWithCustomError(l2Contract, "InvalidRebaseRate")
+        .withArgs(maxRebaseRate + 1n);
+      await expect(l2Contract.receiveRebaseMultipliers(multiplier, multiplier, 0, [])).not.to.be.reverted;
+    });
+
+    it("reverts when the active multiplier decreases more than maxRebaseDecreaseRate", async () => {
+      const { l2Contract } = await loadFixture(deployReceivingFixture);
+
+      const multiplier = base * (base - maxRebaseRate) / base;
+      await expect(l2Contract.receiveRebaseMultipliers(multiplier - 1n, multiplier - 1n, 0, []))
+        .to.be.revertedWithCustomError(l2Contract, "InvalidRebaseDecreaseRate")
+        .withArgs(maxRebaseRate + 1n);
+      await expect(l2Contract.receiveRebaseMultipliers(multiplier, multiplier, 0, [])).not.to.be.reverted;
+    });
+
+    it("reverts when a pending multiplier decreases or increases more than maxRebaseRate", async () => {
+      const { l2Contract } = await loadFixture(deployReceivingFixture);
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await expect(l2Contract.receiveRebaseMultipliers(base, base - 1n, effectTime, []))
+        .to.be.revertedWithCustomError(l2Contract, "InvalidMultiplierSchedule");
+
+      const maxMult = base * (base + maxRebaseRate) / base;
+      await expect(l2Contract.receiveRebaseMultipliers(base, maxMult, effectTime, [[maxMult - 1n, effectTime + rebasePeriod]]))
+        .to.be.revertedWithCustomError(l2Contract, "InvalidMultiplierSchedule");
+      await expect(l2Contract.receiveRebaseMultipliers(base, base, effectTime, [[maxMult + 1n, effectTime + rebasePeriod]]))
+        .to.be.revertedWithCustomError(l2Contract, "InvalidRebaseRate")
+        .withArgs(maxRebaseRate + 1n);
+    });
+
+    it("reverts when the queued multipliers are not ordered by effective time", async () => {
+      const { l2Contract } = await loadFixture(deployReceivingFixture);
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await expect(l2Contract.receiveRebaseMultipliers(base, base, effectTime, [[base, effectTime]]))
+        .to.be.revertedWithCustomError(l2Contract, "InvalidMultiplierSchedule");
+    });
+
+    it("reverts when receiving more multipliers than can be queued", async () => {
+      const { l2Contract } = await loadFixture(deployReceivingFixture);
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      const maxScheduled = Number(await l2Contract.MAX_SCHEDULED_MULTIPLIERS());
+      const schedule = Array.from({ length: maxScheduled + 1 }, (_, i) => [base, effectTime + (i + 1) * rebasePeriod]);
+      await expect(l2Contract.receiveRebaseMultipliers(base, base, effectTime, schedule))
+        .to.be.revertedWithCustomError(l2Contract, "MultiplierScheduleFull");
+    });
+  });
+
+  it("rejects calls that do not come from the messenger", async () => {
+    const { receiver, addr1 } = await loadFixture(deployCrossChainFixture);
+
+    await expect(receiver.connect(addr1).receiveMultipliers(1, base, afterIncrMult, 0, []))
+      .to.be.revertedWithCustomError(receiver, "UnauthorizedSender")
+      .withArgs(addr1.address);
+  });
+
+  it("rejects messages that do not come from the broadcaster", async () => {
+    const { l1Contract, messenger, receiver } = await loadFixture(deployCrossChainFixture);
+
+    const otherBroadcaster = await ethers.deployContract("RebaseBroadcaster", [l1Contract, messenger]);
+    await otherBroadcaster.broadcast(receiver, gasLimit);
+
+    await expect(messenger.relayMessage(0))
+      .to.be.revertedWithCustomError(receiver, "UnauthorizedSender")
+      .withArgs(await otherBroadcaster.getAddress());
+  });
+
+  it("reverts when receiving multipliers without the rebase receiver role", async () => {
+    const { l2Contract, addr1 } = await loadFixture(deployCrossChainFixture);
+
+    await expect((l2Contract.connect(addr1) as Contract).receiveRebaseMultipliers(base, afterIncrMult, 0, []))
+      .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.REBASE_RECEIVER_ROLE}`);
+  });
+});
@@ -5,7 +5,7 @@ import { ethers } from "hardhat";
 import { Contract } from "ethers";
 
 import { deployYBSFixture, deployWrappedYBSFixture } from "../helpers/fixtures";
-import { signPermit, PERMIT_TYPEHASH, MAX_UINT256 } from "../helpers/signature";
+import { signPermit, packSignature, getDomainSeparator, PERMIT_TYPEHASH, MAX_UINT256 } from "../helpers/signature";
 import { getBlockTimestamp } from "../helpers/commonutil";
 
 const web3 = require("web3");
@@ -43,7 +43,7 @@ export function runEIP2612Tests(fixtureFunc: any) {
         addr1: any;
         addr2: any;
       });
-      domainSeparator = await contract.DOMAIN_SEPARATOR();
+      domainSeparator = await getDomainSeparator(contract);
 
       spender = addr1;
       // We need private key for sender, hence generate a wallet.
@@ -385,5 +385,148 @@ export function runEIP2612Tests(fixtureFunc: any) {
           .to.be.revertedWithCustomError(contract, "InvalidValueS");
       });
     });
+
+    describe("EIP1271 test cases", () => {
+      let wallet: any;
+
+      beforeEach(async () => {
+        const Wallet = await ethers.getContractFactory("MockERC1271Wallet");
+        wallet = await Wallet.deploy(sender.address);
+      });
+
+      it("permits with a packed signature from an EOA", async () => {
+        const signature = packSignature(signPermit(
+          sender.address,
+          spender.address,
+          permitAllowance,
+          nonce,
+          deadline,
+          domainSeparator,
+          sender.privateKey
+        ));
+
+        await contract["permit(address,address,uint256,uint256,bytes)"](sender.address, spender.address, permitAllowance, deadline, signature);
+        expect(await contract.nonces(sender.address)).to.equal(1);
+        expect(await contract.allowance(sender.address, spender.address)).to.equal(permitAllowance);
+      });
+
+      it("permits with a signature validated by a contract wallet", async () => {
+        const walletAddress = await wallet.getAddress();
+        await contract.connect(admin).transfer(walletAddress, senderBalance);
+
+        const signature = packSignature(signPermit(
+          walletAddress,
+          spender.address,
+          permitAllowance,
+          nonce,
+          deadline,
+          domainSeparator,
+          sender.privateKey
+        ));
+
+        await contract["permit(address,address,uint256,uint256,bytes)"](walletAddress, spender.address, permitAllowance, deadline, signature);
+        expect(await contract.nonces(walletAddress)).to.equal(1);
+        expect(await contract.allowance(walletAddress, spender.address)).to.equal(permitAllowance);
+
+        await contract.transferFrom(walletAddress, recipient.address, transactionValue);
+        expect(await contract.balanceOf(recipient.address)).to.equal(transactionValue);
+      });
+
+      it("falls back to the contract wallet for a v, r, s signature", async () => {
+        const walletAddress = await wallet.getAddress();
+        const { v, r, s } = signPermit(
+          walletAddress,
+          spender.address,
+          permitAllowance,
+          nonce,
+          deadline,
+          domainSeparator,
+          sender.privateKey
+        );
+
+        await contract.permit(walletAddress, spender.address, permitAllowance, deadline, v, r, s);
+        expect(await contract.allowance(walletAddress, spender.address)).to.equal(permitAllowance);
+      });
+
+      it("reverts when the contract wallet rejects the signature", async () => {
+        const walletAddress = await wallet.getAddress();
+        const signature = packSignature(signPermit(
+          walletAddress,
+          spender.address,
+          permitAllowance,
+          nonce,
+          deadline,
+          domainSeparator,
+          ethers.Wallet.createRandom().privateKey
+        ));
+
+        await expect(contract["permit(address,address,uint256,uint256,bytes)"](walletAddress, spender.address, permitAllowance, deadline, signature))
+          .to.be.revertedWithCustomError(contract, "InvalidSignature");
+      });
+
+      it("reverts when an EOA signature has an invalid length", async () => {
+        const signature = packSignature(signPermit(
+          sender.address,
+          spender.address,
+          permitAllowance,
+          nonce,
+          deadline,
+          domainSeparator,
+          sender.privateKey
+        ));
+
+        await expect(contract["permit(address,address,uint256,uint256,bytes)"](sender.address, spender.address, permitAllowance, deadline, signature + "00"))
+          .to.be.revertedWithCustomError(contract, "InvalidSignature");
+      });
+    });
+
+    describe("EIP712 domain", () => {
+      it("returns the EIP712 domain", async () => {
+        const [fields, name, version, chainId, verifyingContract, salt, extensions] = await contract.eip712Domain();
+
+        expect(fields).to.equal("0x0f");
+        expect(name).to.equal(await contract.name());
+        expect(version).to.equal("1");
+        expect(chainId).to.equal((await ethers.provider.getNetwork()).chainId);
+        expect(verifyingContract).to.equal(await contract.getAddress());
+        expect(salt).to.equal(ethers.ZeroHash);
+        expect(extensions).to.deep.equal([]);
+        expect(domainSeparator).to.equal(await contract.DOMAIN_SEPARATOR());
+      });
+
+      it("sets the domain version", async () => {
+        await expect(contract.connect(admin).reinitializeDomainVersion(2, "2"))
+          .to.emit(contract, "EIP712DomainChanged");
+
+        expect((await contract.eip712Domain())[2]).to.equal("2");
+        const newDomainSeparator = await getDomainSeparator(contract);
+        expect(newDomainSeparator).to.not.equal(domainSeparator);
+        expect(newDomainSeparator).to.equal(await contract.DOMAIN_SEPARATOR());
+
+        // signatures for the previous version are no longer valid
+        let { v, r, s } = signPermit(sender.address, spender.address, permitAllowance, nonce, deadline, domainSeparator, sender.privateKey);
+        await expect(contract.permit(sender.address, spender.address, permitAllowance, deadline, v, r, s))
+          .to.be.revertedWithCustomError(contract, "InvalidSignature");
+
+        ({ v, r, s } = signPermit(sender.address, spender.address, permitAllowance, nonce, deadline, newDomainSeparator, sender.privateKey));
+        await contract.permit(sender.address, spender.address, permitAllowance, deadline, v, r, s);
+        expect(await contract.allowance(sender.address, spender.address)).to.equal(permitAllowance);
+      });
+
+      it("reverts when the revision was already used", async () => {
+        await contract.connect(admin).reinitializeDomainVersion(2, "2");
+
+        await expect(contract.connect(admin).reinitializeDomainVersion(2, "3"))
+          .to.be.revertedWith("Initializable: contract is already initialized");
+        await expect(contract.connect(admin).reinitializeDomainVersion(1, "3"))
+          .to.be.revertedWith("Initializable: contract is already initialized");
+      });
+
+      it("reverts when caller does not have default admin role", async () => {
+        await expect(contract.reinitializeDomainVersion(2, "2")).to.be.revertedWith(
+          `AccessControl: account ${spender.address.toLowerCase()} is missing role ${await contract.DEFAULT_ADMIN_ROLE()}`
+        );
+      });
+    });
   });
-}
\ No newline at end of file
+}
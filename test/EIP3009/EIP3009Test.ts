@@ -7,7 +7,7 @@ import { deployYBSFixture, deployWrappedYBSFixture } from "../helpers/fixtures";
 import { getBlockTimestamp } from "../helpers/commonutil";
 
 import {
-  signTransferAuthorization, signReceiveAuthorization, signCancelAuthorization,
+  signTransferAuthorization, signReceiveAuthorization, signCancelAuthorization, packSignature, getDomainSeparator,
   TRANSFER_WITH_AUTHORIZATION_TYPEHASH, RECEIVE_WITH_AUTHORIZATION_TYPEHASH,
   CANCEL_AUTHORIZATION_TYPEHASH, MAX_UINT256
 } from "../helpers/signature";
@@ -47,7 +47,7 @@ export function runEIP3009Tests(fixtureFunc: any) {
         addr1: any;
         addr2: any;
       });
-      domainSeparator = await contract.DOMAIN_SEPARATOR();
+      domainSeparator = await getDomainSeparator(contract);
 
       spender = addr1;
       // We need private key for sender, hence generate a wallet.
@@ -986,5 +986,405 @@ export function runEIP3009Tests(fixtureFunc: any) {
         )).to.revertedWith("Pausable: paused");
       });
     });
+
+    describe("receiveWithAuthorizationBatch", () => {
+      let senders: any[];
+
+      beforeEach(async () => {
+        senders = [];
+        for (let i = 0; i < 4; i++) {
+          senders.push(ethers.Wallet.createRandom());
+          await contract.connect(admin).transfer(senders[i].address, transactionValue);
+        }
+      });
+
+      function signEntries(validBefores: any[], nonces: any[]) {
+        const vs = [], rs = [], ss = [];
+        for (let i = 0; i < nonces.length; i++) {
+          const { v, r, s } = signReceiveAuthorization(
+            senders[i].address,
+            recipient.address,
+            transactionValue,
+            0,
+            validBefores[i],
+            nonces[i],
+            domainSeparator,
+            senders[i].privateKey
+          );
+          vs.push(v);
+          rs.push(r);
+          ss.push(s);
+        }
+        return {
+          froms: senders.slice(0, nonces.length).map(sender => sender.address),
+          tos: nonces.map(() => recipient.address),
+          values: nonces.map(() => transactionValue),
+          validAfters: nonces.map(() => 0),
+          validBefores,
+          nonces,
+          vs,
+          rs,
+          ss,
+        };
+      }
+
+      function receiveBatch(entries: any) {
+        return contract.connect(recipient).receiveWithAuthorizationBatch(
+          entries.froms,
+          entries.tos,
+          entries.values,
+          entries.validAfters,
+          entries.validBefores,
+          entries.nonces,
+          entries.vs,
+          entries.rs,
+          entries.ss
+        );
+      }
+
+      it("receives valid entries and skips used ones", async () => {
+        const nonces = senders.map(() => web3.utils.randomHex(32));
+        const entries = signEntries(senders.map(() => MAX_UINT256), nonces);
+
+        // sender 1 has already used its nonce, sender 3 has canceled it
+        await contract.connect(recipient).receiveWithAuthorization(
+          entries.froms[1], recipient.address, transactionValue, 0, MAX_UINT256, nonces[1],
+          entries.vs[1], entries.rs[1], entries.ss[1]
+        );
+        const cancellation = signCancelAuthorization(senders[3].address, nonces[3], domainSeparator, senders[3].privateKey);
+        await contract.cancelAuthorization(senders[3].address, nonces[3], cancellation.v, cancellation.r, cancellation.s);
+
+        const result = await receiveBatch(entries);
+
+        await expect(result).to.emit(contract, "AuthorizationUsed").withArgs(senders[0].address, nonces[0]).
+          to.emit(contract, "AuthorizationUsed").withArgs(senders[2].address, nonces[2]).
+          to.emit(contract, "AuthorizationAlreadyUsed").withArgs(senders[1].address, nonces[1]).
+          to.emit(contract, "AuthorizationAlreadyUsed").withArgs(senders[3].address, nonces[3]);
+        expect(await contract.balanceOf(recipient.address)).to.equal(transactionValue * 3);
+        expect(await contract.balanceOf(senders[3].address)).to.equal(transactionValue);
+      });
+
+      it("skips a used entry from a blocked authorizer", async () => {
+        const nonces = senders.slice(0, 2).map(() => web3.utils.randomHex(32));
+        const entries = signEntries([MAX_UINT256, MAX_UINT256], nonces);
+
+        const cancellation = signCancelAuthorization(senders[1].address, nonces[1], domainSeparator, senders[1].privateKey);
+        await contract.cancelAuthorization(senders[1].address, nonces[1], cancellation.v, cancellation.r, cancellation.s);
+        await contract.connect(admin).blockAccounts([senders[1].address]);
+
+        await expect(receiveBatch(entries)).to.emit(contract, "AuthorizationUsed").withArgs(senders[0].address, nonces[0]).
+          to.emit(contract, "AuthorizationAlreadyUsed").withArgs(senders[1].address, nonces[1]);
+        expect(await contract.balanceOf(recipient.address)).to.equal(transactionValue);
+      });
+
+      it("reverts the batch when an entry is expired", async () => {
+        const nonces = senders.slice(0, 3).map(() => web3.utils.randomHex(32));
+        const expired = await getBlockTimestamp();
+        const entries = signEntries([MAX_UINT256, expired, MAX_UINT256], nonces);
+
+        await expect(receiveBatch(entries)).to.revertedWithCustomError(contract, "AuthorizationExpired");
+        expect(await contract.authorizationState(senders[0].address, nonces[0])).to.be.false;
+      });
+
+      it("reverts the batch when an unused entry has a blocked authorizer", async () => {
+        const nonces = senders.slice(0, 3).map(() => web3.utils.randomHex(32));
+        const entries = signEntries([MAX_UINT256, MAX_UINT256, MAX_UINT256], nonces);
+        await contract.connect(admin).blockAccounts([senders[2].address]);
+
+        await expect(receiveBatch(entries)).to.revertedWithCustomError(contract, "BlockedAccountSender");
+        expect(await contract.authorizationState(senders[0].address, nonces[0])).to.be.false;
+      });
+
+      it("reverts when the caller is not the payee of every entry", async () => {
+        const nonces = senders.slice(0, 2).map(() => web3.utils.randomHex(32));
+        const entries = signEntries([MAX_UINT256, MAX_UINT256], nonces);
+        entries.tos[1] = addr1.address;
+
+        await expect(receiveBatch(entries)).to.revertedWithCustomError(contract, "CallerMustBePayee");
+      });
+
+      it("reverts when there is argument length mismatch", async () => {
+        const nonces = senders.slice(0, 2).map(() => web3.utils.randomHex(32));
+        const entries = signEntries([MAX_UINT256, MAX_UINT256], nonces);
+        entries.ss.pop();
+
+        await expect(receiveBatch(entries)).to.revertedWithCustomError(contract, "ArgumentLengthMismatch");
+      });
+
+      it("reverts when contract is paused", async () => {
+        const nonces = senders.slice(0, 2).map(() => web3.utils.randomHex(32));
+        const entries = signEntries([MAX_UINT256, MAX_UINT256], nonces);
+        await contract.connect(admin).pause();
+
+        await expect(receiveBatch(entries)).to.revertedWith("Pausable: paused");
+      });
+    });
+
+    describe("cancelAuthorizationBatch", () => {
+      let authorizers: any[];
+      let nonces: any[];
+      let vs: number[], rs: string[], ss: string[];
+
+      beforeEach(async () => {
+        authorizers = [];
+        nonces = [];
+        vs = [];
+        rs = [];
+        ss = [];
+        for (let i = 0; i < 3; i++) {
+          authorizers.push(ethers.Wallet.createRandom());
+          nonces.push(web3.utils.randomHex(32));
+          const { v, r, s } = signCancelAuthorization(authorizers[i].address, nonces[i], domainSeparator, authorizers[i].privateKey);
+          vs.push(v);
+          rs.push(r);
+          ss.push(s);
+        }
+      });
+
+      it("cancels valid entries and skips used ones", async () => {
+        // authorizer 1 has already used its nonce on a transfer
+        await contract.connect(admin).transfer(authorizers[1].address, transactionValue);
+        const auth = signTransferAuthorization(
+          authorizers[1].address, recipient.address, transactionValue, 0, MAX_UINT256, nonces[1],
+          domainSeparator, authorizers[1].privateKey
+        );
+        await contract.transferWithAuthorization(
+          authorizers[1].address, recipient.address, transactionValue, 0, MAX_UINT256, nonces[1], auth.v, auth.r, auth.s
+        );
+
+        const result = await contract.cancelAuthorizationBatch(authorizers.map(a => a.address), nonces, vs, rs, ss);
+
+        await expect(result).to.emit(contract, "AuthorizationCanceled").withArgs(authorizers[0].address, nonces[0]).
+          to.emit(contract, "AuthorizationCanceled").withArgs(authorizers[2].address, nonces[2]).
+          to.emit(contract, "AuthorizationAlreadyUsed").withArgs(authorizers[1].address, nonces[1]);
+        for (let i = 0; i < authorizers.length; i++) {
+          expect(await contract.authorizationState(authorizers[i].address, nonces[i])).to.be.true;
+        }
+      });
+
+      it("cancels the nonce of an expired authorization", async () => {
+        const expired = await getBlockTimestamp();
+        const auth = signTransferAuthorization(
+          authorizers[0].address, recipient.address, transactionValue, 0, expired, nonces[0],
+          domainSeparator, authorizers[0].privateKey
+        );
+        await expect(contract.transferWithAuthorization(
+          authorizers[0].address, recipient.address, transactionValue, 0, expired, nonces[0], auth.v, auth.r, auth.s
+        )).to.revertedWithCustomError(contract, "AuthorizationExpired");
+
+        await expect(contract.cancelAuthorizationBatch(authorizers.map(a => a.address), nonces, vs, rs, ss))
+          .to.emit(contract, "AuthorizationCanceled").withArgs(authorizers[0].address, nonces[0]);
+      });
+
+      it("reverts the batch when an authorizer is blocked", async () => {
+        await contract.connect(admin).blockAccounts([authorizers[2].address]);
+
+        await expect(contract.cancelAuthorizationBatch(authorizers.map(a => a.address), nonces, vs, rs, ss))
+          .to.revertedWithCustomError(contract, "BlockedAccountAuthorizer");
+        expect(await contract.authorizationState(authorizers[0].address, nonces[0])).to.be.false;
+      });
+
+      it("reverts the batch when a signature is invalid", async () => {
+        nonces[1] = web3.utils.randomHex(32);
+
+        await expect(contract.cancelAuthorizationBatch(authorizers.map(a => a.address), nonces, vs, rs, ss))
+          .to.revertedWithCustomError(contract, "InvalidSignature");
+      });
+
+      it("reverts when there is argument length mismatch", async () => {
+        await expect(contract.cancelAuthorizationBatch(authorizers.map(a => a.address), nonces.slice(1), vs, rs, ss))
+          .to.revertedWithCustomError(contract, "ArgumentLengthMismatch");
+      });
+
+      it("reverts when contract is paused", async () => {
+        await contract.connect(admin).pause();
+
+        await expect(contract.cancelAuthorizationBatch(authorizers.map(a => a.address), nonces, vs, rs, ss))
+          .to.revertedWith("Pausable: paused");
+      });
+    });
+
+    describe("EIP1271 signatures", () => {
+      let wallet: any;
+      let walletAddress: string;
+
+      beforeEach(async () => {
+        const Wallet = await ethers.getContractFactory("MockERC1271Wallet");
+        wallet = await Wallet.deploy(sender.address);
+        walletAddress = await wallet.getAddress();
+        await contract.connect(admin).transfer(walletAddress, senderBalance);
+      });
+
+      it("executes a transferWithAuthorization with a packed signature from an EOA", async () => {
+        const signature = packSignature(signTransferAuthorization(
+          sender.address,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          domainSeparator,
+          sender.privateKey
+        ));
+
+        await expect(contract["transferWithAuthorization(address,address,uint256,uint256,uint256,bytes32,bytes)"](
+          sender.address,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          signature
+        )).to.emit(contract, "AuthorizationUsed").withArgs(sender.address, nonce);
+        expect(await contract.balanceOf(recipient.address)).to.equal(transactionValue);
+      });
+
+      it("executes a transferWithAuthorization validated by a contract wallet", async () => {
+        const signature = packSignature(signTransferAuthorization(
+          walletAddress,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          domainSeparator,
+          sender.privateKey
+        ));
+
+        await expect(contract["transferWithAuthorization(address,address,uint256,uint256,uint256,bytes32,bytes)"](
+          walletAddress,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          signature
+        )).to.emit(contract, "AuthorizationUsed").withArgs(walletAddress, nonce).
+          to.emit(contract, "Transfer").withArgs(walletAddress, recipient.address, transactionValue);
+        expect(await contract.balanceOf(walletAddress)).to.equal(senderBalance - transactionValue);
+        expect(await contract.authorizationState(walletAddress, nonce)).to.be.true;
+      });
+
+      it("falls back to the contract wallet for a v, r, s signature", async () => {
+        const { v, r, s } = signTransferAuthorization(
+          walletAddress,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          domainSeparator,
+          sender.privateKey
+        );
+
+        await contract.transferWithAuthorization(
+          walletAddress,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          v,
+          r,
+          s
+        );
+        expect(await contract.balanceOf(recipient.address)).to.equal(transactionValue);
+      });
+
+      it("reverts a transferWithAuthorization when the contract wallet rejects the signature", async () => {
+        const signature = packSignature(signTransferAuthorization(
+          walletAddress,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          domainSeparator,
+          ethers.Wallet.createRandom().privateKey
+        ));
+
+        await expect(contract["transferWithAuthorization(address,address,uint256,uint256,uint256,bytes32,bytes)"](
+          walletAddress,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          signature
+        )).to.revertedWithCustomError(contract, "InvalidSignature");
+      });
+
+      it("executes a receiveWithAuthorization validated by a contract wallet", async () => {
+        const signature = packSignature(signReceiveAuthorization(
+          walletAddress,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          domainSeparator,
+          sender.privateKey
+        ));
+
+        await expect(contract.connect(recipient)["receiveWithAuthorization(address,address,uint256,uint256,uint256,bytes32,bytes)"](
+          walletAddress,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          signature
+        )).to.emit(contract, "AuthorizationUsed").withArgs(walletAddress, nonce);
+        expect(await contract.balanceOf(recipient.address)).to.equal(transactionValue);
+      });
+
+      it("reverts a receiveWithAuthorization with a packed signature if the caller is not the payee", async () => {
+        const signature = packSignature(signReceiveAuthorization(
+          walletAddress,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          domainSeparator,
+          sender.privateKey
+        ));
+
+        await expect(contract["receiveWithAuthorization(address,address,uint256,uint256,uint256,bytes32,bytes)"](
+          walletAddress,
+          recipient.address,
+          transactionValue,
+          0,
+          MAX_UINT256,
+          nonce,
+          signature
+        )).to.revertedWithCustomError(contract, "CallerMustBePayee");
+      });
+
+      it("cancels an authorization validated by a contract wallet", async () => {
+        const signature = packSignature(signCancelAuthorization(
+          walletAddress,
+          nonce,
+          domainSeparator,
+          sender.privateKey
+        ));
+
+        await expect(contract["cancelAuthorization(address,bytes32,bytes)"](walletAddress, nonce, signature))
+          .to.emit(contract, "AuthorizationCanceled").withArgs(walletAddress, nonce);
+        expect(await contract.authorizationState(walletAddress, nonce)).to.be.true;
+      });
+
+      it("reverts a cancelAuthorization when the contract wallet rejects the signature", async () => {
+        const signature = packSignature(signCancelAuthorization(
+          walletAddress,
+          nonce,
+          domainSeparator,
+          ethers.Wallet.createRandom().privateKey
+        ));
+
+        await expect(contract["cancelAuthorization(address,bytes32,bytes)"](walletAddress, nonce, signature))
+          .to.revertedWithCustomError(contract, "InvalidSignature");
+      });
+    });
   });
-}
\ No newline at end of file
+}
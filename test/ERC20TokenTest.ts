@@ -1,10 +1,11 @@
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
+import { ethers } from "hardhat";
 import { Contract, ZeroAddress, MaxUint256 } from "ethers";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 import { parseUnits } from "ethers";
 
-import { deployYBSFixture } from "./helpers/fixtures";
+import { deployYBSFixture, deployTokenProxy, getTokenFactory } from "./helpers/fixtures";
+import { getBlockTimestamp } from "./helpers/commonutil";
 import { NAME, SYMBOL, DECIMALS, CONTRACT_NAME, roles } from "./helpers/constants";
 
 describe("YBS ERC20", function () {
@@ -94,7 +95,7 @@ describe("YBS ERC20", function () {
         admin.address,
       ];
     
-      const YBS = await ethers.getContractFactory(CONTRACT_NAME);
+      const YBS = await getTokenFactory(CONTRACT_NAME);
       const startRoleArg = 4; // skip admin, role is checked by OZ's AccessControlDefaultAdminRules
       const endRoleArg = 8;
 
@@ -102,9 +103,7 @@ describe("YBS ERC20", function () {
         initializerArgs[i] = ZeroAddress;
 
         await expect(
-          upgrades.deployProxy(YBS, initializerArgs, {
-            initializer: "initialize",
-          })
+          deployTokenProxy(CONTRACT_NAME, initializerArgs)
         ).to.be.revertedWithCustomError(YBS, "ZeroAddress");
 
         initializerArgs[i] = admin.address;
@@ -451,4 +450,164 @@ describe("YBS ERC20", function () {
         .withArgs(ZeroAddress);
     });
   });
+
+  describe("Share transfers", () => {
+    const shares = 7;
+    const multiplier = parseUnits("1.5");
+
+    // Rebases the 100 minted shares to a 1.5 multiplier, so share values round.
+    async function deployRebasedYBSFixture() {
+      const { contract, admin, addr1, addr2 } = await deployYBSFixture();
+
+      await contract.setMaxRebaseRate(base);
+      await contract.setNextMultiplier(multiplier, await getBlockTimestamp() + 1, 150);
+      await time.increase(1);
+
+      return { contract, admin, addr1, addr2 };
+    }
+
+    it("transfers exact rebase shares", async () => {
+      const { contract, admin, addr1 } = await loadFixture(deployRebasedYBSFixture);
+
+      await expect(contract.transferShares(addr1.address, shares))
+        .to.emit(contract, "TransferShares")
+        .withArgs(admin.address, addr1.address, shares)
+        .to.emit(contract, "Transfer")
+        .withArgs(admin.address, addr1.address, 10);
+
+      expect(await contract.rebaseSharesOf(admin.address)).to.be.equal(100 - shares);
+      expect(await contract.rebaseSharesOf(addr1.address)).to.be.equal(shares);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(10);
+    });
+
+    it("transfers a single share that is worth less than its rounded token value", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployRebasedYBSFixture);
+
+      await contract.transferShares(addr1.address, 1);
+      await expect((contract.connect(addr1) as Contract).transferShares(addr2.address, 1))
+        .to.emit(contract, "TransferShares")
+        .withArgs(addr1.address, addr2.address, 1);
+
+      expect(await contract.rebaseSharesOf(addr1.address)).to.be.equal(0);
+      expect(await contract.rebaseSharesOf(addr2.address)).to.be.equal(1);
+    });
+
+    it("reconciles account shares with totalRebaseShares", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRebasedYBSFixture);
+
+      await contract.transferShares(addr1.address, shares);
+      await contract.transferShares(addr2.address, shares + 1);
+      await (contract.connect(addr1) as Contract).transferShares(addr2.address, 3);
+
+      const accountShares = await Promise.all(
+        [admin, addr1, addr2].map((account) => contract.rebaseSharesOf(account.address))
+      );
+      expect(accountShares).to.deep.equal([85n, 4n, 11n]);
+      expect(accountShares.reduce((a, b) => a + b, 0n)).to.be.equal(await contract.totalRebaseShares());
+      expect(await contract.totalRebaseShares()).to.be.equal(100);
+    });
+
+    it("spends the rounded up token value of the shares from the allowance", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRebasedYBSFixture);
+
+      await contract.approve(addr1.address, 20);
+
+      await expect(
+        (contract.connect(addr1) as Contract).transferSharesFrom(admin.address, addr2.address, shares)
+      )
+        .to.emit(contract, "TransferShares")
+        .withArgs(admin.address, addr2.address, shares);
+
+      expect(await contract.allowance(admin.address, addr1.address)).to.be.equal(9);
+      expect(await contract.rebaseSharesOf(addr2.address)).to.be.equal(shares);
+    });
+
+    it("unlimited allowance does not decrease", async () => {
+      const { contract, admin, addr1 } = await loadFixture(deployRebasedYBSFixture);
+
+      await contract.approve(addr1.address, MaxUint256);
+      await (contract.connect(addr1) as Contract).transferSharesFrom(admin.address, addr1.address, shares);
+
+      expect(await contract.allowance(admin.address, addr1.address)).to.be.equal(MaxUint256);
+    });
+
+    it("reverts when spender has insufficient allowance", async () => {
+      const { contract, admin, addr1 } = await loadFixture(deployRebasedYBSFixture);
+
+      await contract.approve(addr1.address, 10);
+
+      await expect(
+        (contract.connect(addr1) as Contract).transferSharesFrom(admin.address, addr1.address, shares)
+      )
+        .to.be.revertedWithCustomError(contract, "ERC20InsufficientAllowance")
+        .withArgs(addr1.address, 10, 11);
+    });
+
+    it("reverts when sender has insufficient shares", async () => {
+      const { contract, admin, addr1 } = await loadFixture(deployRebasedYBSFixture);
+
+      await expect(contract.transferShares(addr1.address, 101))
+        .to.be.revertedWithCustomError(contract, "ERC20InsufficientBalance")
+        .withArgs(admin.address, 100, 101);
+    });
+
+    it("reverts when recipient is a zero address", async () => {
+      const { contract } = await loadFixture(deployRebasedYBSFixture);
+
+      await expect(contract.transferShares(ZeroAddress, shares))
+        .to.be.revertedWithCustomError(contract, "ERC20InvalidReceiver")
+        .withArgs(ZeroAddress);
+    });
+
+    it("reverts when recipient holds fixed shares", async () => {
+      const { contract, addr1 } = await loadFixture(deployRebasedYBSFixture);
+
+      await (contract.connect(addr1) as Contract).optOutOfYield();
+
+      await expect(contract.transferShares(addr1.address, shares))
+        .to.be.revertedWithCustomError(contract, "NonRebasingAccount")
+        .withArgs(addr1.address);
+    });
+
+    it("reverts when sender holds fixed shares", async () => {
+      const { contract, admin, addr1 } = await loadFixture(deployRebasedYBSFixture);
+
+      await contract.optOutOfYield();
+
+      await expect(contract.transferShares(addr1.address, shares))
+        .to.be.revertedWithCustomError(contract, "NonRebasingAccount")
+        .withArgs(admin.address);
+    });
+
+    it("reverts when recipient is blocked", async () => {
+      const { contract, addr1 } = await loadFixture(deployRebasedYBSFixture);
+
+      await contract.blockAccounts([addr1.address]);
+
+      await expect(
+        contract.transferShares(addr1.address, shares)
+      ).to.be.revertedWithCustomError(contract, "BlockedAccountReceiver");
+    });
+
+    it("reverts when spender is blocked", async () => {
+      const { contract, admin, addr1 } = await loadFixture(deployRebasedYBSFixture);
+
+      await contract.approve(addr1.address, MaxUint256);
+      await contract.blockAccounts([addr1.address]);
+
+      await expect(
+        (contract.connect(addr1) as Contract).transferSharesFrom(admin.address, addr1.address, shares)
+      ).to.be.revertedWithCustomError(contract, "BlockedAccountSpender");
+    });
+
+    it("reverts when paused", async () => {
+      const { contract, addr1 } = await loadFixture(deployRebasedYBSFixture);
+
+      await contract.pause();
+
+      await expect(
+        contract.transferShares(addr1.address, shares)
+      ).to.be.revertedWith("Pausable: paused");
+    });
+  });
 });
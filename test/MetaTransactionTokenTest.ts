@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, ZeroAddress } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { roles } from "./helpers/constants";
+import { deployYBS } from "./helpers/fixtures";
+import { signForwardRequest } from "./helpers/signature";
+
+describe("YBS Meta Transactions", function () {
+  const amount = 10;
+
+  async function deployYBSFixture() {
+    const [admin, addr1, addr2, relayer] = await ethers.getSigners();
+    const contract = await deployYBS();
+
+    const Forwarder = await ethers.getContractFactory("MockForwarder");
+    const forwarder = await Forwarder.deploy();
+
+    await contract.increaseSupply(100);
+    await contract.transfer(addr1.address, 50);
+    await contract.setTrustedForwarder(await forwarder.getAddress());
+
+    return { contract, forwarder, admin, addr1, addr2, relayer };
+  }
+
+  async function forward(forwarder: any, relayer: any, signer: any, contract: any, functionName: string, args: any[]) {
+    const data = contract.interface.encodeFunctionData(functionName, args);
+    const { request, signature } = await signForwardRequest(forwarder, signer, contract, data);
+    const [success, returndata] = await (forwarder.connect(relayer) as Contract).execute.staticCall(request, signature);
+    if (success) {
+      await (forwarder.connect(relayer) as Contract).execute(request, signature);
+      return null;
+    }
+    return contract.interface.parseError(returndata)?.name;
+  }
+
+  describe("trusted forwarder", function () {
+    it("sets the trusted forwarder", async function () {
+      const { contract, forwarder, addr1 } = await loadFixture(deployYBSFixture);
+
+      expect(await contract.trustedForwarder()).to.equal(await forwarder.getAddress());
+      expect(await contract.isTrustedForwarder(await forwarder.getAddress())).to.equal(true);
+      expect(await contract.isTrustedForwarder(addr1.address)).to.equal(false);
+
+      await expect(contract.setTrustedForwarder(addr1.address))
+        .to.emit(contract, "TrustedForwarderSet").withArgs(addr1.address);
+      expect(await contract.isTrustedForwarder(await forwarder.getAddress())).to.equal(false);
+    });
+
+    it("disables forwarding with the zero address", async function () {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      await contract.setTrustedForwarder(ZeroAddress);
+
+      expect(await contract.isTrustedForwarder(ZeroAddress)).to.equal(false);
+    });
+
+    it("reverts when caller does not have default admin role", async function () {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect(
+        (contract.connect(addr1) as Contract).setTrustedForwarder(addr1.address)
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.DEFAULT_ADMIN_ROLE}`
+      );
+    });
+  });
+
+  describe("forwarded calls", function () {
+    it("transfers on behalf of the signer", async function () {
+      const { contract, forwarder, addr1, addr2, relayer } = await loadFixture(deployYBSFixture);
+
+      expect(await forward(forwarder, relayer, addr1, contract, "transfer", [addr2.address, amount])).to.equal(null);
+
+      expect(await contract.balanceOf(addr1.address)).to.equal(50 - amount);
+      expect(await contract.balanceOf(addr2.address)).to.equal(amount);
+      expect(await contract.balanceOf(relayer.address)).to.equal(0);
+    });
+
+    it("approves and increases approval on behalf of the signer", async function () {
+      const { contract, forwarder, addr1, addr2, relayer } = await loadFixture(deployYBSFixture);
+
+      await forward(forwarder, relayer, addr1, contract, "approve", [addr2.address, amount]);
+      expect(await contract.allowance(addr1.address, addr2.address)).to.equal(amount);
+
+      await forward(forwarder, relayer, addr1, contract, "increaseApproval", [addr2.address, amount]);
+      expect(await contract.allowance(addr1.address, addr2.address)).to.equal(amount * 2);
+    });
+
+    it("spends the allowance of the signer on transferFrom", async function () {
+      const { contract, forwarder, admin, addr1, addr2, relayer } = await loadFixture(deployYBSFixture);
+
+      await (contract.connect(addr1) as Contract).approve(addr2.address, amount);
+
+      await forward(forwarder, relayer, addr2, contract, "transferFrom", [addr1.address, admin.address, amount]);
+
+      expect(await contract.allowance(addr1.address, addr2.address)).to.equal(0);
+      expect(await contract.balanceOf(addr1.address)).to.equal(50 - amount);
+    });
+
+    it("attributes the call to the forwarder when it is not trusted", async function () {
+      const { contract, forwarder, addr1, addr2, relayer } = await loadFixture(deployYBSFixture);
+
+      await contract.setTrustedForwarder(ZeroAddress);
+
+      expect(await forward(forwarder, relayer, addr1, contract, "transfer", [addr2.address, amount]))
+        .to.equal("ERC20InsufficientBalance");
+      expect(await contract.balanceOf(addr1.address)).to.equal(50);
+    });
+  });
+
+  describe("blocklist checks use the forwarded sender", function () {
+    it("reverts approve when the signer is blocked", async function () {
+      const { contract, forwarder, addr1, addr2, relayer } = await loadFixture(deployYBSFixture);
+
+      await contract.blockAccounts([addr1.address]);
+
+      expect(await forward(forwarder, relayer, addr1, contract, "approve", [addr2.address, amount]))
+        .to.equal("BlockedAccountSender");
+      expect(await forward(forwarder, relayer, addr1, contract, "increaseApproval", [addr2.address, amount]))
+        .to.equal("BlockedAccountSender");
+    });
+
+    it("reverts transferFrom when the signer is a blocked spender", async function () {
+      const { contract, forwarder, admin, addr1, addr2, relayer } = await loadFixture(deployYBSFixture);
+
+      await (contract.connect(addr1) as Contract).approve(addr2.address, amount);
+      await contract.blockAccounts([addr2.address]);
+
+      expect(await forward(forwarder, relayer, addr2, contract, "transferFrom", [addr1.address, admin.address, amount]))
+        .to.equal("BlockedAccountSpender");
+    });
+
+    it("reverts transfer when the signer is blocked", async function () {
+      const { contract, forwarder, addr1, addr2, relayer } = await loadFixture(deployYBSFixture);
+
+      await contract.blockAccounts([addr1.address]);
+
+      expect(await forward(forwarder, relayer, addr1, contract, "transfer", [addr2.address, amount]))
+        .to.equal("BlockedAccountSender");
+    });
+
+    it("allows the wYBS role to transferFrom to itself when forwarded", async function () {
+      const { contract, forwarder, addr1, addr2, relayer } = await loadFixture(deployYBSFixture);
+
+      await contract.grantRole(roles.WRAPPED_YBS_ROLE, addr2.address);
+      await (contract.connect(addr1) as Contract).approve(addr2.address, amount);
+
+      expect(await forward(forwarder, relayer, addr1, contract, "transfer", [addr2.address, amount]))
+        .to.equal("WYBSTransferNotAllowed");
+
+      expect(await forward(forwarder, relayer, addr2, contract, "transferFrom", [addr1.address, addr2.address, amount]))
+        .to.equal(null);
+      expect(await contract.balanceOf(addr2.address)).to.equal(amount);
+    });
+  });
+});
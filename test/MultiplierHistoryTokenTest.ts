@@ -0,0 +1,285 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, parseUnits } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { roles } from "./helpers/constants";
+import { deployYBS, deployImplementation } from "./helpers/fixtures";
+import { getBlockTimestamp } from "./helpers/commonutil";
+
+describe("YBS Multiplier History", function () {
+  const base = parseUnits("1");
+  const totalSupply = parseUnits("100");
+  const amount = parseUnits("10");
+  const rebaseRate = parseUnits("0.01");
+  const rebasePeriod = 10;
+
+  async function deployYBSFixture() {
+    const [admin, addr1, addr2] = await ethers.getSigners();
+
+    const contract = await deployYBS();
+    const deployTime = await getBlockTimestamp();
+
+    await contract.enableShareHistory();
+    await (contract.connect(addr1) as Contract).enableShareHistory();
+    const historyTime = await getBlockTimestamp();
+
+    await contract.increaseSupply(totalSupply);
+    await contract.setRebasePeriod(rebasePeriod);
+    await contract.setMaxRebaseRate(base);
+
+    return { contract, admin, addr1, addr2, deployTime, historyTime };
+  }
+
+  // Increases the multiplier one rebase period from now
+  async function increaseMultiplier(contract: Contract) {
+    const effectTime = await getBlockTimestamp() + rebasePeriod;
+    await contract.setRebasePeriod(BigInt(effectTime) - await contract.multIncrTime());
+    await contract.increaseRebaseMultiplier(rebaseRate, parseUnits("1000"));
+    await contract.setRebasePeriod(rebasePeriod);
+
+    return effectTime;
+  }
+
+  describe("multiplierAt", () => {
+    it("returns the initial multiplier from initialization", async () => {
+      const { contract, deployTime } = await loadFixture(deployYBSFixture);
+
+      expect(await contract.multiplierAt(deployTime)).to.equal(base);
+      expect(await contract.multiplierAt(await getBlockTimestamp())).to.equal(base);
+      await expect(contract.multiplierAt(deployTime - 1))
+        .to.be.revertedWithCustomError(contract, "MultiplierHistoryUnavailable")
+        .withArgs(deployTime - 1);
+    });
+
+    it("reverts for a future timestamp", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      const future = await getBlockTimestamp() + 1;
+      await expect(contract.multiplierAt(future))
+        .to.be.revertedWithCustomError(contract, "FutureLookup")
+        .withArgs(future);
+    });
+
+    it("keeps the multipliers overwritten by later increases", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      const firstTime = await increaseMultiplier(contract);
+      const firstMult = base * (base + rebaseRate) / base;
+      // The pending multiplier is not active yet
+      expect(await contract.multiplierAt(await getBlockTimestamp())).to.equal(base);
+
+      await time.increaseTo(firstTime);
+      const secondTime = await increaseMultiplier(contract);
+      const secondMult = firstMult * (base + rebaseRate) / base;
+      await time.increaseTo(secondTime + 1);
+      await increaseMultiplier(contract);
+
+      expect(await contract.beforeIncrMult()).to.equal(secondMult);
+      expect(await contract.multiplierAt(firstTime - 1)).to.equal(base);
+      expect(await contract.multiplierAt(firstTime)).to.equal(firstMult);
+      expect(await contract.multiplierAt(secondTime - 1)).to.equal(firstMult);
+      expect(await contract.multiplierAt(secondTime)).to.equal(secondMult);
+    });
+
+    it("records queued multipliers as they take effect", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      const firstTime = await increaseMultiplier(contract);
+      await contract.increaseRebaseMultiplier(rebaseRate, parseUnits("1000"));
+      const secondTime = firstTime + rebasePeriod;
+      const lastMult = (await contract.getMultiplierSchedule())[0].multiplier;
+
+      await time.increaseTo(secondTime);
+      expect(await contract.multiplierAt(firstTime)).to.equal(await contract.afterIncrMult());
+      expect(await contract.multiplierAt(secondTime)).to.equal(lastMult);
+    });
+
+    it("drops a canceled multiplier", async () => {
+      const { contract, admin } = await loadFixture(deployYBSFixture);
+      await contract.grantRole(roles.REBASE_GUARDIAN_ROLE, admin.address);
+
+      const effectTime = await increaseMultiplier(contract);
+      await contract.cancelPendingMultiplier();
+
+      await time.increaseTo(effectTime + 1);
+      expect(await contract.multiplierAt(effectTime)).to.equal(base);
+    });
+
+    it("drops a replaced multiplier", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      const replacedTime = await increaseMultiplier(contract);
+      const multIncrTime = replacedTime + 5;
+      const afterIncrMult = parseUnits("1.02");
+      await contract.setNextMultiplier(afterIncrMult, multIncrTime, parseUnits("1000"));
+
+      await time.increaseTo(multIncrTime);
+      expect(await contract.multiplierAt(replacedTime)).to.equal(base);
+      expect(await contract.multiplierAt(multIncrTime)).to.equal(afterIncrMult);
+    });
+
+    it("records a multiplier decrease immediately", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+      await contract.setMaxRebaseDecreaseRate(parseUnits("0.01"));
+
+      await contract.decreaseRebaseMultiplier(parseUnits("0.005"), 0);
+      const decreaseTime = await getBlockTimestamp();
+
+      expect(await contract.multiplierAt(decreaseTime - 1)).to.equal(base);
+      expect(await contract.multiplierAt(decreaseTime)).to.equal(parseUnits("0.995"));
+    });
+
+    it("starts the history at the first multiplier change after an upgrade", async () => {
+      const proxy = await deployYBS("YBSV1");
+      const YBSV1_1 = await deployImplementation();
+      await proxy.upgradeTo(YBSV1_1);
+      const contract = YBSV1_1.attach(await proxy.getAddress()) as Contract;
+
+      const upgradeTime = await getBlockTimestamp();
+      await expect(contract.multiplierAt(upgradeTime))
+        .to.be.revertedWithCustomError(contract, "MultiplierHistoryUnavailable")
+        .withArgs(upgradeTime);
+
+      await contract.setNextMultiplier(base, await getBlockTimestamp() + 1, 0);
+      expect(await contract.multiplierAt(await getBlockTimestamp())).to.equal(base);
+    });
+  });
+
+  describe("balanceOfAt and totalSupplyAt", () => {
+    it("returns the balances and total supply at past timestamps", async () => {
+      const { contract, admin, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr1.address, amount);
+      const transferTime = await getBlockTimestamp();
+
+      const effectTime = await increaseMultiplier(contract);
+      const multiplier = base * (base + rebaseRate) / base;
+      await time.increaseTo(effectTime);
+      await contract.increaseSupply(amount);
+      const mintTime = await getBlockTimestamp();
+      await (contract.connect(addr1) as Contract).transfer(admin.address, amount);
+
+      expect(await contract.balanceOfAt(addr1.address, transferTime - 1)).to.equal(0);
+      expect(await contract.balanceOfAt(addr1.address, transferTime)).to.equal(amount);
+      expect(await contract.balanceOfAt(admin.address, transferTime)).to.equal(totalSupply - amount);
+      expect(await contract.balanceOfAt(addr1.address, mintTime)).to.equal(amount * multiplier / base);
+      expect(await contract.balanceOfAt(addr1.address, await getBlockTimestamp()))
+        .to.equal(await contract.balanceOf(addr1.address));
+
+      expect(await contract.totalSupplyAt(transferTime)).to.equal(totalSupply);
+      expect(await contract.totalSupplyAt(effectTime)).to.equal(totalSupply * multiplier / base);
+      expect(await contract.totalSupplyAt(mintTime)).to.equal(await contract.totalSupply());
+    });
+
+    it("returns the current shares of an account without checkpoints", async () => {
+      const { contract, admin, addr1, historyTime } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr1.address, amount);
+
+      expect(await contract.balanceOfAt(addr1.address, historyTime)).to.equal(0);
+      expect(await contract.balanceOfAt(admin.address, historyTime)).to.equal(0);
+      expect(await contract.balanceOfAt(addr1.address, await getBlockTimestamp())).to.equal(amount);
+    });
+
+    it("reverts for an account without share history or before it was enabled", async () => {
+      const { contract, addr1, addr2, historyTime } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr2.address, amount);
+      const transferTime = await getBlockTimestamp();
+
+      await expect(contract.balanceOfAt(addr2.address, transferTime))
+        .to.be.revertedWithCustomError(contract, "ShareHistoryUnavailable")
+        .withArgs(addr2.address, transferTime);
+      await expect(contract.balanceOfAt(addr1.address, historyTime - 2))
+        .to.be.revertedWithCustomError(contract, "ShareHistoryUnavailable")
+        .withArgs(addr1.address, historyTime - 2);
+    });
+
+    it("enables the share history once", async () => {
+      const { contract, addr1, addr2, historyTime } = await loadFixture(deployYBSFixture);
+
+      expect(await contract.shareHistoryStartOf(addr1.address)).to.equal(historyTime);
+      expect(await contract.shareHistoryStartOf(addr2.address)).to.equal(0);
+
+      await expect((contract.connect(addr2) as Contract).enableShareHistory())
+        .to.emit(contract, "ShareHistoryEnabled")
+        .withArgs(addr2.address);
+      expect(await contract.shareHistoryStartOf(addr2.address)).to.equal(await getBlockTimestamp());
+
+      await expect((contract.connect(addr2) as Contract).enableShareHistory())
+        .to.be.revertedWithCustomError(contract, "ShareHistoryAlreadyEnabled");
+    });
+
+    it("enables the share history of other accounts with the asset protection role", async () => {
+      const { contract, addr1, addr2, historyTime } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr2.address, amount);
+      const transferTime = await getBlockTimestamp();
+
+      await expect(contract.enableShareHistoryForAccounts([addr1.address, addr2.address]))
+        .to.emit(contract, "ShareHistoryEnabled")
+        .withArgs(addr2.address);
+      const enableTime = await getBlockTimestamp();
+
+      // addr1 keeps the start of its own share history
+      expect(await contract.shareHistoryStartOf(addr1.address)).to.equal(historyTime);
+      expect(await contract.shareHistoryStartOf(addr2.address)).to.equal(enableTime);
+
+      await contract.transfer(addr2.address, amount);
+      expect(await contract.balanceOfAt(addr2.address, enableTime)).to.equal(amount);
+
+      // the shares held before the history was enabled were not checkpointed
+      await expect(contract.balanceOfAt(addr2.address, transferTime))
+        .to.be.revertedWithCustomError(contract, "ShareHistoryUnavailable")
+        .withArgs(addr2.address, transferTime);
+    });
+
+    it("reverts when enabling the share history of other accounts without the asset protection role", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(addr1) as Contract).enableShareHistoryForAccounts([addr2.address]))
+        .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.ASSET_PROTECTION_ROLE}`);
+    });
+
+    it("tracks fixed shares", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr1.address, amount);
+      await (contract.connect(addr1) as Contract).optOutOfYield();
+      const optOutTime = await getBlockTimestamp();
+
+      const effectTime = await increaseMultiplier(contract);
+      await time.increaseTo(effectTime);
+
+      expect(await contract.fixedSharesOf(addr1.address)).to.equal(amount);
+      expect(await contract.balanceOfAt(addr1.address, optOutTime - 1)).to.equal(amount);
+      expect(await contract.balanceOfAt(addr1.address, effectTime)).to.equal(amount);
+
+      const multiplier = base * (base + rebaseRate) / base;
+      expect(await contract.totalSupplyAt(effectTime))
+        .to.equal((totalSupply - amount) * multiplier / base + amount);
+    });
+  });
+
+  describe("gas", () => {
+    // Checkpointing both accounts of a transfer costs about 56k gas
+    const transferGasLimit = 100000n;
+
+    it("does not checkpoint the transfers of accounts without share history", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployYBSFixture);
+      const [, , , addr3] = await ethers.getSigners();
+      await contract.transfer(addr1.address, amount);
+      await contract.transfer(addr2.address, amount);
+      await contract.transfer(addr3.address, amount);
+
+      const tx = await (contract.connect(addr2) as Contract).transfer(addr3.address, amount);
+      expect((await tx.wait()).gasUsed).to.be.lessThan(transferGasLimit);
+
+      // both accounts enabled their share history, so both are checkpointed
+      const historyTx = await (contract.connect(addr1) as Contract).transfer(admin.address, amount);
+      expect((await historyTx.wait()).gasUsed).to.be.greaterThan(transferGasLimit);
+      expect(await contract.balanceOfAt(addr1.address, await getBlockTimestamp() - 1)).to.equal(amount);
+    });
+  });
+});
@@ -1,7 +1,10 @@
 import { expect } from "chai";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { Contract, ZeroHash, parseUnits } from "ethers";
 
 import { deployYBSFixture } from "./helpers/fixtures";
+import { roles, operations } from "./helpers/constants";
+import { MAX_UINT256 } from "./helpers/signature";
 
 describe("YBS Pausable Token", function () {
 
@@ -99,4 +102,124 @@ describe("YBS Pausable Token", function () {
       await expect(contract.pause()).to.be.revertedWith("Pausable: paused");
     });
   });
+
+  describe("operation pause", function () {
+    const amount = 10;
+
+    it("pauses and unpauses an operation class", async function () {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.pauseOperation(operations.TRANSFER))
+        .to.emit(contract, "OperationPaused").withArgs(operations.TRANSFER);
+      expect(await contract.isOperationPaused(operations.TRANSFER)).to.be.true;
+      expect(await contract.isOperationPaused(operations.APPROVAL)).to.be.false;
+      expect(await contract.paused()).to.be.false;
+
+      await expect(contract.unpauseOperation(operations.TRANSFER))
+        .to.emit(contract, "OperationUnpaused").withArgs(operations.TRANSFER);
+      expect(await contract.isOperationPaused(operations.TRANSFER)).to.be.false;
+    });
+
+    it("reverts when caller does not have pause role", async function () {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect(
+        (contract.connect(addr1) as Contract).pauseOperation(operations.TRANSFER)
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.PAUSE_ROLE}`
+      );
+      await expect(
+        (contract.connect(addr1) as Contract).unpauseOperation(operations.TRANSFER)
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.PAUSE_ROLE}`
+      );
+    });
+
+    it("cannot transfer when transfers are paused", async function () {
+      const { contract, admin, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.approve(addr1.address, amount);
+      await contract.pauseOperation(operations.TRANSFER);
+
+      await expect(contract.transfer(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.TRANSFER);
+      await expect(contract.transferShares(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.TRANSFER);
+      await expect((contract.connect(addr1) as Contract).transferFrom(admin.address, addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.TRANSFER);
+      await expect((contract.connect(addr1) as Contract).transferFromBatch([admin.address], [addr1.address], [amount]))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.TRANSFER);
+
+      // other operation classes continue
+      await contract.approve(addr1.address, amount * 2);
+      await contract.increaseSupply(amount);
+      expect(await contract.totalSupply()).to.be.equal(100 + amount);
+
+      await contract.unpauseOperation(operations.TRANSFER);
+      await contract.transfer(addr1.address, amount);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+    });
+
+    it("cannot approve or permit when approvals are paused", async function () {
+      const { contract, admin, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.pauseOperation(operations.APPROVAL);
+
+      await expect(contract.approve(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.APPROVAL);
+      await expect(contract.increaseApproval(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.APPROVAL);
+      await expect(contract.decreaseApproval(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.APPROVAL);
+      await expect(contract.permit(admin.address, addr1.address, amount, MAX_UINT256, 27, ZeroHash, ZeroHash))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.APPROVAL);
+
+      await contract.transfer(addr1.address, amount);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+    });
+
+    it("cannot use signed authorizations when authorizations are paused", async function () {
+      const { contract, admin, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.pauseOperation(operations.AUTHORIZATION);
+
+      await expect(contract.transferWithAuthorization(admin.address, addr1.address, amount, 0, MAX_UINT256, ZeroHash, 27, ZeroHash, ZeroHash))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.AUTHORIZATION);
+      await expect(contract.receiveWithAuthorization(admin.address, admin.address, amount, 0, MAX_UINT256, ZeroHash, 27, ZeroHash, ZeroHash))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.AUTHORIZATION);
+      await expect(contract.cancelAuthorization(admin.address, ZeroHash, 27, ZeroHash, ZeroHash))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.AUTHORIZATION);
+
+      await contract.transfer(addr1.address, amount);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+    });
+
+    it("cannot change the multiplier when rebases are paused", async function () {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.pauseOperation(operations.REBASE);
+
+      await expect(contract.setNextMultiplier(parseUnits("1.1"), MAX_UINT256, 0))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.REBASE);
+      await expect(contract.increaseRebaseMultiplier(0, 0))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.REBASE);
+      await expect(contract.increaseRebaseMultiplierBatch([0], [0]))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.REBASE);
+      await expect(contract.decreaseRebaseMultiplier(parseUnits("0.9"), 0))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.REBASE);
+
+      await contract.transfer(addr1.address, amount);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+    });
+
+    it("is overridden by pause", async function () {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.pauseOperation(operations.APPROVAL);
+      await contract.pause();
+
+      await expect(contract.transfer(addr1.address, amount)).to.be.revertedWith("Pausable: paused");
+      await expect(contract.approve(addr1.address, amount)).to.be.revertedWith("Pausable: paused");
+    });
+  });
 });
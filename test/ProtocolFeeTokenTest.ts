@@ -0,0 +1,249 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, parseUnits } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { roles } from "./helpers/constants";
+import { deployYBS } from "./helpers/fixtures";
+import { getBlockTimestamp } from "./helpers/commonutil";
+
+describe("YBS Protocol Fee", function () {
+  const base = parseUnits("1");
+  const totalSupply = parseUnits("100");
+  const amount = parseUnits("10");
+  const feeRate = parseUnits("0.1");
+  const rebaseRate = parseUnits("0.01");
+  const rebasePeriod = 10;
+
+  // the multiplier is raised by the rebase rate net of the fee
+  const grossMult = base * (base + rebaseRate) / base;
+  const netMult = base * (base + rebaseRate * (base - feeRate) / base) / base;
+  const fee = totalSupply * (grossMult - netMult) / base;
+  const feeShares = fee * base / netMult;
+
+  async function deployYBSFixture() {
+    const [admin, addr1, treasury] = await ethers.getSigners();
+
+    const contract = await deployYBS();
+
+    await contract.increaseSupply(totalSupply);
+    await contract.setRebasePeriod(rebasePeriod);
+    await contract.setMaxRebaseRate(base);
+    await contract.transfer(addr1.address, amount);
+
+    await contract.setFeeRate(feeRate);
+    await contract.setTreasury(treasury.address);
+
+    return { contract, admin, addr1, treasury };
+  }
+
+  // Increases the multiplier one rebase period from now
+  async function increaseMultiplier(contract: Contract, expectedTotalSupply: bigint) {
+    const effectTime = await getBlockTimestamp() + rebasePeriod;
+    await contract.setRebasePeriod(effectTime);
+    const tx = await contract.increaseRebaseMultiplier(rebaseRate, expectedTotalSupply);
+    await contract.setRebasePeriod(rebasePeriod);
+
+    return { tx, effectTime };
+  }
+
+  describe("Fee settings", () => {
+    it("sets the fee rate", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      const newFeeRate = parseUnits("0.2");
+      await expect(contract.setFeeRate(newFeeRate))
+        .to.emit(contract, "FeeRateSet")
+        .withArgs(newFeeRate);
+      expect(await contract.feeRate()).to.equal(newFeeRate);
+
+      await expect(contract.setFeeRate(base))
+        .to.be.revertedWithCustomError(contract, "InvalidFeeRate")
+        .withArgs(base);
+    });
+
+    it("sets the treasury", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.setTreasury(addr1.address))
+        .to.emit(contract, "TreasurySet")
+        .withArgs(addr1.address);
+      expect(await contract.treasury()).to.equal(addr1.address);
+    });
+
+    it("reverts when setting the treasury with a pending multiplier", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await increaseMultiplier(contract, totalSupply * grossMult / base);
+
+      await expect(contract.setTreasury(addr1.address))
+        .to.be.revertedWithCustomError(contract, "CannotChangeRebaseSharesWithPendingMultiplier");
+    });
+
+    it("reverts when setting the fee without the required roles", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(addr1) as Contract).setFeeRate(feeRate))
+        .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.REBASE_ADMIN_ROLE}`);
+      await expect((contract.connect(addr1) as Contract).setTreasury(addr1.address))
+        .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.DEFAULT_ADMIN_ROLE}`);
+    });
+  });
+
+  describe("Fee accrual", () => {
+    it("gives holders the yield net of the fee", async () => {
+      const { contract, admin, addr1, treasury } = await loadFixture(deployYBSFixture);
+
+      const { tx, effectTime } = await increaseMultiplier(contract, totalSupply * grossMult / base);
+      await expect(tx)
+        .to.emit(contract, "FeeAccrued")
+        .withArgs(treasury.address, fee, feeShares, effectTime)
+        .not.to.emit(contract, "TransferShares");
+
+      expect(await contract.afterIncrMult()).to.equal(netMult);
+      expect(await contract.balanceOfAfterPendingRebase(treasury.address)).to.equal(feeShares * netMult / base);
+      expect(await contract.totalSupplyAfterPendingRebase()).to.be.lessThanOrEqual(totalSupply * grossMult / base);
+
+      // the fee is minted by the first rebase once the increase takes effect
+      await time.increaseTo(effectTime);
+      expect(await contract.rebaseSharesOf(treasury.address)).to.equal(0);
+      await expect(contract.increaseRebaseMultiplier(0, ethers.MaxUint256))
+        .to.emit(contract, "TransferShares")
+        .withArgs(ethers.ZeroAddress, treasury.address, feeShares);
+
+      const yield1 = amount * rebaseRate / base;
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount + yield1 * (base - feeRate) / base);
+      const yieldAdmin = (totalSupply - amount) * rebaseRate / base;
+      expect(await contract.balanceOf(admin.address)).to.equal(totalSupply - amount + yieldAdmin * (base - feeRate) / base);
+
+      // the treasury collects the fee, rounded down to its shares
+      expect(await contract.balanceOf(treasury.address)).to.equal(feeShares * netMult / base);
+      expect(fee - await contract.balanceOf(treasury.address)).to.be.lessThanOrEqual(1);
+      expect(await contract.totalSupply()).to.be.lessThanOrEqual(totalSupply * grossMult / base);
+    });
+
+    it("checks the expected total supply including the fee", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await contract.setRebasePeriod(effectTime);
+
+      // the supply of the holders alone, without the fee
+      await expect(contract.increaseRebaseMultiplier(rebaseRate, totalSupply * netMult / base))
+        .to.be.revertedWithCustomError(contract, "UnexpectedTotalSupply");
+    });
+
+    it("accrues the fee of queued increases", async () => {
+      const { contract, treasury } = await loadFixture(deployYBSFixture);
+
+      const { effectTime } = await increaseMultiplier(contract, totalSupply * grossMult / base);
+
+      const secondMult = netMult * (base + rebaseRate * (base - feeRate) / base) / base;
+      const secondFee = (totalSupply + feeShares) * (netMult * grossMult / base - secondMult) / base;
+      await expect(contract.increaseRebaseMultiplier(rebaseRate, totalSupply * grossMult * grossMult / base / base))
+        .to.emit(contract, "FeeAccrued")
+        .withArgs(treasury.address, secondFee, secondFee * base / secondMult, effectTime + rebasePeriod);
+
+      await time.increaseTo(effectTime + rebasePeriod);
+      expect(await contract.getActiveMultiplier()).to.equal(secondMult);
+    });
+
+    it("revokes the fee of a canceled increase", async () => {
+      const { contract, admin, treasury } = await loadFixture(deployYBSFixture);
+
+      await contract.grantRole(roles.REBASE_GUARDIAN_ROLE, admin.address);
+      const { effectTime } = await increaseMultiplier(contract, totalSupply * grossMult / base);
+
+      await expect(contract.cancelPendingMultiplier())
+        .to.emit(contract, "FeeRevoked")
+        .withArgs(treasury.address, feeShares, effectTime)
+        .not.to.emit(contract, "TransferShares");
+
+      expect(await contract.balanceOfAfterPendingRebase(treasury.address)).to.equal(0);
+      expect(await contract.totalSupplyAfterPendingRebase()).to.equal(totalSupply);
+    });
+
+    it("revokes the fee of an increase canceled by a decrease", async () => {
+      const { contract, treasury } = await loadFixture(deployYBSFixture);
+
+      await contract.setMaxRebaseDecreaseRate(rebaseRate);
+      const { effectTime } = await increaseMultiplier(contract, totalSupply * grossMult / base);
+
+      await expect(contract.decreaseRebaseMultiplier(rebaseRate, 0))
+        .to.emit(contract, "FeeRevoked")
+        .withArgs(treasury.address, feeShares, effectTime);
+
+      expect(await contract.balanceOfAfterPendingRebase(treasury.address)).to.equal(0);
+    });
+
+    it("keeps the supply backed when an increase is canceled after the treasury tried to spend the fee", async () => {
+      const { contract, admin, addr1, treasury } = await loadFixture(deployYBSFixture);
+
+      await contract.grantRole(roles.REBASE_GUARDIAN_ROLE, admin.address);
+      const { effectTime } = await increaseMultiplier(contract, totalSupply * grossMult / base);
+
+      // the fee is not spendable before the increase takes effect
+      expect(await contract.balanceOf(treasury.address)).to.equal(0);
+      await expect((contract.connect(treasury) as Contract).transfer(addr1.address, fee))
+        .to.be.revertedWithCustomError(contract, "ERC20InsufficientBalance");
+      expect(await contract.totalSupply()).to.equal(totalSupply);
+
+      await contract.cancelPendingMultiplier();
+
+      await time.increaseTo(effectTime);
+      await contract.increaseRebaseMultiplier(0, ethers.MaxUint256);
+      expect(await contract.rebaseSharesOf(treasury.address)).to.equal(0);
+      expect(await contract.totalSupply()).to.equal(totalSupply);
+    });
+
+    it("mints the fees of queued increases as they take effect", async () => {
+      const { contract, treasury } = await loadFixture(deployYBSFixture);
+
+      const { effectTime } = await increaseMultiplier(contract, totalSupply * grossMult / base);
+      await contract.increaseRebaseMultiplier(rebaseRate, ethers.MaxUint256);
+      // both fees are quoted to the treasury before they are minted
+      expect(await contract.balanceOfAfterPendingRebase(treasury.address)).to.be.greaterThan(fee);
+
+      await time.increaseTo(effectTime);
+      await expect(contract.increaseRebaseMultiplier(rebaseRate, ethers.MaxUint256))
+        .to.emit(contract, "TransferShares")
+        .withArgs(ethers.ZeroAddress, treasury.address, feeShares);
+      expect(await contract.rebaseSharesOf(treasury.address)).to.equal(feeShares);
+    });
+
+    it("revokes the fee if the treasury holds fixed shares once the increase takes effect", async () => {
+      const { contract, treasury } = await loadFixture(deployYBSFixture);
+
+      const { effectTime } = await increaseMultiplier(contract, totalSupply * grossMult / base);
+      await (contract.connect(treasury) as Contract).optOutOfYield();
+
+      await time.increaseTo(effectTime);
+      await expect(contract.increaseRebaseMultiplier(0, ethers.MaxUint256))
+        .to.emit(contract, "FeeRevoked")
+        .withArgs(treasury.address, feeShares, effectTime);
+      expect(await contract.balanceOf(treasury.address)).to.equal(0);
+    });
+
+    it("revokes the fee of a replaced increase", async () => {
+      const { contract, treasury } = await loadFixture(deployYBSFixture);
+
+      const { effectTime } = await increaseMultiplier(contract, totalSupply * grossMult / base);
+
+      await expect(contract.setNextMultiplier(grossMult, effectTime, totalSupply * grossMult / base))
+        .to.emit(contract, "FeeRevoked")
+        .withArgs(treasury.address, feeShares, effectTime);
+
+      expect(await contract.rebaseSharesOf(treasury.address)).to.equal(0);
+    });
+
+    it("skips the fee while the treasury holds fixed shares", async () => {
+      const { contract, treasury } = await loadFixture(deployYBSFixture);
+
+      await (contract.connect(treasury) as Contract).optOutOfYield();
+
+      const { tx } = await increaseMultiplier(contract, totalSupply * grossMult / base);
+      await expect(tx).not.to.emit(contract, "FeeAccrued");
+      expect(await contract.afterIncrMult()).to.equal(grossMult);
+    });
+  });
+});
@@ -1,10 +1,11 @@
 import { expect } from "chai";
-import { ethers, network, upgrades } from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
-import { parseUnits, MaxUint256 } from "ethers";
+import { ethers, network } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { Contract, parseUnits, MaxUint256 } from "ethers";
 
-import { CONTRACT_NAME } from "./helpers/constants";
+import { CONTRACT_NAME, W_CONTRACT_NAME, W_NAME, W_SYMBOL, roles } from "./helpers/constants";
 import { getBlockTimestamp } from "./helpers/commonutil";
+import { deployTokenProxy } from "./helpers/fixtures";
 
 describe("YBS Rebasing Token", function () {
   const name = "Yield Bearing Stablecoin";
@@ -29,10 +30,7 @@ describe("YBS Rebasing Token", function () {
       admin.address,
     ];
 
-    const YBS = await ethers.getContractFactory(CONTRACT_NAME);
-    const contract = await upgrades.deployProxy(YBS, initializerArgs, {
-      initializer: "initialize",
-    });
+    const contract = await deployTokenProxy(CONTRACT_NAME, initializerArgs);
 
     await contract.increaseSupply(totalSupply);
     await contract.setRebasePeriod(rebasePeriod);
@@ -156,12 +154,13 @@ describe("YBS Rebasing Token", function () {
       expect(await contract.getActiveMultiplier()).to.equal(afterIncrMult);
     });
 
-    it("reverts if next multiplier is already set", async () => {
+    it("reverts if next multiplier is already set and rebase period is zero", async () => {
       const { contract } = await loadFixture(deployYBSFixture);
 
       const currentBlockTimestamp = await getBlockTimestamp();
       await contract.setNextMultiplier(afterIncrMult, currentBlockTimestamp + 10, afterIncrTotalSupply);
-      await expect(contract.increaseRebaseMultiplier(rebaseRate, afterIncrTotalSupply))
+      await contract.setRebasePeriod(0);
+      await expect(contract.increaseRebaseMultiplier(0, afterIncrTotalSupply))
         .to.be.revertedWithCustomError(contract, "NextIncreaseAlreadySet");
     });
     
@@ -486,7 +485,7 @@ describe("YBS Rebasing Token", function () {
         .withArgs(amount);
     });
 
-    it("a change in rebaseShares should revert when there is a pending multiplier", async () => {
+    it("unblocking should revert when there is a pending multiplier", async () => {
       const { contract, addr1, addr2} = await loadFixture(deployYBSFixture);
 
       // initial setup before setting pending multiplier
@@ -494,16 +493,10 @@ describe("YBS Rebasing Token", function () {
       await contract.transfer(addr2.address, 1);
       await contract.blockAccounts([addr2.address]);
 
-      // set future multiplier then attempt changing rebase shares through mint/burn/block/unblock
+      // set future multiplier then attempt changing rebase shares through unblock
       const effectTime = await getBlockTimestamp() + 500;
       await contract.setNextMultiplier(afterIncrMult, effectTime+rebasePeriod, afterIncrTotalSupply);
 
-      await expect(contract.increaseSupply(1))
-        .to.be.revertedWithCustomError(contract, "CannotChangeRebaseSharesWithPendingMultiplier");
-
-      await expect(contract.decreaseSupply(1))
-        .to.be.revertedWithCustomError(contract, "CannotChangeRebaseSharesWithPendingMultiplier");
-
       await expect(contract.unblockAccounts([addr2.address]))
         .to.be.revertedWithCustomError(contract, "CannotChangeRebaseSharesWithPendingMultiplier");
     });
@@ -622,6 +615,974 @@ describe("YBS Rebasing Token", function () {
     });
   });
 
+  describe("Multiplier schedule", () => {
+    const base = parseUnits("1");
+    const wei = parseUnits("1", -18);
+    const rebaseRate = parseUnits("0.0002");
+
+    async function deployPendingIncreaseFixture() {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await contract.setRebasePeriod(effectTime);
+      await contract.increaseRebaseMultiplier(rebaseRate, totalSupply * (base + rebaseRate) / base);
+      await contract.setRebasePeriod(rebasePeriod);
+
+      return { contract, admin, addr1, addr2, effectTime };
+    }
+
+    it("queues an increase when one is already pending", async () => {
+      const { contract, effectTime } = await loadFixture(deployPendingIncreaseFixture);
+
+      const firstMult = base * (base + rebaseRate) / base;
+      const secondMult = firstMult * (base + rebaseRate) / base;
+      const expectedTotalSupply = totalSupply * secondMult / base;
+
+      await expect(contract.increaseRebaseMultiplier(rebaseRate, expectedTotalSupply))
+        .to.emit(contract, "RebaseMultiplierScheduled")
+        .withArgs(firstMult, secondMult, effectTime + rebasePeriod);
+
+      const schedule = await contract.getMultiplierSchedule();
+      expect(schedule.length).to.equal(1);
+      expect(schedule[0].multiplier).to.equal(secondMult);
+      expect(schedule[0].effectiveTime).to.equal(effectTime + rebasePeriod);
+
+      // the pending pair is unchanged
+      expect(await contract.afterIncrMult()).to.equal(firstMult);
+      expect(await contract.multIncrTime()).to.equal(effectTime);
+    });
+
+    it("walks the schedule as each multiplier takes effect", async () => {
+      const { contract, effectTime } = await loadFixture(deployPendingIncreaseFixture);
+
+      const mults = [base * (base + rebaseRate) / base];
+      for (let i = 1; i < 4; i++) {
+        mults.push(mults[i - 1] * (base + rebaseRate) / base);
+      }
+      const rates = [rebaseRate, rebaseRate, rebaseRate];
+      const expectedTotalSupplies = mults.slice(1).map((mult) => totalSupply * mult / base);
+      await contract.increaseRebaseMultiplierBatch(rates, expectedTotalSupplies);
+
+      expect(await contract.getActiveMultiplier()).to.equal(base);
+
+      for (let i = 0; i < mults.length; i++) {
+        await time.increaseTo(effectTime + i * rebasePeriod);
+        expect(await contract.getActiveMultiplier()).to.equal(mults[i]);
+        expect(await contract.totalSupply()).to.equal(totalSupply * mults[i] / base);
+      }
+    });
+
+    it("rolls elapsed checkpoints into the pending pair on the next increase", async () => {
+      const { contract, effectTime } = await loadFixture(deployPendingIncreaseFixture);
+
+      const firstMult = base * (base + rebaseRate) / base;
+      const secondMult = firstMult * (base + rebaseRate) / base;
+      const thirdMult = secondMult * (base + rebaseRate) / base;
+      await contract.increaseRebaseMultiplier(rebaseRate, totalSupply * secondMult / base);
+
+      // the first checkpoint takes effect, the queued one is still pending
+      await time.increaseTo(effectTime + 1);
+
+      await expect(contract.increaseRebaseMultiplier(rebaseRate, totalSupply * thirdMult / base))
+        .to.emit(contract, "RebaseMultiplierScheduled")
+        .withArgs(secondMult, thirdMult, effectTime + 2 * rebasePeriod);
+
+      expect(await contract.beforeIncrMult()).to.equal(firstMult);
+      expect(await contract.afterIncrMult()).to.equal(secondMult);
+      expect(await contract.multIncrTime()).to.equal(effectTime + rebasePeriod);
+
+      const schedule = await contract.getMultiplierSchedule();
+      expect(schedule.length).to.equal(1);
+      expect(schedule[0].multiplier).to.equal(thirdMult);
+    });
+
+    it("reverts when the schedule is full", async () => {
+      const { contract } = await loadFixture(deployPendingIncreaseFixture);
+
+      const maxScheduled = Number(await contract.MAX_SCHEDULED_MULTIPLIERS());
+      const rates = Array(maxScheduled).fill(0);
+      const expectedTotalSupplies = Array(maxScheduled).fill(MaxUint256);
+      await contract.increaseRebaseMultiplierBatch(rates, expectedTotalSupplies);
+
+      await expect(contract.increaseRebaseMultiplier(0, MaxUint256))
+        .to.be.revertedWithCustomError(contract, "MultiplierScheduleFull");
+    });
+
+    it("reverts when a queued multiplier exceeds maxRebaseRate", async () => {
+      const { contract } = await loadFixture(deployPendingIncreaseFixture);
+
+      await contract.setMaxRebaseRate(rebaseRate);
+
+      await expect(contract.increaseRebaseMultiplierBatch([rebaseRate, rebaseRate + wei], [MaxUint256, MaxUint256]))
+        .to.be.revertedWithCustomError(contract, "InvalidRebaseRate")
+        .withArgs(rebaseRate + wei);
+    });
+
+    it("reverts when a queued multiplier exceeds the expected total supply", async () => {
+      const { contract } = await loadFixture(deployPendingIncreaseFixture);
+
+      const firstMult = base * (base + rebaseRate) / base;
+      const secondMult = firstMult * (base + rebaseRate) / base;
+
+      await expect(contract.increaseRebaseMultiplier(rebaseRate, totalSupply * secondMult / base - wei))
+        .to.be.revertedWithCustomError(contract, "UnexpectedTotalSupply");
+    });
+
+    it("reverts batch when argument lengths mismatch", async () => {
+      const { contract } = await loadFixture(deployPendingIncreaseFixture);
+
+      await expect(contract.increaseRebaseMultiplierBatch([rebaseRate], []))
+        .to.be.revertedWithCustomError(contract, "ArgumentLengthMismatch");
+    });
+
+    it("setNextMultiplier clears the schedule", async () => {
+      const { contract, effectTime } = await loadFixture(deployPendingIncreaseFixture);
+
+      await contract.increaseRebaseMultiplier(rebaseRate, MaxUint256);
+
+      const afterIncrMult = base * (base + rebaseRate) / base;
+      await expect(contract.setNextMultiplier(afterIncrMult, effectTime, MaxUint256))
+        .to.emit(contract, "RebaseMultiplierScheduleCleared");
+
+      expect((await contract.getMultiplierSchedule()).length).to.equal(0);
+
+      await time.increaseTo(effectTime + rebasePeriod);
+      expect(await contract.getActiveMultiplier()).to.equal(afterIncrMult);
+    });
+
+    it("a change in rebaseShares should revert until the schedule takes effect", async () => {
+      const { contract, effectTime } = await loadFixture(deployPendingIncreaseFixture);
+
+      await contract.increaseRebaseMultiplier(rebaseRate, MaxUint256);
+
+      await time.increaseTo(effectTime);
+      await expect(contract.optInToYield())
+        .to.be.revertedWithCustomError(contract, "CannotChangeRebaseSharesWithPendingMultiplier");
+
+      await time.increaseTo(effectTime + rebasePeriod);
+      await expect(contract.increaseSupply(base)).not.to.be.reverted;
+    });
+  });
+
+  describe("Rebase decrease", () => {
+    const base = parseUnits("1");
+    const wei = parseUnits("1", -18);
+    const maxDecreaseRate = parseUnits("0.01");
+    const decreaseRate = parseUnits("0.005");
+    const amount = parseUnits("23");
+
+    async function deployRebaseDecreaseFixture() {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await contract.setMaxRebaseDecreaseRate(maxDecreaseRate);
+
+      return { contract, admin, addr1, addr2 };
+    }
+
+    async function deployWrappedFixture() {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRebaseDecreaseFixture);
+
+      const initializerArgs = [
+        W_NAME,
+        W_SYMBOL,
+        await contract.getAddress(),
+        admin.address,
+        admin.address,
+        admin.address,
+      ];
+      const wYbsContract = await deployTokenProxy(W_CONTRACT_NAME, initializerArgs);
+
+      await contract.approve(await wYbsContract.getAddress(), amount);
+      await wYbsContract.deposit(amount, admin.address);
+
+      return { contract, wYbsContract, admin, addr1, addr2 };
+    }
+
+    it("sets the max rebase decrease rate", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.setMaxRebaseDecreaseRate(maxDecreaseRate))
+        .to.emit(contract, "MaxRebaseDecreaseRateSet")
+        .withArgs(maxDecreaseRate);
+      expect(await contract.maxRebaseDecreaseRate()).to.equal(maxDecreaseRate);
+    });
+
+    it("max rebase decrease rate must be below base", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.setMaxRebaseDecreaseRate(base))
+        .to.be.revertedWithCustomError(contract, "InvalidMaxRebaseDecreaseRate")
+        .withArgs(base);
+    });
+
+    it("decreases the active multiplier immediately", async () => {
+      const { contract } = await loadFixture(deployRebaseDecreaseFixture);
+
+      const multIncrTime = await contract.multIncrTime();
+      const expectedMult = base * (base - decreaseRate) / base;
+      const expectedTotalSupply = totalSupply * expectedMult / base;
+
+      await expect(contract.decreaseRebaseMultiplier(decreaseRate, expectedTotalSupply))
+        .to.emit(contract, "RebaseMultiplierDecreased")
+        .withArgs(base, expectedMult, decreaseRate)
+        .to.emit(contract, "RebaseMultipliersSet")
+        .withArgs(expectedMult, expectedMult, multIncrTime);
+
+      expect(await contract.getActiveMultiplier()).to.equal(expectedMult);
+      expect(await contract.lastRebaseDecreaseTime()).to.equal(await getBlockTimestamp());
+    });
+
+    it("decreases balances and total supply of rebase shares only", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployRebaseDecreaseFixture);
+
+      await contract.transfer(addr1.address, amount);
+      await contract.transfer(addr2.address, amount);
+      await contract.blockAccounts([addr2.address]);
+
+      const expectedMult = base * (base - decreaseRate) / base;
+      const rebaseShares = await contract.totalRebaseShares();
+      const expectedTotalSupply = (rebaseShares * expectedMult / base) + amount;
+      await contract.decreaseRebaseMultiplier(decreaseRate, expectedTotalSupply);
+
+      expect(await contract.totalSupply()).to.equal(expectedTotalSupply);
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount * expectedMult / base);
+      // fixed shares do not change
+      expect(await contract.balanceOf(addr2.address)).to.equal(amount);
+      expect(await contract.totalRebaseShares()).to.equal(rebaseShares);
+    });
+
+    it("decreases the assets redeemable from wYBS", async () => {
+      const { contract, wYbsContract } = await loadFixture(deployWrappedFixture);
+
+      expect(await wYbsContract.previewRedeem(amount)).to.equal(amount);
+
+      const expectedMult = base * (base - decreaseRate) / base;
+      await contract.decreaseRebaseMultiplier(decreaseRate, totalSupply * expectedMult / base - wei);
+
+      const expectedAssets = amount * expectedMult / base;
+      expect(await contract.balanceOf(await wYbsContract.getAddress())).to.equal(expectedAssets);
+      expect(await wYbsContract.previewRedeem(amount)).to.be.within(expectedAssets - wei, expectedAssets);
+      expect(await wYbsContract.totalAssets()).to.equal(expectedAssets);
+    });
+
+    it("increases continue from the decreased multiplier", async () => {
+      const { contract } = await loadFixture(deployRebaseDecreaseFixture);
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await contract.setRebasePeriod(effectTime);
+
+      const decreasedMult = base * (base - decreaseRate) / base;
+      await contract.decreaseRebaseMultiplier(decreaseRate, totalSupply * decreasedMult / base);
+
+      const rebaseRate = parseUnits("0.0002");
+      const afterIncrMult = decreasedMult * (base + rebaseRate) / base;
+      await expect(contract.increaseRebaseMultiplier(rebaseRate, totalSupply * afterIncrMult / base))
+        .to.emit(contract, "RebaseMultipliersSet")
+        .withArgs(decreasedMult, afterIncrMult, effectTime);
+
+      await time.increaseTo(effectTime);
+      expect(await contract.totalSupply()).to.equal(totalSupply * afterIncrMult / base);
+    });
+
+    it("reverts when the decrease rate is zero or exceeds maxRebaseDecreaseRate", async () => {
+      const { contract } = await loadFixture(deployRebaseDecreaseFixture);
+
+      await expect(contract.decreaseRebaseMultiplier(0, 0))
+        .to.be.revertedWithCustomError(contract, "InvalidRebaseDecreaseRate")
+        .withArgs(0);
+
+      await expect(contract.decreaseRebaseMultiplier(maxDecreaseRate + wei, 0))
+        .to.be.revertedWithCustomError(contract, "InvalidRebaseDecreaseRate")
+        .withArgs(maxDecreaseRate + wei);
+    });
+
+    it("reverts when decreasing more than the expected total supply", async () => {
+      const { contract } = await loadFixture(deployRebaseDecreaseFixture);
+
+      const expectedMult = base * (base - decreaseRate) / base;
+      const expectedTotalSupply = totalSupply * expectedMult / base;
+
+      await expect(contract.decreaseRebaseMultiplier(decreaseRate, expectedTotalSupply + wei))
+        .to.be.revertedWithCustomError(contract, "UnexpectedTotalSupply");
+    });
+
+    it("cancels a pending increase before decreasing", async () => {
+      const { contract } = await loadFixture(deployRebaseDecreaseFixture);
+
+      const afterIncrMult = parseUnits("1.0002");
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await contract.setNextMultiplier(afterIncrMult, effectTime, totalSupply * afterIncrMult / base);
+
+      const expectedMult = base * (base - decreaseRate) / base;
+      await expect(contract.decreaseRebaseMultiplier(decreaseRate, 0))
+        .to.emit(contract, "PendingMultiplierCanceled")
+        .withArgs(base, afterIncrMult, effectTime)
+        .to.emit(contract, "RebaseMultiplierDecreased")
+        .withArgs(base, expectedMult, decreaseRate)
+        .to.emit(contract, "RebaseMultipliersSet")
+        .withArgs(expectedMult, expectedMult, effectTime);
+
+      await time.increaseTo(effectTime);
+      expect(await contract.getActiveMultiplier()).to.equal(expectedMult);
+      expect(await contract.totalSupply()).to.equal(totalSupply * expectedMult / base);
+    });
+
+    it("reverts when decreasing again within the rebase period", async () => {
+      const { contract } = await loadFixture(deployRebaseDecreaseFixture);
+
+      await contract.decreaseRebaseMultiplier(decreaseRate, 0);
+      const decreaseTime = await getBlockTimestamp();
+
+      await expect(contract.decreaseRebaseMultiplier(decreaseRate, 0))
+        .to.be.revertedWithCustomError(contract, "RebaseDecreaseTooSoon");
+
+      await time.increaseTo(decreaseTime + rebasePeriod);
+      await expect(contract.decreaseRebaseMultiplier(decreaseRate, 0))
+        .to.be.revertedWithCustomError(contract, "RebaseDecreaseTooSoon");
+
+      // rebasePeriod is shorter than the min interval between decreases
+      const minInterval = await contract.MIN_REBASE_DECREASE_INTERVAL();
+      await time.increaseTo(decreaseTime + Number(minInterval));
+      await expect(contract.decreaseRebaseMultiplier(decreaseRate, 0)).not.to.be.reverted;
+    });
+
+    it("waits for the rebase period when it exceeds the min interval between decreases", async () => {
+      const { contract } = await loadFixture(deployRebaseDecreaseFixture);
+
+      const minInterval = Number(await contract.MIN_REBASE_DECREASE_INTERVAL());
+      await contract.setRebasePeriod(minInterval * 2);
+      await contract.decreaseRebaseMultiplier(decreaseRate, 0);
+      const decreaseTime = await getBlockTimestamp();
+
+      await time.increaseTo(decreaseTime + minInterval);
+      await expect(contract.decreaseRebaseMultiplier(decreaseRate, 0))
+        .to.be.revertedWithCustomError(contract, "RebaseDecreaseTooSoon");
+
+      await time.increaseTo(decreaseTime + minInterval * 2);
+      await expect(contract.decreaseRebaseMultiplier(decreaseRate, 0)).not.to.be.reverted;
+    });
+
+    it("allows a single decrease per block with a zero rebase period", async () => {
+      const { contract } = await loadFixture(deployRebaseDecreaseFixture);
+      await contract.setRebasePeriod(0);
+
+      await network.provider.send("evm_setAutomine", [false]);
+      try {
+        // An explicit gas limit skips the gas estimation, which would revert the second call early
+        const first = await contract.decreaseRebaseMultiplier(decreaseRate, 0, { gasLimit: 500000 });
+        const second = await contract.decreaseRebaseMultiplier(decreaseRate, 0, { gasLimit: 500000 });
+        await network.provider.send("evm_mine");
+
+        await expect(first).not.to.be.reverted;
+        await expect(second).to.be.reverted;
+      } finally {
+        await network.provider.send("evm_setAutomine", [true]);
+      }
+
+      await expect(contract.decreaseRebaseMultiplier(decreaseRate, 0))
+        .to.be.revertedWithCustomError(contract, "RebaseDecreaseTooSoon");
+
+      expect(await contract.getActiveMultiplier()).to.equal(base * (base - decreaseRate) / base);
+    });
+  });
+
+  describe("Rebase guardian", () => {
+    const base = parseUnits("1");
+    const rebaseRate = parseUnits("0.0002");
+
+    async function deployRebaseGuardianFixture() {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await contract.grantRole(roles.REBASE_GUARDIAN_ROLE, addr1.address);
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await contract.setRebasePeriod(effectTime);
+      await contract.increaseRebaseMultiplier(rebaseRate, totalSupply * (base + rebaseRate) / base);
+      await contract.setRebasePeriod(rebasePeriod);
+
+      return { contract, admin, addr1, addr2, effectTime };
+    }
+
+    it("cancels the pending multiplier increase", async () => {
+      const { contract, addr1, effectTime } = await loadFixture(deployRebaseGuardianFixture);
+
+      const pendingMult = base * (base + rebaseRate) / base;
+      expect(await contract.afterIncrMult()).to.equal(pendingMult);
+
+      await expect((contract.connect(addr1) as Contract).cancelPendingMultiplier())
+        .to.emit(contract, "PendingMultiplierCanceled")
+        .withArgs(base, pendingMult, effectTime)
+        .to.emit(contract, "RebaseMultipliersSet")
+        .withArgs(base, base, effectTime);
+
+      expect(await contract.beforeIncrMult()).to.equal(base);
+      expect(await contract.afterIncrMult()).to.equal(base);
+      expect(await contract.multIncrTime()).to.equal(effectTime);
+
+      await time.increaseTo(effectTime + 1);
+      expect(await contract.getActiveMultiplier()).to.equal(base);
+      expect(await contract.totalSupply()).to.equal(totalSupply);
+    });
+
+    it("clears multipliers queued behind the pending increase", async () => {
+      const { contract, addr1, effectTime } = await loadFixture(deployRebaseGuardianFixture);
+
+      const firstMult = base * (base + rebaseRate) / base;
+      const secondMult = firstMult * (base + rebaseRate) / base;
+      await contract.increaseRebaseMultiplier(rebaseRate, totalSupply * secondMult / base);
+      expect((await contract.getMultiplierSchedule()).length).to.equal(1);
+
+      await expect((contract.connect(addr1) as Contract).cancelPendingMultiplier())
+        .to.emit(contract, "PendingMultiplierCanceled")
+        .withArgs(base, secondMult, effectTime)
+        .to.emit(contract, "RebaseMultiplierScheduleCleared");
+
+      expect((await contract.getMultiplierSchedule()).length).to.equal(0);
+
+      await time.increaseTo(effectTime + rebasePeriod + 1);
+      expect(await contract.getActiveMultiplier()).to.equal(base);
+    });
+
+    it("allows opting in to yield once the pending increase is canceled", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployRebaseGuardianFixture);
+
+      await (contract.connect(addr2) as Contract).optOutOfYield();
+      await expect((contract.connect(addr2) as Contract).optInToYield())
+        .to.be.revertedWithCustomError(contract, "CannotChangeRebaseSharesWithPendingMultiplier");
+
+      await (contract.connect(addr1) as Contract).cancelPendingMultiplier();
+
+      await expect((contract.connect(addr2) as Contract).optInToYield()).not.to.be.reverted;
+    });
+
+    it("reverts when there is no pending increase", async () => {
+      const { contract, addr1, effectTime } = await loadFixture(deployRebaseGuardianFixture);
+
+      await time.increaseTo(effectTime + 1);
+
+      await expect((contract.connect(addr1) as Contract).cancelPendingMultiplier())
+        .to.be.revertedWithCustomError(contract, "NoPendingMultiplier");
+    });
+
+    it("reverts when called by a non-guardian", async () => {
+      const { contract, addr2 } = await loadFixture(deployRebaseGuardianFixture);
+
+      await expect((contract.connect(addr2) as Contract).cancelPendingMultiplier())
+        .to.be.revertedWith(`AccessControl: account ${addr2.address.toLowerCase()} is missing role ${roles.REBASE_GUARDIAN_ROLE}`);
+    });
+
+    it("cannot raise the multiplier", async () => {
+      const { contract, addr1 } = await loadFixture(deployRebaseGuardianFixture);
+      const guardian = contract.connect(addr1) as Contract;
+
+      await expect(guardian.increaseRebaseMultiplier(rebaseRate, 0))
+        .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.REBASE_ROLE}`);
+
+      await expect(guardian.setNextMultiplier(base * 2n, await getBlockTimestamp() + rebasePeriod, 0))
+        .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.REBASE_ADMIN_ROLE}`);
+    });
+  });
+
+  describe("Share events", () => {
+    const base = parseUnits("1");
+    const afterIncrMult = parseUnits("1.0002");
+    const amount = parseUnits("10");
+
+    async function deployRebasedFixture() {
+      const { contract, admin, addr1, addr2 } = await deployYBSFixture();
+
+      const expectedTotalSupply = totalSupply * afterIncrMult / base;
+      await contract.setNextMultiplier(afterIncrMult, await getBlockTimestamp() + 1, expectedTotalSupply);
+      await time.increase(1);
+
+      return { contract, admin, addr1, addr2 };
+    }
+
+    // Rebuilds rebase and fixed shares per account, and their totals, from the share events alone.
+    async function replayShareEvents(contract: any) {
+      const rebaseShares = new Map<string, bigint>();
+      const fixedShares = new Map<string, bigint>();
+      let totalRebaseShares = 0n;
+      let totalFixedShares = 0n;
+
+      const apply = (shares: Map<string, bigint>, from: string, to: string, value: bigint) => {
+        if (from !== ethers.ZeroAddress) shares.set(from, (shares.get(from) ?? 0n) - value);
+        if (to !== ethers.ZeroAddress) shares.set(to, (shares.get(to) ?? 0n) + value);
+        if (from === ethers.ZeroAddress) return value;
+        if (to === ethers.ZeroAddress) return -value;
+        return 0n;
+      };
+
+      const events = [
+        ...(await contract.queryFilter(contract.filters.TransferShares())),
+        ...(await contract.queryFilter(contract.filters.TransferFixedShares())),
+      ].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+      for (const event of events) {
+        const [from, to, value] = event.args;
+        if (event.fragment.name === "TransferShares") {
+          totalRebaseShares += apply(rebaseShares, from, to, value);
+        } else {
+          totalFixedShares += apply(fixedShares, from, to, value);
+        }
+      }
+
+      return { rebaseShares, fixedShares, totalRebaseShares, totalFixedShares };
+    }
+
+    async function expectSharesReconcile(contract: any, accounts: string[]) {
+      const replayed = await replayShareEvents(contract);
+
+      expect(replayed.totalRebaseShares).to.equal(await contract.totalRebaseShares());
+      expect(replayed.totalFixedShares).to.equal(await contract.totalFixedShares());
+      for (const account of accounts) {
+        expect(replayed.rebaseShares.get(account) ?? 0n).to.equal(await contract.rebaseSharesOf(account));
+        expect(replayed.fixedShares.get(account) ?? 0n).to.equal(await contract.fixedSharesOf(account));
+      }
+    }
+
+    it("emits share events on mint and burn", async () => {
+      const { contract, admin } = await loadFixture(deployRebasedFixture);
+      const shares = amount * base / afterIncrMult;
+
+      await expect(contract.increaseSupply(amount))
+        .to.emit(contract, "TransferShares")
+        .withArgs(ethers.ZeroAddress, admin.address, shares);
+
+      await expect(contract.decreaseSupply(amount))
+        .to.emit(contract, "TransferShares")
+        .withArgs(admin.address, ethers.ZeroAddress, shares);
+    });
+
+    it("emits share events on block and unblock", async () => {
+      const { contract, addr1 } = await loadFixture(deployRebasedFixture);
+      await contract.transfer(addr1.address, amount);
+      const shares = await contract.rebaseSharesOf(addr1.address);
+      const value = await contract.balanceOf(addr1.address);
+
+      await expect(contract.blockAccounts([addr1.address]))
+        .to.emit(contract, "TransferShares")
+        .withArgs(addr1.address, ethers.ZeroAddress, shares)
+        .to.emit(contract, "TransferFixedShares")
+        .withArgs(ethers.ZeroAddress, addr1.address, value);
+
+      await expect(contract.unblockAccounts([addr1.address]))
+        .to.emit(contract, "TransferFixedShares")
+        .withArgs(addr1.address, ethers.ZeroAddress, value)
+        .to.emit(contract, "TransferShares")
+        .withArgs(ethers.ZeroAddress, addr1.address, value * base / afterIncrMult);
+    });
+
+    it("emits a fixed share event when wiping a blocked account", async () => {
+      const { contract, addr1 } = await loadFixture(deployRebasedFixture);
+      await contract.transfer(addr1.address, amount);
+      await contract.blockAccounts([addr1.address]);
+      const value = await contract.fixedSharesOf(addr1.address);
+
+      await expect(contract.wipeBlockedAddress(addr1.address))
+        .to.emit(contract, "TransferFixedShares")
+        .withArgs(addr1.address, ethers.ZeroAddress, value);
+    });
+
+    it("emits share events on transfers between fixed and rebase shares holders", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRebasedFixture);
+      await contract.setYieldIneligibleAccounts([addr1.address, addr2.address]);
+
+      await expect(contract.transfer(addr1.address, amount))
+        .to.emit(contract, "TransferShares")
+        .withArgs(admin.address, ethers.ZeroAddress, (amount * base + afterIncrMult - 1n) / afterIncrMult)
+        .to.emit(contract, "TransferFixedShares")
+        .withArgs(ethers.ZeroAddress, addr1.address, amount);
+
+      await expect((contract.connect(addr1) as any).transfer(addr2.address, amount))
+        .to.emit(contract, "TransferFixedShares")
+        .withArgs(addr1.address, addr2.address, amount);
+    });
+
+    it("reconciles shares from events across every share changing path", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRebasedFixture);
+      const accounts = [admin.address, addr1.address, addr2.address];
+
+      await contract.transfer(addr1.address, amount);
+      await contract.transfer(addr2.address, amount);
+      await (contract.connect(addr1) as any).optOutOfYield();
+      await (contract.connect(addr1) as any).transfer(addr2.address, amount / 3n);
+      await contract.transfer(addr1.address, amount / 7n);
+      await contract.transferShares(addr2.address, 12345);
+      await contract.blockAccounts([addr2.address]);
+      await contract.unblockAccounts([addr2.address]);
+      await contract.setYieldIneligibleAccounts([addr2.address]);
+      await contract.unsetYieldIneligibleAccounts([addr2.address]);
+      await (contract.connect(addr1) as any).optInToYield();
+      await contract.increaseSupply(amount);
+      await contract.decreaseSupply(amount / 2n);
+      await contract.blockAccounts([addr1.address]);
+      await contract.wipeBlockedAddress(addr1.address);
+
+      await expectSharesReconcile(contract, accounts);
+    });
+  });
+
+  describe("Accrued yield", () => {
+    const base = parseUnits("1");
+    const amount = parseUnits("10");
+
+    async function rebase(contract: any, multiplier: bigint) {
+      const expectedTotalSupply =
+        (await contract.totalRebaseShares()) * multiplier / base + (await contract.totalFixedShares());
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+
+      await contract.setNextMultiplier(multiplier, effectTime, expectedTotalSupply);
+      await time.increaseTo(effectTime);
+    }
+
+    async function expectAccruedYield(contract: any, address: string, principal: bigint, expected: bigint) {
+      const accruedYield = await contract.accruedYieldOf(address);
+
+      expect(accruedYield).to.equal((await contract.balanceOf(address)) - principal);
+      expect(accruedYield).to.be.closeTo(expected, 10);
+    }
+
+    it("does not count minted tokens as yield", async () => {
+      const { contract, admin } = await loadFixture(deployYBSFixture);
+
+      expect(await contract.accruedYieldOf(admin.address)).to.equal(0);
+
+      await contract.decreaseSupply(amount);
+      expect(await contract.accruedYieldOf(admin.address)).to.equal(0);
+    });
+
+    it("accrues yield over multiple rebases with transfers in between", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr1.address, amount);
+      expect(await contract.accruedYieldOf(addr1.address)).to.equal(0);
+
+      await rebase(contract, parseUnits("1.1"));
+      await expectAccruedYield(contract, addr1.address, amount, parseUnits("1"));
+
+      await (contract.connect(addr1) as any).transfer(addr2.address, parseUnits("5"));
+      await expectAccruedYield(contract, addr1.address, parseUnits("5"), parseUnits("1"));
+      await expectAccruedYield(contract, addr2.address, parseUnits("5"), 0n);
+
+      await rebase(contract, parseUnits("1.21"));
+      await expectAccruedYield(contract, addr1.address, parseUnits("5"), parseUnits("1.6"));
+      await expectAccruedYield(contract, addr2.address, parseUnits("5"), parseUnits("0.5"));
+
+      await contract.transfer(addr1.address, amount);
+      await rebase(contract, parseUnits("1.331"));
+      await expectAccruedYield(contract, addr1.address, parseUnits("15"), parseUnits("3.26"));
+    });
+
+    it("counts share transfers at their token value", async () => {
+      const { contract, admin, addr1 } = await loadFixture(deployYBSFixture);
+
+      await rebase(contract, parseUnits("1.1"));
+      const adminYield = await contract.accruedYieldOf(admin.address);
+
+      await contract.transferShares(addr1.address, amount);
+      expect(await contract.accruedYieldOf(admin.address)).to.equal(adminYield);
+      expect(await contract.accruedYieldOf(addr1.address)).to.equal(0);
+    });
+
+    it("stops accruing yield while blocked and resumes when unblocked", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr1.address, amount);
+      await rebase(contract, parseUnits("1.1"));
+      await contract.blockAccounts([addr1.address]);
+      await expectAccruedYield(contract, addr1.address, amount, parseUnits("1"));
+
+      await rebase(contract, parseUnits("1.21"));
+      await expectAccruedYield(contract, addr1.address, amount, parseUnits("1"));
+
+      await contract.unblockAccounts([addr1.address]);
+      expect(await contract.accruedYieldOf(addr1.address)).to.equal(parseUnits("1"));
+
+      await rebase(contract, parseUnits("1.331"));
+      expect(await contract.accruedYieldOf(addr1.address)).to.be.closeTo(parseUnits("2.1"), 10);
+    });
+
+    it("keeps accrued yield when a blocked account is wiped", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr1.address, amount);
+      await rebase(contract, parseUnits("1.1"));
+      await contract.blockAccounts([addr1.address]);
+
+      await contract.wipeBlockedAddress(addr1.address);
+      expect(await contract.balanceOf(addr1.address)).to.equal(0);
+      expect(await contract.accruedYieldOf(addr1.address)).to.equal(parseUnits("1"));
+    });
+  });
+
+  describe("Annual rebase rate", () => {
+    const base = parseUnits("1");
+    const day = 24 * 60 * 60;
+    const maxAnnualRebaseRate = parseUnits("0.1");
+    // 0.1 / 365 is the max daily rate
+    const dailyRate = parseUnits("0.00027");
+    const tooHighDailyRate = parseUnits("0.0003");
+
+    // Anchors multIncrTime with a daily rebase period and a 10% max annual rebase rate.
+    async function deployAnnualRateFixture() {
+      const { contract, admin, addr1, addr2 } = await deployYBSFixture();
+
+      await contract.setRebasePeriod(day);
+      await contract.setMaxAnnualRebaseRate(maxAnnualRebaseRate);
+      const effectTime = await getBlockTimestamp() + 10;
+      await contract.setNextMultiplier(base, effectTime, totalSupply);
+      await time.increaseTo(effectTime);
+
+      return { contract, admin, addr1, addr2 };
+    }
+
+    function expectedSupply(multiplier: bigint) {
+      return totalSupply * multiplier / base;
+    }
+
+    it("sets the max annual rebase rate", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.setMaxAnnualRebaseRate(maxAnnualRebaseRate))
+        .to.emit(contract, "MaxAnnualRebaseRateSet")
+        .withArgs(maxAnnualRebaseRate);
+      expect(await contract.maxAnnualRebaseRate()).to.equal(maxAnnualRebaseRate);
+    });
+
+    it("reverts when setting the max annual rebase rate without the rebase admin role", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(addr1) as any).setMaxAnnualRebaseRate(maxAnnualRebaseRate))
+        .to.be.revertedWith(
+          `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.REBASE_ADMIN_ROLE}`
+        );
+    });
+
+    it("allows a daily increase within the max annual rebase rate", async () => {
+      const { contract } = await loadFixture(deployAnnualRateFixture);
+
+      const multiplier = base * (base + dailyRate) / base;
+      await expect(contract.increaseRebaseMultiplier(dailyRate, expectedSupply(multiplier))).not.to.be.reverted;
+    });
+
+    it("reverts a daily increase above the max annual rebase rate", async () => {
+      const { contract } = await loadFixture(deployAnnualRateFixture);
+
+      await expect(contract.increaseRebaseMultiplier(tooHighDailyRate, MaxUint256))
+        .to.be.revertedWithCustomError(contract, "InvalidAnnualRebaseRate")
+        .withArgs(tooHighDailyRate * 365n);
+    });
+
+    it("reverts when a shorter rebase period raises the annual rate", async () => {
+      const { contract } = await loadFixture(deployAnnualRateFixture);
+
+      await contract.setRebasePeriod(day / 24);
+
+      await expect(contract.increaseRebaseMultiplier(dailyRate, MaxUint256))
+        .to.be.revertedWithCustomError(contract, "InvalidAnnualRebaseRate")
+        .withArgs(dailyRate * 365n * 24n);
+    });
+
+    it("checks queued increases against the max annual rebase rate", async () => {
+      const { contract } = await loadFixture(deployAnnualRateFixture);
+
+      await contract.increaseRebaseMultiplier(dailyRate, MaxUint256);
+
+      await expect(contract.increaseRebaseMultiplier(tooHighDailyRate, MaxUint256))
+        .to.be.revertedWithCustomError(contract, "InvalidAnnualRebaseRate");
+      await expect(contract.increaseRebaseMultiplier(dailyRate, MaxUint256)).not.to.be.reverted;
+    });
+
+    it("allows a larger increase after a long gap between rebases", async () => {
+      const { contract } = await loadFixture(deployAnnualRateFixture);
+
+      // 30 days at 10% a year
+      const multiplier = parseUnits("1.008");
+      await time.increase(29 * day);
+
+      await expect(contract.setNextMultiplier(multiplier, await getBlockTimestamp() + day, expectedSupply(multiplier)))
+        .not.to.be.reverted;
+    });
+
+    it("reverts the same increase after a short gap between rebases", async () => {
+      const { contract } = await loadFixture(deployAnnualRateFixture);
+
+      const multiplier = parseUnits("1.008");
+      const effectTime = await getBlockTimestamp() + day;
+
+      await expect(contract.setNextMultiplier(multiplier, effectTime, expectedSupply(multiplier)))
+        .to.be.revertedWithCustomError(contract, "InvalidAnnualRebaseRate");
+    });
+
+    it("reverts a multiplier increase taking effect immediately", async () => {
+      const { contract } = await loadFixture(deployAnnualRateFixture);
+
+      const multiplier = parseUnits("1.0001");
+      const effectTime = await getBlockTimestamp() + day;
+      await contract.setNextMultiplier(multiplier, effectTime, expectedSupply(multiplier));
+
+      // replacing the pending increase is measured from now
+      await expect(contract.setNextMultiplier(multiplier, await getBlockTimestamp() + 1, expectedSupply(multiplier)))
+        .to.be.revertedWithCustomError(contract, "InvalidAnnualRebaseRate");
+    });
+
+    it("does not check the annual rate when disabled", async () => {
+      const { contract } = await loadFixture(deployAnnualRateFixture);
+
+      await contract.setMaxAnnualRebaseRate(0);
+
+      await expect(contract.increaseRebaseMultiplier(tooHighDailyRate, MaxUint256)).not.to.be.reverted;
+    });
+  });
+
+  describe("Pending rebase previews", () => {
+    const base = parseUnits("1");
+    const rebaseRate = parseUnits("0.01");
+    const amount = parseUnits("10");
+    const firstMult = base * (base + rebaseRate) / base;
+    const secondMult = firstMult * (base + rebaseRate) / base;
+
+    // Sets a pending increase and queues a second one behind it
+    async function deployPendingRebaseFixture() {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr1.address, amount);
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await contract.setRebasePeriod(effectTime);
+      await contract.increaseRebaseMultiplier(rebaseRate, totalSupply * firstMult / base);
+      await contract.setRebasePeriod(rebasePeriod);
+      await contract.increaseRebaseMultiplier(rebaseRate, totalSupply * secondMult / base);
+
+      return { contract, admin, addr1, addr2, effectTime };
+    }
+
+    it("previews balances and total supply after the pending multipliers", async () => {
+      const { contract, addr1, effectTime } = await loadFixture(deployPendingRebaseFixture);
+
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount);
+      expect(await contract.balanceOfAfterPendingRebase(addr1.address)).to.equal(amount * secondMult / base);
+      expect(await contract.totalSupply()).to.equal(totalSupply);
+      expect(await contract.totalSupplyAfterPendingRebase()).to.equal(totalSupply * secondMult / base);
+
+      await time.increaseTo(effectTime + rebasePeriod);
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount * secondMult / base);
+      expect(await contract.totalSupply()).to.equal(totalSupply * secondMult / base);
+    });
+
+    it("equals the current values without a pending multiplier", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr1.address, amount);
+
+      expect(await contract.balanceOfAfterPendingRebase(addr1.address)).to.equal(amount);
+      expect(await contract.totalSupplyAfterPendingRebase()).to.equal(totalSupply);
+    });
+
+    it("previews the yield of a yield recipient", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployPendingRebaseFixture);
+
+      await (contract.connect(addr1) as Contract).redirectYield(addr2.address);
+
+      expect(await contract.balanceOfAfterPendingRebase(addr1.address)).to.equal(amount);
+      expect(await contract.balanceOfAfterPendingRebase(addr2.address)).to.equal(amount * secondMult / base - amount);
+    });
+
+    it("converts between amounts and shares at a timestamp", async () => {
+      const { contract, effectTime } = await loadFixture(deployPendingRebaseFixture);
+
+      const now = await getBlockTimestamp();
+      expect(await contract.convertToSharesAt(amount, now)).to.equal(amount);
+      expect(await contract.convertToSharesAt(amount, effectTime - 1)).to.equal(amount);
+      expect(await contract.convertToSharesAt(amount, effectTime)).to.equal(amount * base / firstMult);
+      expect(await contract.convertToSharesAt(amount, effectTime + rebasePeriod)).to.equal(amount * base / secondMult);
+      expect(await contract.convertToAmountAt(amount, effectTime)).to.equal(amount * firstMult / base);
+
+      // Past timestamps use the multiplier history
+      await time.increaseTo(effectTime + rebasePeriod);
+      expect(await contract.convertToSharesAt(amount, now)).to.equal(amount);
+      expect(await contract.convertToSharesAt(amount, effectTime)).to.equal(amount * base / firstMult);
+    });
+  });
+
+  describe("Supply changes with a pending multiplier", () => {
+    const base = parseUnits("1");
+    const rebaseRate = parseUnits("0.0002");
+    const amount = parseUnits("10");
+    const afterIncrMult = base * (base + rebaseRate) / base;
+    const expectedTotalSupply = totalSupply * afterIncrMult / base;
+
+    async function deployPendingMultiplierFixture() {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await contract.transfer(addr1.address, amount);
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await contract.setRebasePeriod(effectTime);
+      await contract.increaseRebaseMultiplier(rebaseRate, expectedTotalSupply);
+      await contract.setRebasePeriod(rebasePeriod);
+
+      return { contract, admin, addr1, addr2, effectTime };
+    }
+
+    it("mints at the active multiplier", async () => {
+      const { contract, addr1, addr2, effectTime } = await loadFixture(deployPendingMultiplierFixture);
+
+      await expect(contract.increaseSupplyTo(addr2.address, amount))
+        .to.emit(contract, "TransferShares")
+        .withArgs(ethers.ZeroAddress, addr2.address, amount);
+      expect(await contract.balanceOf(addr2.address)).to.equal(amount);
+      expect(await contract.totalSupply()).to.equal(totalSupply + amount);
+      expect(await contract.totalSupplyAfterPendingRebase())
+        .to.equal(expectedTotalSupply + amount * afterIncrMult / base);
+
+      await time.increaseTo(effectTime);
+      // The holders before the mint get the increase set with the expected total supply
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount * afterIncrMult / base);
+      expect(await contract.totalSupply()).to.equal(expectedTotalSupply + amount * afterIncrMult / base);
+    });
+
+    it("keeps the minted value when the pending increase is canceled", async () => {
+      const { contract, admin, addr2, effectTime } = await loadFixture(deployPendingMultiplierFixture);
+
+      await contract.grantRole(roles.REBASE_GUARDIAN_ROLE, admin.address);
+      await contract.increaseSupplyTo(addr2.address, amount);
+      await contract.cancelPendingMultiplier();
+      expect(await contract.balanceOf(addr2.address)).to.equal(amount);
+      expect(await contract.totalSupply()).to.equal(totalSupply + amount);
+      expect(await contract.totalSupplyAfterPendingRebase()).to.equal(totalSupply + amount);
+
+      await time.increaseTo(effectTime);
+      expect(await contract.balanceOf(addr2.address)).to.equal(amount);
+      expect(await contract.totalSupply()).to.equal(totalSupply + amount);
+    });
+
+    it("burns at the active multiplier", async () => {
+      const { contract, admin, effectTime } = await loadFixture(deployPendingMultiplierFixture);
+
+      await contract.decreaseSupply(amount);
+      expect(await contract.balanceOf(admin.address)).to.equal(totalSupply - amount * 2n);
+      expect(await contract.totalSupply()).to.equal(totalSupply - amount);
+
+      await time.increaseTo(effectTime);
+      expect(await contract.totalSupply()).to.equal(expectedTotalSupply - amount * afterIncrMult / base);
+    });
+
+    it("checks queued increases against the supply including the mints", async () => {
+      const { contract } = await loadFixture(deployPendingMultiplierFixture);
+
+      await contract.increaseSupply(amount);
+
+      const nextMult = afterIncrMult * (base + rebaseRate) / base;
+      await expect(contract.increaseRebaseMultiplier(rebaseRate, totalSupply * nextMult / base))
+        .to.be.revertedWithCustomError(contract, "UnexpectedTotalSupply");
+      await expect(contract.increaseRebaseMultiplier(rebaseRate, (totalSupply + amount) * nextMult / base))
+        .to.emit(contract, "RebaseMultiplierScheduled");
+    });
+  });
+
   async function expectBalancesOfAddr(contract: any, address: any, balance: bigint, rebaseShares: bigint, fixedShares: bigint) {
     expect(await contract.balanceOf(address)).to.equal(balance);
     expect(await contract.rebaseSharesOf(address)).to.equal(rebaseShares);
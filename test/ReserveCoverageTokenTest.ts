@@ -0,0 +1,245 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, parseUnits } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { roles, operations } from "./helpers/constants";
+import { deployYBS } from "./helpers/fixtures";
+import { getBlockTimestamp } from "./helpers/commonutil";
+
+describe("YBS Reserve Coverage", function () {
+  const base = parseUnits("1");
+  const totalSupply = parseUnits("100");
+  const amount = parseUnits("10");
+  const tolerance = parseUnits("0.01");
+  const maxAge = 24 * 60 * 60;
+  const afterIncrMult = parseUnits("1.02");
+  const rebasePeriod = 10;
+
+  async function deployYBSFixture() {
+    const [admin, reporter, addr1, addr2] = await ethers.getSigners();
+
+    const contract = await deployYBS();
+
+    await contract.increaseSupply(totalSupply);
+    await contract.setRebasePeriod(rebasePeriod);
+    await contract.setMaxRebaseRate(base);
+    await contract.transfer(addr1.address, amount);
+
+    await contract.grantRole(roles.RESERVE_REPORTER_ROLE, reporter.address);
+    await contract.setReserveTolerance(tolerance);
+    await contract.setReserveAttestationMaxAge(maxAge);
+
+    return { contract, admin, reporter, addr1, addr2 };
+  }
+
+  describe("Reserve attestation", () => {
+    it("is covered before reserves are posted", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      const [covered, supply, reserves] = await contract.checkReserveCoverage();
+      expect(covered).to.equal(true);
+      expect(supply).to.equal(totalSupply);
+      expect(reserves).to.equal(0);
+    });
+
+    it("posts a reserve attestation", async () => {
+      const { contract, reporter } = await loadFixture(deployYBSFixture);
+
+      const reserves = parseUnits("100.5");
+      const tx = await (contract.connect(reporter) as Contract).postReserveAttestation(reserves);
+      const timestamp = await getBlockTimestamp();
+
+      await expect(tx).to.emit(contract, "ReserveAttested").withArgs(reserves, timestamp);
+      await expect(tx).not.to.emit(contract, "ReserveCoverageBreached");
+
+      expect(await contract.reserveAttestation()).to.equal(reserves);
+      expect(await contract.reserveAttestationTime()).to.equal(timestamp);
+
+      const [covered] = await contract.checkReserveCoverage();
+      expect(covered).to.equal(true);
+    });
+
+    it("reports a breach when the supply exceeds the reserves beyond the tolerance", async () => {
+      const { contract, reporter } = await loadFixture(deployYBSFixture);
+      const asReporter = contract.connect(reporter) as Contract;
+
+      await asReporter.postReserveAttestation(parseUnits("99.1"));
+      expect((await contract.checkReserveCoverage())[0]).to.equal(true);
+
+      const lowReserves = parseUnits("98.9");
+      await expect(asReporter.postReserveAttestation(lowReserves))
+        .to.emit(contract, "ReserveCoverageBreached")
+        .withArgs(totalSupply, lowReserves);
+
+      const [covered, supply, reserves] = await contract.checkReserveCoverage();
+      expect(covered).to.equal(false);
+      expect(supply).to.equal(totalSupply);
+      expect(reserves).to.equal(lowReserves);
+    });
+
+    it("is covered when the reserves exceed the supply", async () => {
+      const { contract, reporter } = await loadFixture(deployYBSFixture);
+
+      await contract.setReserveTolerance(0);
+      const highReserves = parseUnits("150");
+      await expect((contract.connect(reporter) as Contract).postReserveAttestation(highReserves))
+        .not.to.emit(contract, "ReserveCoverageBreached");
+
+      const [covered, supply, reserves] = await contract.checkReserveCoverage();
+      expect(covered).to.equal(true);
+      expect(supply).to.equal(totalSupply);
+      expect(reserves).to.equal(highReserves);
+    });
+
+    it("does not pause transfers on a breach while auto-pause is disabled", async () => {
+      const { contract, reporter, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(reporter) as Contract).postReserveAttestation(parseUnits("90")))
+        .to.emit(contract, "ReserveCoverageBreached")
+        .not.to.emit(contract, "OperationPaused");
+
+      expect(await contract.isOperationPaused(operations.TRANSFER)).to.equal(false);
+      await expect((contract.connect(addr1) as Contract).transfer(addr2.address, amount)).not.to.be.reverted;
+    });
+
+    it("pauses transfers on a breach while auto-pause is enabled", async () => {
+      const { contract, reporter, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.setReserveAutoPause(true))
+        .to.emit(contract, "ReserveAutoPauseSet")
+        .withArgs(true);
+
+      await expect((contract.connect(reporter) as Contract).postReserveAttestation(parseUnits("90")))
+        .to.emit(contract, "ReserveCoverageBreached")
+        .to.emit(contract, "OperationPaused")
+        .withArgs(operations.TRANSFER);
+
+      expect(await contract.isOperationPaused(operations.TRANSFER)).to.equal(true);
+      await expect((contract.connect(addr1) as Contract).transfer(addr2.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation")
+        .withArgs(operations.TRANSFER);
+
+      // a further breach does not pause again
+      await expect(contract.enforceReserveCoverage())
+        .to.emit(contract, "ReserveCoverageBreached")
+        .not.to.emit(contract, "OperationPaused");
+    });
+  });
+
+  describe("Multiplier activation", () => {
+    async function deployPendingMultiplierFixture() {
+      const { contract, admin, reporter, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await contract.setReserveAutoPause(true);
+      await (contract.connect(reporter) as Contract).postReserveAttestation(totalSupply);
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await contract.setNextMultiplier(afterIncrMult, effectTime, totalSupply * afterIncrMult / base);
+
+      return { contract, admin, reporter, addr1, addr2, effectTime };
+    }
+
+    it("reports a breach once a multiplier beyond the reserves takes effect", async () => {
+      const { contract, addr1, effectTime } = await loadFixture(deployPendingMultiplierFixture);
+
+      expect((await contract.checkReserveCoverage())[0]).to.equal(true);
+
+      await time.increaseTo(effectTime);
+
+      const expectedSupply = totalSupply * afterIncrMult / base;
+      const [covered, supply, reserves] = await contract.checkReserveCoverage();
+      expect(covered).to.equal(false);
+      expect(supply).to.equal(expectedSupply);
+      expect(reserves).to.equal(totalSupply);
+
+      await expect((contract.connect(addr1) as Contract).enforceReserveCoverage())
+        .to.emit(contract, "ReserveCoverageBreached")
+        .withArgs(expectedSupply, totalSupply)
+        .to.emit(contract, "OperationPaused")
+        .withArgs(operations.TRANSFER);
+    });
+
+    it("rejects enforcing reserves older than the max age", async () => {
+      const { contract, reporter, addr1 } = await loadFixture(deployYBSFixture);
+
+      await (contract.connect(reporter) as Contract).postReserveAttestation(parseUnits("90"));
+      const attestationTime = await getBlockTimestamp();
+
+      await time.increaseTo(attestationTime + maxAge - 1);
+      await expect((contract.connect(addr1) as Contract).enforceReserveCoverage())
+        .to.emit(contract, "ReserveCoverageBreached");
+
+      await expect((contract.connect(addr1) as Contract).enforceReserveCoverage())
+        .to.be.revertedWithCustomError(contract, "StaleReserveAttestation")
+        .withArgs(attestationTime);
+    });
+
+    it("only enforces reserves when they are posted while the max age is zero", async () => {
+      const { contract, reporter, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.setReserveAttestationMaxAge(0);
+      await expect((contract.connect(reporter) as Contract).postReserveAttestation(parseUnits("90")))
+        .to.emit(contract, "ReserveCoverageBreached");
+
+      await expect((contract.connect(addr1) as Contract).enforceReserveCoverage())
+        .to.be.revertedWithCustomError(contract, "StaleReserveAttestation");
+    });
+
+    it("stays covered once the reserves are posted for the active multiplier", async () => {
+      const { contract, reporter, effectTime } = await loadFixture(deployPendingMultiplierFixture);
+
+      await time.increaseTo(effectTime);
+
+      await expect((contract.connect(reporter) as Contract).postReserveAttestation(parseUnits("102.5")))
+        .not.to.emit(contract, "ReserveCoverageBreached");
+
+      expect((await contract.checkReserveCoverage())[0]).to.equal(true);
+      expect(await contract.isOperationPaused(operations.TRANSFER)).to.equal(false);
+    });
+  });
+
+  describe("Access control", () => {
+    it("sets the reserve tolerance", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      const newTolerance = parseUnits("0.05");
+      await expect(contract.setReserveTolerance(newTolerance))
+        .to.emit(contract, "ReserveToleranceSet")
+        .withArgs(newTolerance);
+      expect(await contract.reserveTolerance()).to.equal(newTolerance);
+    });
+
+    it("sets the reserve attestation max age", async () => {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.setReserveAttestationMaxAge(2 * maxAge))
+        .to.emit(contract, "ReserveAttestationMaxAgeSet")
+        .withArgs(2 * maxAge);
+      expect(await contract.reserveAttestationMaxAge()).to.equal(2 * maxAge);
+    });
+
+    it("reverts when posting reserves without the reserve reporter role", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(addr1) as Contract).postReserveAttestation(totalSupply))
+        .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.RESERVE_REPORTER_ROLE}`);
+    });
+
+    it("reverts when setting the reserve settings without the rebase admin role", async () => {
+      const { contract, reporter } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(reporter) as Contract).setReserveTolerance(tolerance))
+        .to.be.revertedWith(`AccessControl: account ${reporter.address.toLowerCase()} is missing role ${roles.REBASE_ADMIN_ROLE}`);
+      await expect((contract.connect(reporter) as Contract).setReserveAttestationMaxAge(maxAge))
+        .to.be.revertedWith(`AccessControl: account ${reporter.address.toLowerCase()} is missing role ${roles.REBASE_ADMIN_ROLE}`);
+    });
+
+    it("reverts when setting auto-pause without the pause role", async () => {
+      const { contract, reporter } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(reporter) as Contract).setReserveAutoPause(true))
+        .to.be.revertedWith(`AccessControl: account ${reporter.address.toLowerCase()} is missing role ${roles.PAUSE_ROLE}`);
+    });
+  });
+});
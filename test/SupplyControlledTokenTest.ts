@@ -1,8 +1,10 @@
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
-import { ZeroAddress, MaxUint256 } from "ethers";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
-import { NAME, SYMBOL, DECIMALS, CONTRACT_NAME } from "./helpers/constants";
+import { ethers } from "hardhat";
+import { Contract, ZeroAddress, MaxUint256 } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { NAME, SYMBOL, DECIMALS, CONTRACT_NAME, roles } from "./helpers/constants";
+import { getBlockTimestamp } from "./helpers/commonutil";
+import { deployTokenProxy } from "./helpers/fixtures";
 
 describe("YBS Supply Controlled Token", function () {
   async function deployYBSFixture() {
@@ -20,10 +22,7 @@ describe("YBS Supply Controlled Token", function () {
       admin.address,
     ];
 
-    const YBS = await ethers.getContractFactory(CONTRACT_NAME);
-    const contract = await upgrades.deployProxy(YBS, initializerArgs, {
-      initializer: "initialize",
-    });
+    const contract = await deployTokenProxy(CONTRACT_NAME, initializerArgs);
 
     return { contract, admin, addr1, addr2 };
   }
@@ -81,6 +80,114 @@ describe("YBS Supply Controlled Token", function () {
     });
   });
 
+  describe("increaseSupplyTo", function () {
+    const amount = 100;
+
+    it("mints the requested amount to the recipient", async function () {
+      const { contract, admin, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.increaseSupplyTo(addr1.address, amount))
+        .to.emit(contract, "SupplyIncreased")
+        .withArgs(addr1.address, amount)
+        .to.emit(contract, "Transfer")
+        .withArgs(ZeroAddress, addr1.address, amount);
+
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+      expect(await contract.balanceOf(admin.address)).to.be.equal(0);
+      expect(await contract.totalSupply()).to.be.equal(amount);
+    });
+
+    it("mints fixed shares to a recipient that holds fixed shares", async function () {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.setYieldIneligibleAccounts([addr1.address]);
+
+      await contract.increaseSupplyTo(addr1.address, amount);
+
+      expect(await contract.fixedSharesOf(addr1.address)).to.be.equal(amount);
+      expect(await contract.totalFixedShares()).to.be.equal(amount);
+    });
+
+    it("mints to multiple recipients", async function () {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.increaseSupplyToBatch([addr1.address, addr2.address], [amount, amount * 2]))
+        .to.emit(contract, "SupplyIncreased")
+        .withArgs(addr1.address, amount)
+        .to.emit(contract, "SupplyIncreased")
+        .withArgs(addr2.address, amount * 2);
+
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+      expect(await contract.balanceOf(addr2.address)).to.be.equal(amount * 2);
+      expect(await contract.totalSupply()).to.be.equal(amount * 3);
+    });
+
+    it("reverts when batch arguments have different lengths", async function () {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.increaseSupplyToBatch([addr1.address, addr2.address], [amount]))
+        .to.be.revertedWithCustomError(contract, "ArgumentLengthMismatch");
+    });
+
+    it("reverts when the recipient is the zero address", async function () {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.increaseSupplyTo(ZeroAddress, amount))
+        .to.be.revertedWithCustomError(contract, "ERC20InvalidReceiver")
+        .withArgs(ZeroAddress);
+    });
+
+    it("reverts when the recipient is blocked", async function () {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+      await contract.blockAccounts([addr1.address]);
+      await contract.blockAccountsFromReceiving([addr2.address]);
+
+      await expect(contract.increaseSupplyTo(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "BlockedAccountReceiver");
+      await expect(contract.increaseSupplyToBatch([addr2.address], [amount]))
+        .to.be.revertedWithCustomError(contract, "BlockedAccountReceiver");
+    });
+
+    it("reverts when the recipient is the wrapped token", async function () {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.grantRole(roles.WRAPPED_YBS_ROLE, addr1.address);
+
+      await expect(contract.increaseSupplyTo(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "WYBSTransferNotAllowed");
+    });
+
+    it("mints at the active multiplier with a pending multiplier", async function () {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      await contract.setMaxRebaseRate(BigInt(1e18));
+      const effectTime = await getBlockTimestamp() + 100;
+      await contract.setNextMultiplier(BigInt(2e18), effectTime, 0);
+
+      await contract.increaseSupplyTo(addr1.address, amount);
+      await contract.increaseSupplyToBatch([addr1.address], [amount]);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(2 * amount);
+
+      await time.increaseTo(effectTime);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(4 * amount);
+    });
+
+    it("reverts when mint amount results in overflow of the totalSupply", async function () {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      const largeAmount = MaxUint256 / BigInt(1e18); // divide by multiplier base
+      await contract.increaseSupplyTo(addr1.address, largeAmount);
+      await expect(contract.increaseSupplyTo(addr1.address, 1)).to.be.revertedWithPanic(0x11);
+    });
+
+    it("reverts when not called by the supply controller", async function () {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect(
+        (contract.connect(addr1) as Contract).increaseSupplyTo(addr1.address, amount)
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.SUPPLY_CONTROLLER_ROLE}`
+      );
+    });
+  });
+
   describe("decreaseSupply", function () {
     const initialAmount = 500;
     const decreaseAmount = 100;
@@ -115,4 +222,229 @@ describe("YBS Supply Controlled Token", function () {
         .withArgs(admin.address, ZeroAddress, decreaseAmount);
     });
   });
+
+  describe("decreaseSupplyFromRedemption", function () {
+    const initialAmount = 500;
+    const decreaseAmount = 100;
+
+    async function deployRedemptionFixture() {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await contract.increaseSupplyTo(addr1.address, initialAmount);
+      await contract.setRedemptionAddress(addr1.address);
+
+      return { contract, admin, addr1, addr2 };
+    }
+
+    it("sets the redemption address", async function () {
+      const { contract, addr2 } = await loadFixture(deployRedemptionFixture);
+
+      await expect(contract.setRedemptionAddress(addr2.address))
+        .to.emit(contract, "RedemptionAddressSet")
+        .withArgs(addr2.address);
+      expect(await contract.redemptionAddress()).to.be.equal(addr2.address);
+    });
+
+    it("burns from the redemption address", async function () {
+      const { contract, admin, addr1 } = await loadFixture(deployRedemptionFixture);
+
+      await expect(contract.decreaseSupplyFromRedemption(decreaseAmount))
+        .to.emit(contract, "SupplyDecreased")
+        .withArgs(addr1.address, decreaseAmount)
+        .to.emit(contract, "Transfer")
+        .withArgs(addr1.address, ZeroAddress, decreaseAmount);
+
+      expect(await contract.totalSupply()).to.be.equal(initialAmount - decreaseAmount);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(initialAmount - decreaseAmount);
+      expect(await contract.balanceOf(admin.address)).to.be.equal(0);
+    });
+
+    it("burns fixed shares from the redemption address", async function () {
+      const { contract, addr1 } = await loadFixture(deployRedemptionFixture);
+      await (contract.connect(addr1) as Contract).optOutOfYield();
+
+      await contract.decreaseSupplyFromRedemption(decreaseAmount);
+
+      expect(await contract.fixedSharesOf(addr1.address)).to.be.equal(initialAmount - decreaseAmount);
+      expect(await contract.totalSupply()).to.be.equal(initialAmount - decreaseAmount);
+    });
+
+    it("reverts when the redemption address has insufficient tokens", async function () {
+      const { contract, addr1 } = await loadFixture(deployRedemptionFixture);
+
+      await expect(contract.decreaseSupplyFromRedemption(initialAmount + 1))
+        .to.be.revertedWithCustomError(contract, "InsufficientSupply")
+        .withArgs(addr1.address, initialAmount, initialAmount + 1);
+    });
+
+    it("reverts when no redemption address is set", async function () {
+      const { contract } = await loadFixture(deployRedemptionFixture);
+      await contract.setRedemptionAddress(ZeroAddress);
+
+      await expect(contract.decreaseSupplyFromRedemption(decreaseAmount))
+        .to.be.revertedWithCustomError(contract, "NoRedemptionAddress");
+    });
+
+    it("spends the burn capacity", async function () {
+      const { contract } = await loadFixture(deployRedemptionFixture);
+      await contract.setBurnRateLimit(decreaseAmount, 86400);
+
+      await contract.decreaseSupplyFromRedemption(decreaseAmount);
+      await expect(contract.decreaseSupplyFromRedemption(1))
+        .to.be.revertedWithCustomError(contract, "BurnRateLimitExceeded")
+        .withArgs(0, 1);
+    });
+
+    it("cannot burn or set the redemption address without the required roles", async function () {
+      const { contract, addr1 } = await loadFixture(deployRedemptionFixture);
+
+      await expect((contract.connect(addr1) as Contract).decreaseSupplyFromRedemption(decreaseAmount))
+        .to.be.revertedWith(
+          `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.SUPPLY_CONTROLLER_ROLE}`
+        );
+      await expect((contract.connect(addr1) as Contract).setRedemptionAddress(addr1.address))
+        .to.be.revertedWith(
+          `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.DEFAULT_ADMIN_ROLE}`
+        );
+    });
+  });
+
+  describe("rate limits", function () {
+    const limit = 1000;
+    const window = 86400; // 24h
+
+    async function deployRateLimitedFixture() {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await contract.setMintRateLimit(limit, window);
+      await contract.setBurnRateLimit(limit, window);
+
+      return { contract, admin, addr1, addr2 };
+    }
+
+    it("has no limits by default", async function () {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      expect(await contract.mintCapacity()).to.be.equal(MaxUint256);
+      expect(await contract.burnCapacity()).to.be.equal(MaxUint256);
+    });
+
+    it("sets the rate limits", async function () {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.setMintRateLimit(limit, window))
+        .to.emit(contract, "MintRateLimitSet")
+        .withArgs(limit, window);
+      await expect(contract.setBurnRateLimit(limit * 2, window * 2))
+        .to.emit(contract, "BurnRateLimitSet")
+        .withArgs(limit * 2, window * 2);
+
+      expect(await contract.mintCapacity()).to.be.equal(limit);
+      expect(await contract.burnCapacity()).to.be.equal(limit * 2);
+      const mintRateLimit = await contract.mintRateLimit();
+      expect(mintRateLimit.limit).to.be.equal(limit);
+      expect(mintRateLimit.window).to.be.equal(window);
+    });
+
+    it("reverts when mint capacity is exhausted", async function () {
+      const { contract, addr1 } = await loadFixture(deployRateLimitedFixture);
+
+      await contract.increaseSupply(600);
+      await contract.increaseSupplyTo(addr1.address, 400);
+      expect(await contract.mintCapacity()).to.be.equal(0);
+
+      await expect(contract.increaseSupply(1))
+        .to.be.revertedWithCustomError(contract, "MintRateLimitExceeded")
+        .withArgs(0, 1);
+    });
+
+    it("reverts when a batch mint exceeds the mint capacity", async function () {
+      const { contract, addr1, addr2 } = await loadFixture(deployRateLimitedFixture);
+
+      await expect(contract.increaseSupplyToBatch([addr1.address, addr2.address], [600, 600]))
+        .to.be.revertedWithCustomError(contract, "MintRateLimitExceeded")
+        .withArgs(400, 600);
+    });
+
+    it("refills mint capacity over time", async function () {
+      const { contract } = await loadFixture(deployRateLimitedFixture);
+
+      await contract.increaseSupply(limit);
+      await time.increase(window / 4);
+      expect(await contract.mintCapacity()).to.be.equal(limit / 4);
+
+      await expect(contract.increaseSupply(limit / 2))
+        .to.be.revertedWithCustomError(contract, "MintRateLimitExceeded");
+
+      await time.increase(window / 4);
+      await expect(contract.increaseSupply(limit / 2)).not.to.be.reverted;
+      expect(await contract.mintCapacity()).to.be.equal(0);
+
+      await time.increase(window * 2);
+      expect(await contract.mintCapacity()).to.be.equal(limit);
+    });
+
+    it("reverts when burn capacity is exhausted and refills over time", async function () {
+      const { contract } = await loadFixture(deployRateLimitedFixture);
+      await contract.setMintRateLimit(0, 0);
+      await contract.increaseSupply(limit * 2);
+
+      await contract.decreaseSupply(limit);
+      expect(await contract.burnCapacity()).to.be.equal(0);
+      await expect(contract.decreaseSupply(1))
+        .to.be.revertedWithCustomError(contract, "BurnRateLimitExceeded")
+        .withArgs(0, 1);
+
+      await time.increase(window);
+      await expect(contract.decreaseSupply(limit)).not.to.be.reverted;
+    });
+
+    it("does not refill capacity when the limit is lowered", async function () {
+      const { contract } = await loadFixture(deployRateLimitedFixture);
+
+      await contract.increaseSupply(900);
+      await contract.setMintRateLimit(limit / 2, window);
+      expect(await contract.mintCapacity()).to.be.closeTo(100, 5);
+
+      await contract.setMintRateLimit(limit, window);
+      expect(await contract.mintCapacity()).to.be.closeTo(600, 20);
+    });
+
+    it("removes a limit with a zero window", async function () {
+      const { contract } = await loadFixture(deployRateLimitedFixture);
+
+      await contract.increaseSupply(limit);
+      await contract.setMintRateLimit(0, 0);
+
+      expect(await contract.mintCapacity()).to.be.equal(MaxUint256);
+      await expect(contract.increaseSupply(limit)).not.to.be.reverted;
+    });
+
+    it("reverts when setting an invalid limit", async function () {
+      const { contract } = await loadFixture(deployYBSFixture);
+
+      await expect(contract.setMintRateLimit(limit, 0))
+        .to.be.revertedWithCustomError(contract, "InvalidRateLimit")
+        .withArgs(limit, 0);
+      await expect(contract.setBurnRateLimit(MaxUint256, window))
+        .to.be.revertedWithCustomError(contract, "InvalidRateLimit")
+        .withArgs(MaxUint256, window);
+    });
+
+    it("reverts when not called by the default admin", async function () {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+      const defaultAdminRole = await contract.DEFAULT_ADMIN_ROLE();
+
+      await expect(
+        (contract.connect(addr1) as Contract).setMintRateLimit(limit, window)
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${defaultAdminRole}`
+      );
+      await expect(
+        (contract.connect(addr1) as Contract).setBurnRateLimit(limit, window)
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${defaultAdminRole}`
+      );
+    });
+  });
 });
@@ -1,10 +1,14 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
-import { Contract, parseUnits } from "ethers";
+import { Contract, ZeroAddress, parseUnits } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 
-import { NAME, SYMBOL, DECIMALS, roles } from "./helpers/constants";
+import { NAME, SYMBOL, DECIMALS, CONTRACT_NAME, W_CONTRACT_NAME, roles } from "./helpers/constants";
 import { getBlockTimestamp } from "./helpers/commonutil";
-import { isStorageLayoutModified } from "./helpers/storageLayout";
+import {
+  deployYBS, deployYBSFixture, deployWrappedYBSFixture, deployImplementation, getTokenFactory, ybsInitializerArgs, MODULES
+} from "./helpers/fixtures";
+import { getContractStorageSlots, isStorageLayoutModified } from "./helpers/storageLayout";
 
 describe("YBS Upgradable Token", function () {
     const totalSupply = parseUnits("30");
@@ -60,7 +64,7 @@ describe("YBS Upgradable Token", function () {
         await (contract.connect(rebaserAdmin) as Contract).setRebaseMultipliers(base, afterIncrMult, effectTime, afterIncrTotalSupply);
 
         // Upgrade
-        const YBSV1_1 = await ethers.deployContract("YBSV1_1");
+        const YBSV1_1 = await deployImplementation();
         await expect(contract.upgradeTo(YBSV1_1)).to.not.be.reverted;
 
         // Check state
@@ -84,9 +88,261 @@ describe("YBS Upgradable Token", function () {
         expect(await contract.multIncrTime()).to.be.equal(effectTime);
   });
 
+  it("sets the domain version when upgrading", async function () {
+    const [admin] = await ethers.getSigners();
+    const initializerArgs = [
+        NAME,
+        SYMBOL,
+        DECIMALS,
+        admin.address,
+        admin.address,
+        admin.address,
+        admin.address,
+        admin.address,
+        admin.address,
+    ];
+    const YBSV1 = await ethers.getContractFactory("YBSV1");
+    const contract = await upgrades.deployProxy(YBSV1, initializerArgs, {
+        initializer: "initialize",
+    });
+    const previousDomainSeparator = await contract.DOMAIN_SEPARATOR();
+
+    const YBSV1_1 = await deployImplementation();
+    const upgraded = YBSV1_1.attach(await contract.getAddress()) as Contract;
+    const data = YBSV1_1.interface.encodeFunctionData("reinitializeDomainVersion", [2, "2"]);
+    await expect(contract.upgradeToAndCall(YBSV1_1, data)).to.emit(upgraded, "EIP712DomainChanged");
+
+    expect((await upgraded.eip712Domain())[2]).to.be.equal("2");
+    expect(await upgraded.DOMAIN_SEPARATOR()).to.not.be.equal(previousDomainSeparator);
+  });
+
+  describe("upgrade timelock", function () {
+    const upgradeDelay = 2 * 24 * 3600;
+    const minUpgradeDelay = 24 * 3600;
+    const maxUpgradeDelay = 30 * 24 * 3600;
+
+    async function deployTimelockFixture() {
+      const { contract, admin, addr1, addr2 } = await deployYBSFixture();
+
+      await contract.grantRole(roles.UPGRADE_GUARDIAN_ROLE, addr1.address);
+      await contract.setUpgradeDelay(upgradeDelay);
+      const newImplementation = await deployImplementation();
+
+      return { contract, admin, addr1, addr2, newImplementation };
+    }
+
+    it("announces a proposed upgrade", async function () {
+      const { contract, newImplementation } = await loadFixture(deployTimelockFixture);
+
+      const tx = await contract.proposeUpgrade(newImplementation);
+      const readyTime = await getBlockTimestamp() + upgradeDelay;
+
+      await expect(tx).to.emit(contract, "UpgradeProposed").withArgs(await newImplementation.getAddress(), readyTime);
+      expect(await contract.pendingImplementation()).to.be.equal(await newImplementation.getAddress());
+      expect(await contract.upgradeReadyTime()).to.be.equal(readyTime);
+    });
+
+    it("cannot upgrade before the delay has passed", async function () {
+      const { contract, newImplementation } = await loadFixture(deployTimelockFixture);
+
+      await contract.proposeUpgrade(newImplementation);
+      const readyTime = await getBlockTimestamp() + upgradeDelay;
+
+      await time.increaseTo(readyTime - 2);
+      await expect(contract.upgradeTo(newImplementation))
+        .to.be.revertedWithCustomError(contract, "UpgradeNotReady")
+        .withArgs(readyTime);
+
+      await time.increaseTo(readyTime);
+      await expect(contract.upgradeTo(newImplementation))
+        .to.emit(contract, "Upgraded")
+        .withArgs(await newImplementation.getAddress());
+      expect(await contract.pendingImplementation()).to.be.equal(ZeroAddress);
+      expect(await contract.upgradeReadyTime()).to.be.equal(0);
+    });
+
+    it("cannot upgrade to an implementation that was not proposed", async function () {
+      const { contract, newImplementation } = await loadFixture(deployTimelockFixture);
+
+      await expect(contract.upgradeTo(newImplementation))
+        .to.be.revertedWithCustomError(contract, "UpgradeNotProposed")
+        .withArgs(await newImplementation.getAddress());
+
+      const otherImplementation = await deployImplementation();
+      await contract.proposeUpgrade(otherImplementation);
+      await time.increase(upgradeDelay);
+
+      await expect(contract.upgradeTo(newImplementation))
+        .to.be.revertedWithCustomError(contract, "UpgradeNotProposed")
+        .withArgs(await newImplementation.getAddress());
+    });
+
+    it("cannot execute a cancelled proposal", async function () {
+      const { contract, addr1, newImplementation } = await loadFixture(deployTimelockFixture);
+
+      await contract.proposeUpgrade(newImplementation);
+
+      await expect((contract.connect(addr1) as Contract).cancelUpgrade())
+        .to.emit(contract, "UpgradeCanceled")
+        .withArgs(await newImplementation.getAddress());
+      expect(await contract.pendingImplementation()).to.be.equal(ZeroAddress);
+
+      await time.increase(upgradeDelay);
+      await expect(contract.upgradeTo(newImplementation))
+        .to.be.revertedWithCustomError(contract, "UpgradeNotProposed")
+        .withArgs(await newImplementation.getAddress());
+
+      await expect((contract.connect(addr1) as Contract).cancelUpgrade())
+        .to.be.revertedWithCustomError(contract, "NoPendingUpgrade");
+    });
+
+    it("cannot cancel a proposal without the upgrade guardian role", async function () {
+      const { contract, addr2, newImplementation } = await loadFixture(deployTimelockFixture);
+
+      await contract.proposeUpgrade(newImplementation);
+
+      await expect((contract.connect(addr2) as Contract).cancelUpgrade())
+        .to.be.revertedWith(`AccessControl: account ${addr2.address.toLowerCase()} is missing role ${roles.UPGRADE_GUARDIAN_ROLE}`);
+    });
+
+    it("cannot propose an upgrade without the admin role", async function () {
+      const { contract, addr1, newImplementation } = await loadFixture(deployTimelockFixture);
+
+      await expect((contract.connect(addr1) as Contract).proposeUpgrade(newImplementation))
+        .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.DEFAULT_ADMIN_ROLE}`);
+      await expect((contract.connect(addr1) as Contract).setUpgradeDelay(0))
+        .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.DEFAULT_ADMIN_ROLE}`);
+    });
+
+    it("lowers the delay only once the current delay has passed", async function () {
+      const { contract } = await loadFixture(deployTimelockFixture);
+
+      const tx = await contract.setUpgradeDelay(minUpgradeDelay);
+      const effectiveTime = await getBlockTimestamp() + upgradeDelay;
+      await expect(tx).to.emit(contract, "UpgradeDelaySet").withArgs(minUpgradeDelay, effectiveTime);
+      expect(await contract.upgradeDelay()).to.be.equal(upgradeDelay);
+
+      await time.increaseTo(effectiveTime);
+      expect(await contract.upgradeDelay()).to.be.equal(minUpgradeDelay);
+
+      await expect(contract.setUpgradeDelay(upgradeDelay * 2))
+        .to.emit(contract, "UpgradeDelaySet")
+        .withArgs(upgradeDelay * 2, await getBlockTimestamp() + 1);
+      expect(await contract.upgradeDelay()).to.be.equal(upgradeDelay * 2);
+    });
+
+    it("starts with the min upgrade delay", async function () {
+      const { contract: wrapped, ybsContract: contract } = await loadFixture(deployWrappedYBSFixture);
+
+      expect(await contract.MIN_UPGRADE_DELAY()).to.be.equal(minUpgradeDelay);
+      expect(await contract.upgradeDelay()).to.be.equal(minUpgradeDelay);
+      expect(await wrapped.MIN_UPGRADE_DELAY()).to.be.equal(minUpgradeDelay);
+      expect(await wrapped.upgradeDelay()).to.be.equal(minUpgradeDelay);
+    });
+
+    it("rejects a delay outside the bounds", async function () {
+      const { contract: wrapped, ybsContract: contract } = await loadFixture(deployWrappedYBSFixture);
+
+      for (const token of [contract, wrapped]) {
+        await expect(token.setUpgradeDelay(minUpgradeDelay - 1))
+          .to.be.revertedWithCustomError(token, "InvalidUpgradeDelay")
+          .withArgs(minUpgradeDelay - 1);
+        await expect(token.setUpgradeDelay(maxUpgradeDelay + 1))
+          .to.be.revertedWithCustomError(token, "InvalidUpgradeDelay")
+          .withArgs(maxUpgradeDelay + 1);
+        await expect(token.setUpgradeDelay(maxUpgradeDelay)).to.emit(token, "UpgradeDelaySet");
+      }
+    });
+
+    it("sets the min upgrade delay when upgrading from a token without a timelock", async function () {
+      const contract = await deployYBS("YBSV1");
+
+      const YBSV1_1 = await deployImplementation();
+      const upgraded = YBSV1_1.attach(await contract.getAddress()) as Contract;
+      const data = YBSV1_1.interface.encodeFunctionData("reinitializeUpgradeDelay", [2]);
+      const tx = await contract.upgradeToAndCall(YBSV1_1, data);
+      await expect(tx).to.emit(upgraded, "UpgradeDelaySet").withArgs(minUpgradeDelay, await getBlockTimestamp());
+
+      expect(await upgraded.upgradeDelay()).to.be.equal(minUpgradeDelay);
+      await expect(upgraded.reinitializeUpgradeDelay(2))
+        .to.be.revertedWith("Initializable: contract is already initialized");
+    });
+
+    it("does not lower a higher delay when reinitializing", async function () {
+      const { contract } = await loadFixture(deployTimelockFixture);
+
+      const tx = await contract.reinitializeUpgradeDelay(2);
+      await expect(tx)
+        .to.emit(contract, "UpgradeDelaySet")
+        .withArgs(minUpgradeDelay, await getBlockTimestamp() + upgradeDelay);
+      expect(await contract.upgradeDelay()).to.be.equal(upgradeDelay);
+    });
+
+    it("applies the timelock to the wrapped token", async function () {
+      const { contract, addr1 } = await loadFixture(deployWrappedYBSFixture);
+
+      await contract.grantRole(roles.UPGRADE_GUARDIAN_ROLE, addr1.address);
+      await contract.setUpgradeDelay(upgradeDelay);
+      const newImplementation = await deployImplementation(W_CONTRACT_NAME);
+
+      await contract.proposeUpgrade(newImplementation);
+      await expect(contract.upgradeTo(newImplementation))
+        .to.be.revertedWithCustomError(contract, "UpgradeNotReady");
+
+      await (contract.connect(addr1) as Contract).cancelUpgrade();
+      await time.increase(upgradeDelay);
+      await expect(contract.upgradeTo(newImplementation))
+        .to.be.revertedWithCustomError(contract, "UpgradeNotProposed");
+    });
+  });
+
   it('has the same storage layout', async function () {
     const oldFullQualifiedName = "contracts/archive/YBSV1.sol:YBSV1";
     const newFullQualifiedName = "contracts/YBSV1_1.sol:YBSV1_1";
     expect(await isStorageLayoutModified(oldFullQualifiedName, newFullQualifiedName)).to.be.false;
   });
+
+  it('has the same storage layout in the modules', async function () {
+    for (const contractName of [CONTRACT_NAME, W_CONTRACT_NAME]) {
+      for (const moduleName of MODULES[contractName]) {
+        const modified = await isStorageLayoutModified(
+          `contracts/${contractName}.sol:${contractName}`,
+          `contracts/${moduleName}.sol:${moduleName}`
+        );
+        expect(modified).to.be.false;
+      }
+    }
+  });
+
+  it('declares no storage in the modules', async function () {
+    for (const contractName of [CONTRACT_NAME, W_CONTRACT_NAME]) {
+      for (const moduleName of MODULES[contractName]) {
+        expect(await getContractStorageSlots(`contracts/${moduleName}.sol:${moduleName}`)).to.be.equal(0);
+      }
+    }
+  });
+
+  it('validates the upgrade and the modules with the upgrades plugin', async function () {
+    const YBSV1 = await ethers.getContractFactory("YBSV1");
+    const contract = await upgrades.deployProxy(YBSV1, await ybsInitializerArgs(), {
+        initializer: "initialize",
+    });
+    // Both validate the storage layout and the upgrade safety before deploying the implementation
+    await upgrades.prepareUpgrade(await contract.getAddress(), await getTokenFactory(), {
+        constructorArgs: [ZeroAddress],
+    });
+
+    for (const contractName of [CONTRACT_NAME, W_CONTRACT_NAME]) {
+      for (const moduleName of MODULES[contractName]) {
+        await upgrades.deployImplementation(await ethers.getContractFactory(moduleName), {
+            constructorArgs: [ZeroAddress],
+        });
+      }
+    }
+  });
+
+  it('uses the expected number of storage slots including the gap', async function () {
+    expect(await getContractStorageSlots("contracts/YBSV1_1Base.sol:YBSV1_1Base")).to.be.equal(100);
+    expect(await getContractStorageSlots("contracts/wYBSV1Base.sol:wYBSV1Base")).to.be.equal(50);
+  });
 });
@@ -0,0 +1,278 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, parseUnits } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { deployYBS } from "./helpers/fixtures";
+import { getBlockTimestamp } from "./helpers/commonutil";
+
+describe("YBS Yield Opt-Out", function () {
+  const base = parseUnits("1");
+  const wei = parseUnits("1", -18);
+  const totalSupply = parseUnits("100");
+  const amount = parseUnits("10");
+  const afterIncrMult = parseUnits("1.0002");
+  const rebasePeriod = 10;
+
+  async function deployYBSFixture() {
+    const [admin, addr1, addr2, addr3] = await ethers.getSigners();
+
+    const contract = await deployYBS();
+
+    await contract.increaseSupply(totalSupply);
+    await contract.setRebasePeriod(rebasePeriod);
+    await contract.setMaxRebaseRate(base);
+
+    await contract.transfer(addr1.address, amount);
+    await contract.transfer(addr2.address, amount);
+
+    return { contract, admin, addr1, addr2, addr3 };
+  }
+
+  async function rebase(contract: Contract, multiplier: bigint) {
+    const fixedShares = await contract.totalFixedShares();
+    const rebaseShares = await contract.totalRebaseShares();
+    const expectedTotalSupply = (rebaseShares * multiplier / base) + fixedShares;
+    const effectTime = await getBlockTimestamp() + 1;
+
+    await contract.setNextMultiplier(multiplier, effectTime, expectedTotalSupply);
+    return expectedTotalSupply;
+  }
+
+  describe("opt out and opt in", () => {
+    it("opts out of yield", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(addr1) as Contract).optOutOfYield())
+        .to.emit(contract, "YieldOptedOut")
+        .withArgs(addr1.address);
+
+      expect(await contract.isYieldOptedOut(addr1.address)).to.be.true;
+      expect(await contract.isRebasingAccount(addr1.address)).to.be.false;
+      expect(await contract.rebaseSharesOf(addr1.address)).to.equal(0);
+      expect(await contract.fixedSharesOf(addr1.address)).to.equal(amount);
+      expect(await contract.totalFixedShares()).to.equal(amount);
+      expect(await contract.totalSupply()).to.equal(totalSupply);
+    });
+
+    it("opted out account does not get rebase", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await (contract.connect(addr1) as Contract).optOutOfYield();
+      const expectedTotalSupply = await rebase(contract, afterIncrMult);
+
+      expect(await contract.totalSupply()).to.equal(expectedTotalSupply);
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount);
+      expect(await contract.balanceOf(addr2.address)).to.equal(amount * afterIncrMult / base);
+    });
+
+    it("opts back in to yield", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await (contract.connect(addr1) as Contract).optOutOfYield();
+      await rebase(contract, afterIncrMult);
+
+      await expect((contract.connect(addr1) as Contract).optInToYield())
+        .to.emit(contract, "YieldOptedIn")
+        .withArgs(addr1.address);
+
+      const shares = amount * base / afterIncrMult;
+      expect(await contract.isYieldOptedOut(addr1.address)).to.be.false;
+      expect(await contract.isRebasingAccount(addr1.address)).to.be.true;
+      expect(await contract.rebaseSharesOf(addr1.address)).to.equal(shares);
+      expect(await contract.fixedSharesOf(addr1.address)).to.equal(0);
+
+      const newAfterIncrMult = parseUnits("1.0003");
+      await rebase(contract, newAfterIncrMult);
+      expect(await contract.balanceOf(addr1.address)).to.equal(shares * newAfterIncrMult / base);
+    });
+
+    it("reverts when opting out twice or opting in without opting out", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(addr1) as Contract).optInToYield())
+        .to.be.revertedWithCustomError(contract, "YieldNotOptedOut");
+
+      await (contract.connect(addr1) as Contract).optOutOfYield();
+      await expect((contract.connect(addr1) as Contract).optOutOfYield())
+        .to.be.revertedWithCustomError(contract, "YieldAlreadyOptedOut");
+    });
+
+    it("reverts for blocked accounts", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.blockAccounts([addr1.address]);
+
+      await expect((contract.connect(addr1) as Contract).optOutOfYield())
+        .to.be.revertedWithCustomError(contract, "BlockedAccountSender");
+      await expect((contract.connect(addr1) as Contract).optInToYield())
+        .to.be.revertedWithCustomError(contract, "BlockedAccountSender");
+    });
+
+    it("reverts when paused", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await contract.pause();
+
+      await expect((contract.connect(addr1) as Contract).optOutOfYield())
+        .to.be.revertedWith("Pausable: paused");
+      await expect((contract.connect(addr1) as Contract).optInToYield())
+        .to.be.revertedWith("Pausable: paused");
+    });
+
+    it("reverts opting in with a pending multiplier", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await (contract.connect(addr1) as Contract).optOutOfYield();
+
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      await contract.setNextMultiplier(afterIncrMult, effectTime, totalSupply * afterIncrMult / base);
+
+      await expect((contract.connect(addr1) as Contract).optInToYield())
+        .to.be.revertedWithCustomError(contract, "CannotChangeRebaseSharesWithPendingMultiplier");
+
+      await time.increaseTo(effectTime);
+      await expect((contract.connect(addr1) as Contract).optInToYield()).not.to.be.reverted;
+    });
+
+    it("opted out account stays on fixed shares after being unblocked", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await (contract.connect(addr1) as Contract).optOutOfYield();
+      await contract.blockAccounts([addr1.address]);
+      await contract.unblockAccounts([addr1.address]);
+
+      expect(await contract.rebaseSharesOf(addr1.address)).to.equal(0);
+      expect(await contract.fixedSharesOf(addr1.address)).to.equal(amount);
+    });
+  });
+
+  describe("transfers", () => {
+    async function deployOptedOutFixture() {
+      const { contract, admin, addr1, addr2, addr3 } = await loadFixture(deployYBSFixture);
+
+      await (contract.connect(addr1) as Contract).optOutOfYield();
+      await (contract.connect(addr3) as Contract).optOutOfYield();
+      await rebase(contract, afterIncrMult);
+
+      return { contract, admin, addr1, addr2, addr3 };
+    }
+
+    it("transfers from a rebasing account to an opted out account", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployOptedOutFixture);
+
+      const totalSupplyBefore = await contract.totalSupply();
+      const sharesBefore = await contract.rebaseSharesOf(addr2.address);
+      const value = parseUnits("3");
+
+      await expect((contract.connect(addr2) as Contract).transfer(addr1.address, value))
+        .to.emit(contract, "Transfer")
+        .withArgs(addr2.address, addr1.address, value);
+
+      // shares debited from the sender are rounded up
+      const shares = (value * base + afterIncrMult - BigInt(1)) / afterIncrMult;
+      expect(await contract.rebaseSharesOf(addr2.address)).to.equal(sharesBefore - shares);
+      expect(await contract.fixedSharesOf(addr1.address)).to.equal(amount + value);
+      expect(await contract.totalFixedShares()).to.equal(amount + value);
+      expect(await contract.totalSupply()).to.be.within(totalSupplyBefore - wei, totalSupplyBefore);
+    });
+
+    it("transfers from an opted out account to a rebasing account", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployOptedOutFixture);
+
+      const totalSupplyBefore = await contract.totalSupply();
+      const sharesBefore = await contract.rebaseSharesOf(addr2.address);
+      const value = parseUnits("3");
+
+      await expect((contract.connect(addr1) as Contract).transfer(addr2.address, value))
+        .to.emit(contract, "Transfer")
+        .withArgs(addr1.address, addr2.address, value);
+
+      const shares = value * base / afterIncrMult;
+      expect(await contract.fixedSharesOf(addr1.address)).to.equal(amount - value);
+      expect(await contract.rebaseSharesOf(addr2.address)).to.equal(sharesBefore + shares);
+      expect(await contract.totalFixedShares()).to.equal(amount - value);
+      expect(await contract.totalSupply()).to.be.within(totalSupplyBefore - wei, totalSupplyBefore);
+    });
+
+    it("transfers between opted out accounts", async () => {
+      const { contract, addr1, addr3 } = await loadFixture(deployOptedOutFixture);
+
+      const value = parseUnits("3");
+      await (contract.connect(addr1) as Contract).transfer(addr3.address, value);
+
+      expect(await contract.fixedSharesOf(addr1.address)).to.equal(amount - value);
+      expect(await contract.fixedSharesOf(addr3.address)).to.equal(value);
+      expect(await contract.totalFixedShares()).to.equal(amount);
+    });
+
+    it("transferFrom moves value from an opted out account", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployOptedOutFixture);
+
+      const value = parseUnits("3");
+      await (contract.connect(addr1) as Contract).approve(admin.address, value);
+      await contract.transferFrom(addr1.address, addr2.address, value);
+
+      expect(await contract.fixedSharesOf(addr1.address)).to.equal(amount - value);
+      expect(await contract.allowance(addr1.address, admin.address)).to.equal(0);
+    });
+
+    it("reverts when an opted out account has insufficient balance", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployOptedOutFixture);
+
+      await expect((contract.connect(addr1) as Contract).transfer(addr2.address, amount + wei))
+        .to.be.revertedWithCustomError(contract, "ERC20InsufficientBalance")
+        .withArgs(addr1.address, amount, amount + wei);
+    });
+
+    it("credits transfers to a rebasing account at the active multiplier with a pending multiplier", async () => {
+      const { contract, addr1, addr3 } = await loadFixture(deployOptedOutFixture);
+      const [, , , , addr4] = await ethers.getSigners();
+
+      const newAfterIncrMult = parseUnits("1.0003");
+      const effectTime = await getBlockTimestamp() + rebasePeriod;
+      const rebaseShares = await contract.totalRebaseShares();
+      const fixedShares = await contract.totalFixedShares();
+      await contract.setNextMultiplier(newAfterIncrMult, effectTime, (rebaseShares * newAfterIncrMult / base) + fixedShares);
+
+      const shares = amount * base / afterIncrMult;
+      await expect((contract.connect(addr1) as Contract).transfer(addr4.address, amount))
+        .to.emit(contract, "TransferShares")
+        .withArgs(ethers.ZeroAddress, addr4.address, shares);
+      expect(await contract.balanceOf(addr4.address)).to.be.closeTo(amount, 1);
+
+      // the receiver can forward the value it received
+      const received = await contract.balanceOf(addr4.address);
+      await expect((contract.connect(addr4) as Contract).transfer(addr3.address, received)).not.to.be.reverted;
+      expect(await contract.fixedSharesOf(addr3.address)).to.equal(received);
+    });
+  });
+
+  describe("supply control", () => {
+    it("mints and burns fixed shares when the supply controller opted out", async () => {
+      const { contract, admin } = await loadFixture(deployYBSFixture);
+
+      await contract.optOutOfYield();
+      const fixedShares = await contract.fixedSharesOf(admin.address);
+
+      await contract.increaseSupply(amount);
+      expect(await contract.fixedSharesOf(admin.address)).to.equal(fixedShares + amount);
+      expect(await contract.totalSupply()).to.equal(totalSupply + amount);
+
+      await contract.decreaseSupply(fixedShares + amount);
+      expect(await contract.fixedSharesOf(admin.address)).to.equal(0);
+      expect(await contract.totalSupply()).to.equal(totalSupply - fixedShares);
+    });
+
+    it("reverts burning more than the fixed shares of the supply controller", async () => {
+      const { contract, admin } = await loadFixture(deployYBSFixture);
+
+      await contract.optOutOfYield();
+      const fixedShares = await contract.fixedSharesOf(admin.address);
+
+      await expect(contract.decreaseSupply(fixedShares + wei))
+        .to.be.revertedWithCustomError(contract, "InsufficientSupply")
+        .withArgs(admin.address, fixedShares, fixedShares + wei);
+    });
+  });
+});
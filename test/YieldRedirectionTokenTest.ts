@@ -0,0 +1,316 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, ZeroAddress, parseUnits } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+import { roles } from "./helpers/constants";
+import { deployYBS } from "./helpers/fixtures";
+import { getBlockTimestamp } from "./helpers/commonutil";
+
+describe("YBS Yield Redirection", function () {
+  const base = parseUnits("1");
+  const totalSupply = parseUnits("100");
+  const amount = parseUnits("10");
+  const rebasePeriod = 10;
+
+  async function deployYBSFixture() {
+    const [admin, addr1, addr2, addr3] = await ethers.getSigners();
+
+    const contract = await deployYBS();
+
+    await contract.increaseSupply(totalSupply);
+    await contract.setRebasePeriod(rebasePeriod);
+    await contract.setMaxRebaseRate(base);
+
+    await contract.transfer(addr1.address, amount);
+    await contract.transfer(addr2.address, amount);
+
+    return { contract, admin, addr1, addr2, addr3 };
+  }
+
+  // addr1 redirects its yield to addr2.
+  async function deployRedirectedFixture() {
+    const { contract, admin, addr1, addr2, addr3 } = await loadFixture(deployYBSFixture);
+
+    await (contract.connect(addr1) as Contract).redirectYield(addr2.address);
+
+    return { contract, admin, addr1, addr2, addr3 };
+  }
+
+  async function rebase(contract: Contract, multiplier: bigint) {
+    const expectedTotalSupply =
+      (await contract.totalRebaseShares()) * multiplier / base + (await contract.totalFixedShares());
+    const effectTime = await getBlockTimestamp() + rebasePeriod;
+
+    await contract.setNextMultiplier(multiplier, effectTime, expectedTotalSupply);
+    await time.increaseTo(effectTime);
+  }
+
+  async function expectBalancesSumToTotalSupply(contract: Contract, addresses: string[]) {
+    let sum = 0n;
+    for (const address of addresses) {
+      sum += await contract.balanceOf(address);
+    }
+    // balances are rounded down per account
+    const supply = await contract.totalSupply();
+    expect(sum).to.be.within(supply - BigInt(addresses.length), supply);
+  }
+
+  describe("redirect and stop", () => {
+    it("redirects yield to a recipient", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(addr1) as Contract).redirectYield(addr2.address))
+        .to.emit(contract, "YieldRedirected")
+        .withArgs(addr1.address, addr2.address);
+
+      expect(await contract.yieldRecipientOf(addr1.address)).to.equal(addr2.address);
+      expect(await contract.yieldSourceOf(addr2.address)).to.equal(addr1.address);
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount);
+      expect(await contract.balanceOf(addr2.address)).to.equal(amount);
+    });
+
+    it("accrues the source's yield to the recipient", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRedirectedFixture);
+
+      await rebase(contract, parseUnits("1.1"));
+
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount);
+      expect(await contract.balanceOf(addr2.address)).to.equal(parseUnits("12"));
+      expect(await contract.accruedYieldOf(addr1.address)).to.equal(0);
+      expect(await contract.accruedYieldOf(addr2.address)).to.equal(parseUnits("2"));
+      await expectBalancesSumToTotalSupply(contract, [admin.address, addr1.address, addr2.address]);
+    });
+
+    it("stops redirecting and moves the accrued yield to the recipient", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRedirectedFixture);
+
+      await rebase(contract, parseUnits("1.1"));
+
+      await expect((contract.connect(addr1) as Contract).stopYieldRedirection())
+        .to.emit(contract, "YieldRedirectionStopped")
+        .withArgs(addr1.address, addr2.address)
+        .to.emit(contract, "TransferShares");
+
+      expect(await contract.yieldRecipientOf(addr1.address)).to.equal(ZeroAddress);
+      expect(await contract.yieldSourceOf(addr2.address)).to.equal(ZeroAddress);
+      // the source keeps the shares backing its principal, rounded up
+      expect(await contract.balanceOf(addr1.address)).to.be.closeTo(amount, 1);
+      expect(await contract.balanceOf(addr2.address)).to.be.closeTo(parseUnits("12"), 1);
+
+      // the source earns its own yield again
+      await rebase(contract, parseUnits("1.21"));
+      expect(await contract.balanceOf(addr1.address)).to.be.closeTo(parseUnits("11"), 1);
+      await expectBalancesSumToTotalSupply(contract, [admin.address, addr1.address, addr2.address]);
+    });
+
+    it("reverts when stopping without a redirection", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployRedirectedFixture);
+
+      await expect((contract.connect(addr2) as Contract).stopYieldRedirection())
+        .to.be.revertedWithCustomError(contract, "YieldNotRedirected");
+    });
+
+    it("reverts when redirecting to itself or the zero address", async () => {
+      const { contract, addr1 } = await loadFixture(deployYBSFixture);
+
+      await expect((contract.connect(addr1) as Contract).redirectYield(addr1.address))
+        .to.be.revertedWithCustomError(contract, "InvalidYieldRecipient")
+        .withArgs(addr1.address);
+      await expect((contract.connect(addr1) as Contract).redirectYield(ZeroAddress))
+        .to.be.revertedWithCustomError(contract, "InvalidYieldRecipient")
+        .withArgs(ZeroAddress);
+    });
+
+    it("reverts when either account already takes part in a redirection", async () => {
+      const { contract, admin, addr1, addr2, addr3 } = await loadFixture(deployRedirectedFixture);
+
+      // source already redirects
+      await expect((contract.connect(addr1) as Contract).redirectYield(addr3.address))
+        .to.be.revertedWithCustomError(contract, "InvalidYieldRecipient");
+      // recipient already collects yield
+      await expect(contract.redirectYield(addr2.address))
+        .to.be.revertedWithCustomError(contract, "InvalidYieldRecipient");
+      // recipient cannot redirect its own yield
+      await expect((contract.connect(addr2) as Contract).redirectYield(addr3.address))
+        .to.be.revertedWithCustomError(contract, "InvalidYieldRecipient");
+      // a source cannot collect yield
+      await expect(contract.redirectYield(addr1.address))
+        .to.be.revertedWithCustomError(contract, "InvalidYieldRecipient");
+
+      await expect(contract.redirectYield(addr3.address)).not.to.be.reverted;
+      expect(await contract.yieldSourceOf(addr3.address)).to.equal(admin.address);
+    });
+
+    it("reverts when either account holds fixed shares", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await (contract.connect(addr2) as Contract).optOutOfYield();
+      await expect((contract.connect(addr1) as Contract).redirectYield(addr2.address))
+        .to.be.revertedWithCustomError(contract, "NonRebasingAccount")
+        .withArgs(addr2.address);
+
+      await contract.setYieldIneligibleAccounts([addr1.address]);
+      await expect((contract.connect(addr1) as Contract).redirectYield(addr2.address))
+        .to.be.revertedWithCustomError(contract, "NonRebasingAccount")
+        .withArgs(addr1.address);
+    });
+
+    it("reverts when redirecting to the wrapped token", async () => {
+      const { contract, addr1, addr3 } = await loadFixture(deployYBSFixture);
+
+      await contract.grantRole(roles.WRAPPED_YBS_ROLE, addr3.address);
+
+      await expect((contract.connect(addr1) as Contract).redirectYield(addr3.address))
+        .to.be.revertedWithCustomError(contract, "WYBSTransferNotAllowed");
+    });
+
+    it("reverts when paused", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployRedirectedFixture);
+
+      await contract.pause();
+
+      await expect((contract.connect(addr2) as Contract).redirectYield(addr1.address))
+        .to.be.revertedWith("Pausable: paused");
+      await expect((contract.connect(addr1) as Contract).stopYieldRedirection())
+        .to.be.revertedWith("Pausable: paused");
+    });
+  });
+
+  describe("transfers", () => {
+    it("source can send up to its principal", async () => {
+      const { contract, admin, addr1, addr2, addr3 } = await loadFixture(deployRedirectedFixture);
+
+      await rebase(contract, parseUnits("1.1"));
+
+      await expect((contract.connect(addr1) as Contract).transfer(addr3.address, amount + 1n))
+        .to.be.revertedWithCustomError(contract, "ERC20InsufficientBalance")
+        .withArgs(addr1.address, amount, amount + 1n);
+
+      await (contract.connect(addr1) as Contract).transfer(addr3.address, parseUnits("4"));
+      expect(await contract.balanceOf(addr1.address)).to.equal(parseUnits("6"));
+      expect(await contract.balanceOf(addr2.address)).to.be.closeTo(parseUnits("12"), 1);
+
+      await rebase(contract, parseUnits("1.21"));
+      expect(await contract.balanceOf(addr1.address)).to.equal(parseUnits("6"));
+      expect(await contract.balanceOf(addr2.address)).to.be.closeTo(parseUnits("13.8"), 2);
+      await expectBalancesSumToTotalSupply(
+        contract, [admin.address, addr1.address, addr2.address, addr3.address]
+      );
+    });
+
+    it("source receiving tokens increases its principal", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRedirectedFixture);
+
+      await contract.transfer(addr1.address, amount);
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount * 2n);
+
+      await rebase(contract, parseUnits("1.1"));
+      expect(await contract.balanceOf(addr1.address)).to.be.closeTo(amount * 2n, 1);
+      expect(await contract.balanceOf(addr2.address)).to.be.closeTo(parseUnits("13"), 1);
+      await expectBalancesSumToTotalSupply(contract, [admin.address, addr1.address, addr2.address]);
+    });
+
+    it("recipient can send the collected yield", async () => {
+      const { contract, admin, addr1, addr2, addr3 } = await loadFixture(deployRedirectedFixture);
+
+      await rebase(contract, parseUnits("1.1"));
+      const balance = await contract.balanceOf(addr2.address);
+
+      await expect((contract.connect(addr2) as Contract).transfer(addr3.address, balance - 1n))
+        .to.emit(contract, "TransferShares")
+        .withArgs(addr1.address, addr2.address, anyUint);
+
+      expect(await contract.balanceOf(addr2.address)).to.be.lte(1);
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount);
+      await expectBalancesSumToTotalSupply(
+        contract, [admin.address, addr1.address, addr2.address, addr3.address]
+      );
+    });
+
+    it("source principal is capped by its shares after a multiplier decrease", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRedirectedFixture);
+
+      await contract.setMaxRebaseDecreaseRate(parseUnits("0.5"));
+      await contract.decreaseRebaseMultiplier(parseUnits("0.1"), 0);
+
+      expect(await contract.balanceOf(addr1.address)).to.equal(parseUnits("9"));
+      expect(await contract.balanceOf(addr2.address)).to.equal(parseUnits("9"));
+      await expectBalancesSumToTotalSupply(contract, [admin.address, addr1.address, addr2.address]);
+    });
+  });
+
+  describe("blocklist interaction", () => {
+    it("reverts when the source is blocked", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployYBSFixture);
+
+      await contract.blockAccounts([addr1.address]);
+
+      await expect((contract.connect(addr1) as Contract).redirectYield(addr2.address))
+        .to.be.revertedWithCustomError(contract, "BlockedAccountSender");
+    });
+
+    it("reverts when the recipient is blocked or blocked from receiving", async () => {
+      const { contract, addr1, addr2, addr3 } = await loadFixture(deployYBSFixture);
+
+      await contract.blockAccounts([addr2.address]);
+      await contract.blockAccountsFromReceiving([addr3.address]);
+
+      await expect((contract.connect(addr1) as Contract).redirectYield(addr2.address))
+        .to.be.revertedWithCustomError(contract, "BlockedAccountReceiver");
+      await expect((contract.connect(addr1) as Contract).redirectYield(addr3.address))
+        .to.be.revertedWithCustomError(contract, "BlockedAccountReceiver");
+    });
+
+    it("blocking the source stops the redirection", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRedirectedFixture);
+
+      await rebase(contract, parseUnits("1.1"));
+
+      await expect(contract.blockAccounts([addr1.address]))
+        .to.emit(contract, "YieldRedirectionStopped")
+        .withArgs(addr1.address, addr2.address);
+
+      expect(await contract.yieldRecipientOf(addr1.address)).to.equal(ZeroAddress);
+      expect(await contract.fixedSharesOf(addr1.address)).to.be.closeTo(amount, 1);
+      expect(await contract.balanceOf(addr2.address)).to.be.closeTo(parseUnits("12"), 1);
+      await expectBalancesSumToTotalSupply(contract, [admin.address, addr1.address, addr2.address]);
+    });
+
+    it("blocking the recipient stops the redirection and freezes the collected yield", async () => {
+      const { contract, admin, addr1, addr2 } = await loadFixture(deployRedirectedFixture);
+
+      await rebase(contract, parseUnits("1.1"));
+
+      await expect(contract.blockAccounts([addr2.address]))
+        .to.emit(contract, "YieldRedirectionStopped")
+        .withArgs(addr1.address, addr2.address);
+
+      expect(await contract.yieldSourceOf(addr2.address)).to.equal(ZeroAddress);
+      expect(await contract.fixedSharesOf(addr2.address)).to.be.closeTo(parseUnits("12"), 1);
+
+      // the source earns its own yield again
+      await rebase(contract, parseUnits("1.21"));
+      expect(await contract.balanceOf(addr1.address)).to.be.closeTo(parseUnits("11"), 1);
+      expect(await contract.balanceOf(addr2.address)).to.be.closeTo(parseUnits("12"), 1);
+      await expectBalancesSumToTotalSupply(contract, [admin.address, addr1.address, addr2.address]);
+    });
+
+    it("recipient opting out of yield stops the redirection", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployRedirectedFixture);
+
+      await expect((contract.connect(addr2) as Contract).optOutOfYield())
+        .to.emit(contract, "YieldRedirectionStopped")
+        .withArgs(addr1.address, addr2.address);
+    });
+
+    it("marking the source as yield-ineligible stops the redirection", async () => {
+      const { contract, addr1, addr2 } = await loadFixture(deployRedirectedFixture);
+
+      await expect(contract.setYieldIneligibleAccounts([addr1.address]))
+        .to.emit(contract, "YieldRedirectionStopped")
+        .withArgs(addr1.address, addr2.address);
+    });
+  });
+});
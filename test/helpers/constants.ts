@@ -17,6 +17,19 @@ export const roles = {
   ASSET_PROTECTION_ROLE: keccak256(toUtf8Bytes("ASSET_PROTECTION_ROLE")),
   REBASE_ADMIN_ROLE: keccak256(toUtf8Bytes("REBASE_ADMIN_ROLE")),
   REBASE_ROLE: keccak256(toUtf8Bytes("REBASE_ROLE")),
+  REBASE_DECREASE_ROLE: keccak256(toUtf8Bytes("REBASE_DECREASE_ROLE")),
+  REBASE_GUARDIAN_ROLE: keccak256(toUtf8Bytes("REBASE_GUARDIAN_ROLE")),
+  RESERVE_REPORTER_ROLE: keccak256(toUtf8Bytes("RESERVE_REPORTER_ROLE")),
+  UPGRADE_GUARDIAN_ROLE: keccak256(toUtf8Bytes("UPGRADE_GUARDIAN_ROLE")),
+  REBASE_RECEIVER_ROLE: keccak256(toUtf8Bytes("REBASE_RECEIVER_ROLE")),
   WRAPPED_YBS_ROLE: keccak256(toUtf8Bytes("WRAPPED_YBS_ROLE")),
   DEFAULT_ADMIN_ROLE: ZeroHash,
 };
+
+export const operations = {
+  TRANSFER: 0,
+  APPROVAL: 1,
+  AUTHORIZATION: 2,
+  WRAP: 3,
+  REBASE: 4,
+};
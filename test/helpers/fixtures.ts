@@ -2,12 +2,69 @@ import {
   NAME, SYMBOL, DECIMALS, CONTRACT_NAME, 
   W_NAME, W_SYMBOL, W_CONTRACT_NAME 
 } from "./constants";
-import { ethers, upgrades } from "hardhat";
+import { artifacts, ethers, upgrades } from "hardhat";
+import { ContractFactory, Fragment, ZeroAddress } from "ethers";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 
-export async function deployYBSFixture() {
-  const [admin, addr1, addr2] = await ethers.getSigners();
-  const initializerArgs = [
+// The modules of each token, in the order in which calls fall through them.
+export const MODULES: Record<string, string[]> = {
+  [CONTRACT_NAME]: ["YBSV1_1Authorizations", "YBSV1_1Supply", "YBSV1_1Rebasing", "YBSV1_1Admin"],
+  [W_CONTRACT_NAME]: ["wYBSV1Authorizations", "wYBSV1Admin"],
+};
+
+// Returns the factory of a token with the ABI of its modules merged into its own.
+export async function getTokenFactory(contractName = CONTRACT_NAME) {
+  const factory = await ethers.getContractFactory(contractName);
+  const fragments = [...factory.interface.fragments];
+  const isMember = (fragment: Fragment) => ["function", "event", "error"].includes(fragment.type);
+  const keys = new Set(fragments.filter(isMember).map((fragment) => `${fragment.type} ${fragment.format()}`));
+
+  for (const moduleName of MODULES[contractName] ?? []) {
+    const { abi } = await artifacts.readArtifact(moduleName);
+    for (const fragment of abi.map((item: any) => Fragment.from(item)).filter(isMember)) {
+      const key = `${fragment.type} ${fragment.format()}`;
+      if (!keys.has(key)) {
+        keys.add(key);
+        fragments.push(fragment);
+      }
+    }
+  }
+
+  return new ContractFactory(fragments, factory.bytecode, factory.runner);
+}
+
+// Deploys the modules of a token from the last one, each forwarding to the next, and returns the first.
+export async function deployModules(contractName = CONTRACT_NAME) {
+  let next = ZeroAddress;
+  for (const moduleName of [...(MODULES[contractName] ?? [])].reverse()) {
+    const module = await ethers.deployContract(moduleName, [next]);
+    next = await module.getAddress();
+  }
+  return next;
+}
+
+// Returns the constructor arguments of a token implementation, which deploy its modules.
+export async function tokenConstructorArgs(contractName = CONTRACT_NAME) {
+  return MODULES[contractName] ? [await deployModules(contractName)] : [];
+}
+
+// Deploys a token implementation with its modules.
+export async function deployImplementation(contractName = CONTRACT_NAME) {
+  const factory = await getTokenFactory(contractName);
+  return factory.deploy(...await tokenConstructorArgs(contractName));
+}
+
+// Deploys a token proxy with its implementation and modules.
+export async function deployTokenProxy(contractName: string, initializerArgs: unknown[]) {
+  return upgrades.deployProxy(await getTokenFactory(contractName), initializerArgs, {
+    initializer: "initialize",
+    constructorArgs: await tokenConstructorArgs(contractName),
+  });
+}
+
+export async function ybsInitializerArgs() {
+  const [admin] = await ethers.getSigners();
+  return [
     NAME,
     SYMBOL,
     DECIMALS,
@@ -18,11 +75,16 @@ export async function deployYBSFixture() {
     admin.address,
     admin.address,
   ];
+}
 
-  const YBS = await ethers.getContractFactory(CONTRACT_NAME);
-  const contract = await upgrades.deployProxy(YBS, initializerArgs, {
-    initializer: "initialize",
-  });
+// Deploys a YBS proxy with every role granted to the first signer and no supply.
+export async function deployYBS(contractName = CONTRACT_NAME) {
+  return deployTokenProxy(contractName, await ybsInitializerArgs());
+}
+
+export async function deployYBSFixture() {
+  const [admin, addr1, addr2] = await ethers.getSigners();
+  const contract = await deployYBS();
 
   await contract.increaseSupply(100);
 
@@ -43,10 +105,7 @@ export async function deployWrappedYBSFixture() {
     admin.address,
   ];
 
-  const YBS = await ethers.getContractFactory(W_CONTRACT_NAME);
-  const wYbsContract = await upgrades.deployProxy(YBS, initializerArgs, {
-    initializer: "initialize",
-  });
+  const wYbsContract = await deployTokenProxy(W_CONTRACT_NAME, initializerArgs);
 
   await ybsContract.approve(await wYbsContract.getAddress(), 100);
   await wYbsContract.mint(100, admin.address);
@@ -1,3 +1,5 @@
+import { ethers } from "hardhat";
+
 const ecsign = require("ethereumjs-util");
 const web3 = require("web3");
 
@@ -95,6 +97,51 @@ export function signCancelAuthorization(
   );
 }
 
+export function packSignature({ v, r, s }: { v: number, r: string, s: string }) {
+  return r + strip0x(s) + v.toString(16).padStart(2, "0");
+}
+
+export async function getDomainSeparator(contract: any) {
+  const [, name, version, chainId, verifyingContract] = await contract.eip712Domain();
+  return ethers.TypedDataEncoder.hashDomain({ name, version, chainId, verifyingContract });
+}
+
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+export async function signForwardRequest(
+  forwarder: any,
+  signer: any,
+  to: any,
+  data: string
+) {
+  const request = {
+    from: signer.address,
+    to: await to.getAddress(),
+    value: 0,
+    gas: 1_000_000,
+    nonce: await forwarder.getNonce(signer.address),
+    data,
+  };
+  const domain = {
+    name: "MinimalForwarder",
+    version: "0.0.1",
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    verifyingContract: await forwarder.getAddress(),
+  };
+  const signature = await signer.signTypedData(domain, FORWARD_REQUEST_TYPES, request);
+
+  return { request, signature };
+}
+
 function signEIP712(
   domainSeparator: string,
   typeHash: any,
@@ -23,14 +23,17 @@ function isEqual(entryOld: StorageEntry, entryNew: StorageEntry): boolean {
   return entryOld.type === "EMPTY" || entryOld.type === entryNew.type;
 }
 
-async function getStorageLayout(fullyQualifiedName: string): Promise<StorageEntry[]> {
+async function getCompilerStorageLayout(fullyQualifiedName: string): Promise<any> {
   const info = await hre.artifacts.getBuildInfo(fullyQualifiedName);
   if (!info) throw new Error(`Build info not found for ${fullyQualifiedName}`);
   
   const { sourceName, contractName } = parseFullyQualifiedName(fullyQualifiedName);
   const contractInfo = info.output.contracts[sourceName][contractName] as any;
-  const storage = contractInfo.storageLayout.storage;
-  const types = contractInfo.storageLayout.types;
+  return contractInfo.storageLayout;
+}
+
+async function getStorageLayout(fullyQualifiedName: string): Promise<StorageEntry[]> {
+  const { storage, types } = await getCompilerStorageLayout(fullyQualifiedName);
 
   return storage.reduce((storageLayout: StorageEntry[], { label, offset, slot, type }: any) => {
     const slotSize = 32;
@@ -119,7 +122,8 @@ function compareStorageLayouts(storageOld: StorageEntry[], storageNew: StorageEn
 
 async function compile(): Promise<void> {
   for (let compiler of hre.config.solidity.compilers) {
-    compiler.settings.outputSelection['*']['*'].push('storageLayout');
+    const outputSelection = compiler.settings.outputSelection['*']['*'];
+    if (!outputSelection.includes('storageLayout')) outputSelection.push('storageLayout');
   }
   await hre.run("compile");
 }
@@ -136,6 +140,31 @@ async function isStorageLayoutModified(oldFullQualifiedName: string, newFullQual
   return compareData.filter((entry) => entry.changed === "modified" && !entry.entryOld?.startsWith("__gap_")).length > 0;
 }
 
+// Returns the number of storage slots used by the variables declared in the contract itself, including its gap.
+async function getContractStorageSlots(fullyQualifiedName: string): Promise<number> {
+  await compile();
+  const info = await hre.artifacts.getBuildInfo(fullyQualifiedName);
+  if (!info) throw new Error(`Build info not found for ${fullyQualifiedName}`);
+
+  const { sourceName, contractName } = parseFullyQualifiedName(fullyQualifiedName);
+  const contractNode = (info.output.sources[sourceName].ast as any).nodes.find(
+    (node: any) => node.nodeType === "ContractDefinition" && node.name === contractName
+  );
+  const ownIds = contractNode.nodes
+    .filter((node: any) => node.nodeType === "VariableDeclaration")
+    .map((node: any) => node.id);
+
+  const { storage, types } = await getCompilerStorageLayout(fullyQualifiedName);
+  const ownStorage = storage.filter((entry: any) => ownIds.includes(entry.astId));
+  if (ownStorage.length === 0) return 0;
+
+  const first = ownStorage[0];
+  const last = ownStorage[ownStorage.length - 1];
+  const lastSlots = Math.ceil(parseInt(types[last.type].numberOfBytes) / 32);
+  return parseInt(last.slot) + lastSlots - parseInt(first.slot);
+}
+
 export {
+  getContractStorageSlots,
   isStorageLayoutModified,
 };
@@ -1,7 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, ZeroAddress } from "ethers";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 
 import { roles } from "../helpers/constants";
 import { deployWrappedYBSFixture } from "../helpers/fixtures";
@@ -152,6 +152,8 @@ describe("wYBS Access Controlled Token", function () {
       const { contract } = await loadFixture(deployWrappedYBSFixture);
       const newContract = await ethers.deployContract("YBS");
 
+      await contract.proposeUpgrade(newContract);
+      await time.increase(await contract.upgradeDelay());
       await expect(contract.upgradeTo(newContract)).to.not.be.reverted;
     });
 
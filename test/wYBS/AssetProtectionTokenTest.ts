@@ -1,9 +1,9 @@
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
+import { ethers } from "hardhat";
 import { Contract, MaxUint256, ZeroAddress } from "ethers";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { W_NAME, W_SYMBOL, W_CONTRACT_NAME } from "../helpers/constants";
-import { deployYBSFixture } from "../helpers/fixtures";
+import { deployYBSFixture, deployTokenProxy } from "../helpers/fixtures";
 
 describe("wYBS Asset Protection", function () {
   const amount = 10;
@@ -22,10 +22,7 @@ describe("wYBS Asset Protection", function () {
       admin.address,
     ];
   
-    const YBS = await ethers.getContractFactory(W_CONTRACT_NAME);
-    const wYbsContract = await upgrades.deployProxy(YBS, initializerArgs, {
-      initializer: "initialize",
-    });
+    const wYbsContract = await deployTokenProxy(W_CONTRACT_NAME, initializerArgs);
   
     await ybsContract.approve(await wYbsContract.getAddress(), 100);
     await wYbsContract.mint(100, admin.address);
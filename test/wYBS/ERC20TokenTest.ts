@@ -1,10 +1,10 @@
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
+import { ethers } from "hardhat";
 import { ZeroAddress } from "ethers";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { parseUnits } from "ethers";
 
-import { deployWrappedYBSFixture } from "../helpers/fixtures";
+import { deployWrappedYBSFixture, deployTokenProxy, getTokenFactory } from "../helpers/fixtures";
 import { W_NAME, W_SYMBOL, DECIMALS, W_CONTRACT_NAME, roles } from "../helpers/constants";
 
 describe("wYBS ERC20", function () {
@@ -67,12 +67,10 @@ describe("wYBS ERC20", function () {
         admin.address,
       ];
     
-      const wYBS = await ethers.getContractFactory(W_CONTRACT_NAME);
+      const wYBS = await getTokenFactory(W_CONTRACT_NAME);
 
       await expect(
-        upgrades.deployProxy(wYBS, initializerArgs, {
-          initializer: "initialize",
-        })
+        deployTokenProxy(W_CONTRACT_NAME, initializerArgs)
       ).to.be.revertedWithCustomError(wYBS, "ZeroAddress");
     });
 
@@ -87,7 +85,7 @@ describe("wYBS ERC20", function () {
         admin.address,
       ];
     
-      const wYBS = await ethers.getContractFactory(W_CONTRACT_NAME);
+      const wYBS = await getTokenFactory(W_CONTRACT_NAME);
       const startRoleArg = 4;
       const endRoleArg = 5;
 
@@ -95,9 +93,7 @@ describe("wYBS ERC20", function () {
         initializerArgs[i] = ZeroAddress;
 
         await expect(
-          upgrades.deployProxy(wYBS, initializerArgs, {
-            initializer: "initialize",
-          })
+          deployTokenProxy(W_CONTRACT_NAME, initializerArgs)
         ).to.be.revertedWithCustomError(wYBS, "ZeroAddress");
 
         initializerArgs[i] = admin.address;
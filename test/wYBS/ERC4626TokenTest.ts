@@ -1,5 +1,5 @@
 import { expect } from "chai";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 import { parseUnits } from "ethers";
 
 import { deployWrappedYBSFixture } from "../helpers/fixtures";
@@ -50,6 +50,28 @@ describe("wYBS ERC4626", function () {
       expect(await contract.previewRedeem(initialAmount)).to.within(accountAssets - wei, accountAssets);
     });
 
+    it("quotes redemptions at a pending rebase", async function () {
+      await contract.deposit(initialAmount, addr1.address)
+      await ybsContract.setMaxRebaseRate(parseUnits("1"));
+
+      let currentBlockTimestamp = await getBlockTimestamp();
+      const afterIncrMult = parseUnits("1.5");
+      const effectTime = currentBlockTimestamp + 10;
+      const expectedTotalSupply = initialSupply * afterIncrMult / base
+      const accountAssets = (initialAmount * afterIncrMult) / base
+
+      await ybsContract.setNextMultiplier(afterIncrMult, effectTime, expectedTotalSupply)
+
+      const now = await getBlockTimestamp();
+      expect(await contract.convertToAssetsAt(initialAmount, now)).to.be.equal(await contract.convertToAssets(initialAmount));
+      expect(await contract.previewRedeemAt(initialAmount, effectTime - 1)).to.be.equal(initialAmount);
+      expect(await contract.previewRedeemAt(initialAmount, effectTime)).to.within(accountAssets - wei, accountAssets);
+
+      const quote = await contract.previewRedeemAt(initialAmount, effectTime);
+      await time.increaseTo(effectTime);
+      expect(await contract.previewRedeem(initialAmount)).to.be.equal(quote);
+    });
+
     it("redeem after rebase", async function () {
       await contract.deposit(initialAmount, addr1.address)
       expect(await contract.balanceOf(addr1.address)).to.be.equal(initialAmount);
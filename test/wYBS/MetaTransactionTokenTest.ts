@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+import { roles } from "../helpers/constants";
+import { deployWrappedYBSFixture } from "../helpers/fixtures";
+import { signForwardRequest } from "../helpers/signature";
+
+describe("wYBS Meta Transactions", function () {
+  const amount = 10;
+
+  async function deployForwarderFixture() {
+    const { contract, ybsContract, admin, addr1, addr2 } = await loadFixture(deployWrappedYBSFixture);
+    const [, , , relayer] = await ethers.getSigners();
+
+    const Forwarder = await ethers.getContractFactory("MockForwarder");
+    const forwarder = await Forwarder.deploy();
+
+    await ybsContract.increaseSupply(50);
+    await ybsContract.transfer(addr1.address, 50);
+    await ybsContract.setTrustedForwarder(await forwarder.getAddress());
+    await contract.setTrustedForwarder(await forwarder.getAddress());
+
+    return { contract, ybsContract, forwarder, admin, addr1, addr2, relayer };
+  }
+
+  async function forward(forwarder: any, relayer: any, signer: any, contract: any, functionName: string, args: any[]) {
+    const data = contract.interface.encodeFunctionData(functionName, args);
+    const { request, signature } = await signForwardRequest(forwarder, signer, contract, data);
+    const [success, returndata] = await (forwarder.connect(relayer) as Contract).execute.staticCall(request, signature);
+    if (success) {
+      await (forwarder.connect(relayer) as Contract).execute(request, signature);
+      return null;
+    }
+    return contract.interface.parseError(returndata)?.name;
+  }
+
+  describe("trusted forwarder", function () {
+    it("sets the trusted forwarder", async function () {
+      const { contract, addr1 } = await loadFixture(deployForwarderFixture);
+
+      await expect(contract.setTrustedForwarder(addr1.address))
+        .to.emit(contract, "TrustedForwarderSet").withArgs(addr1.address);
+      expect(await contract.isTrustedForwarder(addr1.address)).to.equal(true);
+    });
+
+    it("reverts when caller does not have default admin role", async function () {
+      const { contract, addr1 } = await loadFixture(deployForwarderFixture);
+
+      await expect(
+        (contract.connect(addr1) as Contract).setTrustedForwarder(addr1.address)
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.DEFAULT_ADMIN_ROLE}`
+      );
+    });
+  });
+
+  describe("forwarded calls", function () {
+    it("deposits and redeems on behalf of the signer", async function () {
+      const { contract, ybsContract, forwarder, addr1, relayer } = await loadFixture(deployForwarderFixture);
+
+      await forward(forwarder, relayer, addr1, ybsContract, "approve", [await contract.getAddress(), amount]);
+      expect(await forward(forwarder, relayer, addr1, contract, "deposit", [amount, addr1.address])).to.equal(null);
+
+      expect(await contract.balanceOf(addr1.address)).to.equal(amount);
+      expect(await ybsContract.balanceOf(addr1.address)).to.equal(50 - amount);
+
+      expect(await forward(forwarder, relayer, addr1, contract, "redeem", [amount, addr1.address, addr1.address])).to.equal(null);
+
+      expect(await contract.balanceOf(addr1.address)).to.equal(0);
+      expect(await ybsContract.balanceOf(addr1.address)).to.equal(50);
+      expect(await contract.balanceOf(relayer.address)).to.equal(0);
+    });
+
+    it("approves and transfers on behalf of the signer", async function () {
+      const { contract, forwarder, admin, addr1, addr2, relayer } = await loadFixture(deployForwarderFixture);
+
+      await forward(forwarder, relayer, admin, contract, "approve", [addr1.address, amount]);
+      await forward(forwarder, relayer, admin, contract, "increaseAllowance", [addr1.address, amount]);
+      expect(await contract.allowance(admin.address, addr1.address)).to.equal(amount * 2);
+
+      await forward(forwarder, relayer, addr1, contract, "transferFrom", [admin.address, addr2.address, amount]);
+      expect(await contract.balanceOf(addr2.address)).to.equal(amount);
+      expect(await contract.allowance(admin.address, addr1.address)).to.equal(amount);
+    });
+  });
+
+  describe("blocklist checks use the forwarded sender", function () {
+    it("reverts approve when the signer is blocked", async function () {
+      const { contract, forwarder, admin, addr1, relayer } = await loadFixture(deployForwarderFixture);
+
+      await contract.blockAccounts([admin.address]);
+
+      expect(await forward(forwarder, relayer, admin, contract, "approve", [addr1.address, amount]))
+        .to.equal("BlockedAccountSender");
+      expect(await forward(forwarder, relayer, admin, contract, "increaseAllowance", [addr1.address, amount]))
+        .to.equal("BlockedAccountSender");
+    });
+
+    it("reverts transferFrom when the signer is a blocked spender", async function () {
+      const { contract, forwarder, admin, addr1, addr2, relayer } = await loadFixture(deployForwarderFixture);
+
+      await contract.approve(addr1.address, amount);
+      await contract.blockAccounts([addr1.address]);
+
+      expect(await forward(forwarder, relayer, addr1, contract, "transferFrom", [admin.address, addr2.address, amount]))
+        .to.equal("BlockedAccountSpender");
+    });
+
+    it("reverts deposit when the signer is blocked", async function () {
+      const { contract, ybsContract, forwarder, addr1, relayer } = await loadFixture(deployForwarderFixture);
+
+      await (ybsContract.connect(addr1) as Contract).approve(await contract.getAddress(), amount);
+      await contract.blockAccounts([addr1.address]);
+
+      expect(await forward(forwarder, relayer, addr1, contract, "deposit", [amount, addr1.address]))
+        .to.equal("BlockedAccountSender");
+    });
+  });
+});
@@ -1,7 +1,9 @@
 import { expect } from "chai";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
-import { Contract } from "ethers";
+import { Contract, ZeroHash } from "ethers";
 import { deployWrappedYBSFixture } from "../helpers/fixtures";
+import { roles, operations } from "../helpers/constants";
+import { MAX_UINT256 } from "../helpers/signature";
 
 describe("wYBS Pausable Token", function () {
 
@@ -140,4 +142,107 @@ describe("wYBS Pausable Token", function () {
       await expect(contract.redeem(amount, admin.address, admin.address)).to.be.revertedWith("Pausable: paused");
     });
   });
+
+  describe("operation pause", function () {
+    const amount = 10;
+
+    it("pauses and unpauses an operation class", async function () {
+      const { contract } = await loadFixture(deployWrappedYBSFixture);
+
+      await expect(contract.pauseOperation(operations.WRAP))
+        .to.emit(contract, "OperationPaused").withArgs(operations.WRAP);
+      expect(await contract.isOperationPaused(operations.WRAP)).to.be.true;
+      expect(await contract.paused()).to.be.false;
+
+      await expect(contract.unpauseOperation(operations.WRAP))
+        .to.emit(contract, "OperationUnpaused").withArgs(operations.WRAP);
+      expect(await contract.isOperationPaused(operations.WRAP)).to.be.false;
+    });
+
+    it("reverts when caller does not have pause role", async function () {
+      const { contract, addr1 } = await loadFixture(deployWrappedYBSFixture);
+
+      await expect(
+        (contract.connect(addr1) as Contract).pauseOperation(operations.WRAP)
+      ).to.be.revertedWith(
+        `AccessControl: account ${addr1.address.toLowerCase()} is missing role ${roles.PAUSE_ROLE}`
+      );
+    });
+
+    it("cannot wrap or unwrap when wrapping is paused", async function () {
+      const { contract, ybsContract, admin, addr1 } = await loadFixture(deployWrappedYBSFixture);
+
+      await ybsContract.increaseSupply(amount);
+      await ybsContract.approve(await contract.getAddress(), amount);
+      await contract.pauseOperation(operations.WRAP);
+
+      await expect(contract.deposit(amount, admin.address))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.WRAP);
+      await expect(contract.mint(amount, admin.address))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.WRAP);
+      await expect(contract.withdraw(amount, admin.address, admin.address))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.WRAP);
+      await expect(contract.redeem(amount, admin.address, admin.address))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.WRAP);
+
+      // transfers continue
+      await contract.transfer(addr1.address, amount);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+
+      await contract.unpauseOperation(operations.WRAP);
+      await contract.deposit(amount, admin.address);
+    });
+
+    it("cannot transfer when transfers are paused", async function () {
+      const { contract, ybsContract, admin, addr1 } = await loadFixture(deployWrappedYBSFixture);
+
+      await contract.approve(addr1.address, amount);
+      await contract.pauseOperation(operations.TRANSFER);
+
+      await expect(contract.transfer(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.TRANSFER);
+      await expect((contract.connect(addr1) as Contract).transferFrom(admin.address, addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.TRANSFER);
+      await expect((contract.connect(addr1) as Contract).transferFromBatch([admin.address], [addr1.address], [amount]))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.TRANSFER);
+
+      // wrapping continues
+      await ybsContract.increaseSupply(amount);
+      await ybsContract.approve(await contract.getAddress(), amount);
+      await contract.deposit(amount, addr1.address);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+    });
+
+    it("cannot approve or permit when approvals are paused", async function () {
+      const { contract, admin, addr1 } = await loadFixture(deployWrappedYBSFixture);
+
+      await contract.pauseOperation(operations.APPROVAL);
+
+      await expect(contract.approve(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.APPROVAL);
+      await expect(contract.increaseAllowance(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.APPROVAL);
+      await expect(contract.decreaseAllowance(addr1.address, amount))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.APPROVAL);
+      await expect(contract.permit(admin.address, addr1.address, amount, MAX_UINT256, 27, ZeroHash, ZeroHash))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.APPROVAL);
+
+      await contract.transfer(addr1.address, amount);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+    });
+
+    it("cannot use signed authorizations when authorizations are paused", async function () {
+      const { contract, admin, addr1 } = await loadFixture(deployWrappedYBSFixture);
+
+      await contract.pauseOperation(operations.AUTHORIZATION);
+
+      await expect(contract.transferWithAuthorization(admin.address, addr1.address, amount, 0, MAX_UINT256, ZeroHash, 27, ZeroHash, ZeroHash))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.AUTHORIZATION);
+      await expect(contract.cancelAuthorization(admin.address, ZeroHash, 27, ZeroHash, ZeroHash))
+        .to.be.revertedWithCustomError(contract, "PausedOperation").withArgs(operations.AUTHORIZATION);
+
+      await contract.transfer(addr1.address, amount);
+      expect(await contract.balanceOf(addr1.address)).to.be.equal(amount);
+    });
+  });
 });